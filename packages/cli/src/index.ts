@@ -7,6 +7,33 @@
 
 import { Command } from 'commander';
 import { Intent } from '../../core/src/intent';
+import {
+  AttestationReceipt,
+  DsseEnvelope,
+  EvidenceRecord,
+  Expectation,
+  InTotoStatement,
+  IntentCheckpoint,
+  IntentExecutionResult,
+  IntentPlan,
+  IntentStatus,
+  PlannedCheck,
+  PlannedVerification,
+  Reporter,
+  StepStatus,
+  StoredIntent,
+  StoredRun,
+  VerificationResult,
+  WatchStatus,
+  WatchedIntent
+} from '../../core/src/types';
+import { createReceipt, generateSigningKeys, verifyReceipt } from '../../core/src/attestation';
+import { createEnvelope, createStatement, parseStatement } from '../../core/src/intoto';
+import { DEFAULT_STORE_DIR, FileIntentStore, findById, recordRun } from '../../core/src/store';
+import { loadIntent, loadIntents } from '../../core/src/definition';
+import { DEFAULT_WATCH_CONFIG, IntentWatcher, loadWatchConfig } from '../../core/src/watch';
+import { IntentValidationError, formatIssue } from '../../core/src/errors';
+import { REPORTERS, attachReporter, createReporter } from '../../core/src/reporters';
 import chalk from 'chalk';
 import ora from 'ora';
 import * as fs from 'fs';
@@ -14,6 +41,489 @@ import * as path from 'path';
 
 const program = new Command();
 
+const DEFAULT_SIGNING_KEY = '.intentproof/keys/attest.key';
+const ATTESTATION_FORMATS = ['receipt', 'in-toto'];
+const store = new FileIntentStore(process.env.INTENTPROOF_STORE || DEFAULT_STORE_DIR);
+
+const INIT_FORMATS = ['json', 'yaml', 'ts'];
+
+const EXAMPLE_YAML = `# yaml-language-server: $schema=./node_modules/@intentproof/core/schema/intent.schema.json
+goal: Create and test a new feature
+options:
+  verbose: true
+  stopOnFailure: true
+
+preconditions:
+  - name: Source directory exists
+    check: test -d src
+
+steps:
+  - name: Create feature file
+    verify:
+      type: file
+      path: src/feature.ts
+  - name: Create test file
+    verify:
+      type: file
+      path: tests/feature.test.ts
+  - name: Tests pass
+    dependencies: [Create feature file, Create test file]
+    verify: |
+      npm test feature
+    expect: pass
+
+postconditions:
+  - name: Build succeeds
+    check: npm run build
+    expect: exit 0
+`;
+
+// Modules can do what data files cannot: run actions, roll them back, and check with functions
+const EXAMPLE_MODULE = `import * as fs from 'fs';
+import { Intent } from '@intentproof/core';
+
+export default new Intent('Create and test a new feature', { verbose: true, stopOnFailure: true })
+  .requires({ name: 'Source directory exists', check: { type: 'command', command: 'test -d src' } })
+  .step('Create feature file', {
+    action: async () => fs.writeFileSync('src/feature.ts', 'export const feature = true;\\n'),
+    verify: { type: 'file', path: 'src/feature.ts', contains: 'export const feature' },
+    rollback: async () => fs.rmSync('src/feature.ts', { force: true })
+  })
+  .step('Feature is enabled', {
+    dependencies: ['Create feature file'],
+    verify: () => fs.readFileSync('src/feature.ts', 'utf-8').includes('feature = true')
+  })
+  .step('Tests pass', {
+    dependencies: ['Feature is enabled'],
+    verify: 'npm test feature',
+    expect: 'pass'
+  })
+  .ensures({ name: 'Build succeeds', check: { type: 'command', command: 'npm run build' }, expect: 'exit 0' });
+`;
+
+/**
+ * Cancel the running intent on Ctrl-C so spawned commands are killed rather than orphaned.
+ * A second Ctrl-C exits immediately.
+ */
+function cancelOnInterrupt(intent: Intent, onCancel?: () => void): () => void {
+  const handler = () => {
+    if (intent.status !== 'running') {
+      process.exit(130);
+    }
+    onCancel?.();
+    intent.cancel('Interrupted (Ctrl-C)');
+    process.removeListener('SIGINT', handler);
+    process.once('SIGINT', () => process.exit(130));
+  };
+  
+  process.on('SIGINT', handler);
+  return () => process.removeListener('SIGINT', handler);
+}
+
+function describeVerification(verify: PlannedVerification): string {
+  if (verify.type === 'function') {
+    return 'function check';
+  }
+  if (verify.type === 'intent') {
+    return 'sub-intent';
+  }
+  if (verify.type === 'file') {
+    return `file ${verify.path}`;
+  }
+  if (verify.type === 'http') {
+    return `${verify.method} ${verify.url}`;
+  }
+  if (verify.type === 'git') {
+    return `git ${verify.range}` + chalk.gray(`  (in ${verify.cwd})`);
+  }
+  if (verify.type === 'tests') {
+    return `test report ${verify.path}` + (verify.command ? chalk.gray(`  (from $ ${verify.command})`) : '');
+  }
+  if (verify.type === 'coverage') {
+    return `coverage report ${verify.path}`;
+  }
+  if (verify.type === 'source') {
+    return `source checks` + chalk.gray(`  (in ${verify.cwd}${verify.path ? `, ${verify.path}` : ''})`);
+  }
+  if (verify.type === 'state') {
+    const source = verify.command ? ` from $ ${verify.command}` : verify.path ? ` from ${verify.path}` : '';
+    return `state "${verify.key}"${source}`;
+  }
+  
+  const env = verify.env ? ' ' + Object.entries(verify.env).map(([key, value]) => `${key}=${value}`).join(' ') : '';
+  return `$${env} ${verify.command}` + chalk.gray(`  (in ${verify.cwd})`);
+}
+
+function describeCheck(check: PlannedCheck): string {
+  const expectation = check.expect !== undefined ? chalk.gray(` → expect ${JSON.stringify(check.expect)}`) : '';
+  const label = check.name ? `${check.name}: ` : '';
+  return `${label}${describeVerification(check.verify)}${expectation}${check.critical ? '' : chalk.gray(' (non-critical)')}`;
+}
+
+function describeRecord(record: EvidenceRecord): string {
+  switch (record.kind) {
+    case 'command': {
+      const command = [record.command, ...(record.args || [])].join(' ');
+      const outcome = record.exitCode === null ? `killed by ${record.signal || 'signal'}` : `exit ${record.exitCode}`;
+      return `$ ${command} (in ${record.cwd}) → ${outcome} in ${record.duration}ms`;
+    }
+    case 'file':
+      return record.exists
+        ? `📄 ${record.path}${record.hash ? ` sha256 ${record.hash.slice(0, 12)}` : ''} (${record.size} bytes)`
+        : `📄 ${record.path} (missing)`;
+    case 'http':
+      return `🌐 ${record.method} ${record.url} → ${record.status ?? record.error}${record.duration !== undefined ? ` in ${record.duration}ms` : ''}`;
+    case 'function':
+      return `ƒ ${record.name || 'function'} → ${record.error ?? JSON.stringify(record.returned)} in ${record.duration}ms`;
+    case 'workspace':
+      return `📁 ${record.root}: ${record.added} added, ${record.modified} modified, ${record.deleted} deleted`;
+  }
+}
+
+function printVerificationLog(log: VerificationResult[]): void {
+  console.log(chalk.yellow('\n📜 Verification log:'));
+  for (const entry of log) {
+    console.log(`   ${entry.success ? '✅' : '❌'} ${entry.source ? `${entry.source}: ` : ''}${entry.message.split('\n')[0]}`);
+    for (const record of entry.records || []) {
+      console.log(chalk.gray(`      ${describeRecord(record)}`));
+    }
+  }
+}
+
+function printPlan(plan: IntentPlan): void {
+  console.log(chalk.blue(`\n🗺️  Execution plan: ${plan.goal}`));
+  console.log(chalk.gray(`   Mode: ${plan.parallel ? 'parallel' : 'sequential'}, ${plan.steps.length} steps in ${plan.waves.length} waves`));
+  
+  if (plan.preconditions.length > 0) {
+    console.log(chalk.yellow('\n📋 Preconditions:'));
+    plan.preconditions.forEach(check => console.log(`   • ${describeCheck(check)}`));
+  }
+  
+  if (plan.invariants.length > 0) {
+    console.log(chalk.yellow('\n🔒 Invariants (checked before and after every step):'));
+    plan.invariants.forEach(check => console.log(`   • ${describeCheck(check)}`));
+  }
+  
+  if (plan.steps.length > 0) {
+    console.log(chalk.yellow('\n📊 Steps:'));
+    plan.waves.forEach((wave, index) => {
+      console.log(chalk.cyan(`   Wave ${index + 1}${wave.length > 1 ? ' (may run in parallel)' : ''}:`));
+      for (const step of plan.steps.filter(s => s.wave === index)) {
+        const flags = [
+          step.action && 'action',
+          step.rollback && 'rollback',
+          step.retries > 0 && `${step.retries} retries`,
+          step.timeout !== undefined && `timeout ${step.timeout}ms`
+        ].filter(Boolean);
+        console.log(`   • ${step.name}${flags.length ? chalk.gray(` [${flags.join(', ')}]`) : ''}`);
+        if (step.dependencies.length > 0) {
+          console.log(chalk.gray(`       after: ${step.dependencies.join(', ')}`));
+        }
+        console.log(`       ${describeVerification(step.verify)}`);
+        if (step.expect !== undefined) {
+          console.log(chalk.gray(`       expect ${JSON.stringify(step.expect)}`));
+        }
+        if (step.intent) {
+          step.intent.steps.forEach(child => console.log(chalk.gray(`       │ ${child.name}`)));
+        }
+      }
+    });
+  }
+  
+  if (plan.postconditions.length > 0) {
+    console.log(chalk.yellow('\n📋 Postconditions:'));
+    plan.postconditions.forEach(check => console.log(`   • ${describeCheck(check)}`));
+  }
+  
+  if (plan.scope) {
+    const { allowed, maxFiles, maxLines, severity } = plan.scope;
+    const budgets = [maxFiles !== undefined && `≤ ${maxFiles} files`, maxLines !== undefined && `≤ ${maxLines} lines`].filter(Boolean);
+    console.log(chalk.yellow(`\n🧭 Scope${severity === 'warning' ? ' (warning only)' : ''}:`));
+    console.log(`   • ${allowed ? allowed.join(', ') : 'anywhere'}${budgets.length ? chalk.gray(` [${budgets.join(', ')}]`) : ''}`);
+  }
+  
+  for (const warning of plan.warnings) {
+    console.log(chalk.yellow(`⚠️  ${warning}`));
+  }
+  for (const error of plan.errors) {
+    console.log(chalk.red(`❌ ${error}`));
+  }
+}
+
+/**
+ * Commander accumulator for options that may be given more than once
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+function writeReport(reporter: Reporter, file: string): void {
+  const output = path.resolve(file);
+  fs.mkdirSync(path.dirname(output), { recursive: true });
+  fs.writeFileSync(output, reporter.render());
+  console.log(chalk.gray(`📄 ${reporter.name} report written to ${output}`));
+}
+
+/**
+ * Execute an intent with live progress, then print how it went
+ */
+async function runIntent(
+  intent: Intent,
+  options: { verbose?: boolean; resume?: IntentCheckpoint; reverify?: boolean }
+): Promise<IntentExecutionResult> {
+  // Set up event listeners
+  const spinner = ora();
+  
+  intent.on('start', (data) => {
+    console.log(chalk.blue(`\n🎯 Executing Intent: ${intent.goal}`));
+    console.log(chalk.gray(`   Steps: ${data.steps}`));
+  });
+  
+  intent.on('phase', (phase) => {
+    spinner.stop();
+    console.log(chalk.yellow(`\n📋 ${phase.charAt(0).toUpperCase() + phase.slice(1)}:`));
+  });
+  
+  intent.on('step:start', (data) => {
+    spinner.start(chalk.cyan(`Running: ${data.step}`));
+  });
+  
+  intent.on('step:retry', (data) => {
+    spinner.text = chalk.cyan(`Retrying: ${data.step} (attempt ${data.attempt + 1}, in ${data.delay}ms)`);
+  });
+  
+  intent.on('step:complete', (data) => {
+    spinner.succeed(chalk.green(`✅ ${data.step} (${data.duration}ms)`));
+  });
+  
+  intent.on('step:failed', (data) => {
+    spinner.fail(chalk.red(`❌ ${data.step}: ${data.reason}`));
+  });
+  
+  intent.on('step:skipped', (data) => {
+    spinner.info(chalk.yellow(`⏭️  ${data.step}: ${data.reason}`));
+  });
+  
+  intent.on('step:resumed', (data) => {
+    console.log(chalk.gray(`⏩ ${data.step} (proven in run ${data.from}${data.reverified ? ', re-verified' : ''})`));
+  });
+  
+  intent.on('step:rollback', (data) => {
+    console.log(chalk.gray(`↩️  Rolled back: ${data.step} (${data.duration}ms)`));
+  });
+  
+  intent.on('rollback:failed', (data) => {
+    console.log(chalk.red(`⚠️  Rollback failed: ${data.step}: ${data.error}`));
+  });
+  
+  if (options.verbose) {
+    intent.on('output', (data) => {
+      spinner.clear();
+      process.stdout.write(chalk.gray(data.chunk));
+      spinner.render();
+    });
+  }
+  
+  intent.on('warning', (data) => {
+    spinner.warn(chalk.yellow(`⚠️  ${data.reason}`));
+    for (const line of data.evidence || []) {
+      console.log(chalk.gray(`   ${line}`));
+    }
+  });
+  
+  intent.on('cancelled', (data) => {
+    spinner.warn(chalk.yellow(`🚫 Cancelled: ${data.reason}`));
+  });
+  
+  // Execute, checkpointing after each step so a failed run can be resumed
+  const stopListening = cancelOnInterrupt(intent, () => spinner.stop());
+  const onCheckpoint = (checkpoint: IntentCheckpoint) => store.saveCheckpoint(checkpoint);
+  const result = options.resume
+    ? await intent.resume(options.resume, { onCheckpoint, reverify: options.reverify })
+    : await intent.execute({ onCheckpoint });
+  stopListening();
+  
+  spinner.stop();
+  
+  // An intent file may ask for a dry run itself, which leaves a plan to show rather than a run
+  if (result.plan) {
+    printPlan(result.plan);
+    return result;
+  }
+  
+  // Show results
+  console.log('\n' + '═'.repeat(50));
+  if (result.success) {
+    console.log(chalk.green.bold('✨ Intent Completed Successfully!'));
+    console.log(chalk.gray(`   Duration: ${result.duration}ms`));
+    console.log(chalk.gray(`   Steps completed: ${result.steps.filter(s => s.status === 'completed').length}/${result.steps.length}`));
+  } else if (result.status === 'cancelled') {
+    console.log(chalk.yellow.bold('🚫 Intent Cancelled'));
+    console.log(chalk.yellow(`   Stopped at: ${result.failedStep}`));
+  } else {
+    console.log(chalk.red.bold(result.timedOut ? '⏰ Intent Timed Out' : '❌ Intent Failed'));
+    console.log(chalk.red(`   Failed at: ${result.failedStep}`));
+    console.log(chalk.red(`   Reason: ${result.failureReason}`));
+    if (result.failedStep === 'scope' || result.failedStep === 'changes') {
+      for (const line of result.verificationLog[result.verificationLog.length - 1]?.evidence || []) {
+        console.log(chalk.gray(`     ${line}`));
+      }
+    }
+    if (result.rollbacks) {
+      const failed = result.rollbacks.filter(r => !r.success).length;
+      console.log(chalk.gray(`   Rolled back: ${result.rollbacks.length - failed}/${result.rollbacks.length} steps`));
+    }
+  }
+  
+  if (result.resumedFrom) {
+    console.log(chalk.gray(`   Resumed from run ${result.resumedFrom.runId}: ${result.resumedFrom.steps.length} steps carried over`));
+  }
+  
+  if (result.changes) {
+    const { added, modified, deleted } = result.changes;
+    console.log(chalk.gray(`   Files changed: ${added.length} added, ${modified.length} modified, ${deleted.length} deleted`));
+    if (options.verbose) {
+      for (const change of [...added, ...modified, ...deleted]) {
+        console.log(chalk.gray(`     ${{ added: '+', modified: '~', deleted: '-' }[change.change]} ${change.path}`));
+      }
+    }
+  }
+  
+  if (options.verbose) {
+    printVerificationLog(result.verificationLog);
+    console.log('\n' + intent.visualize());
+  }
+  
+  return result;
+}
+
+/**
+ * Keep a run in the history; a store that cannot be written only costs a warning
+ */
+async function saveRun(intent: Intent, result: IntentExecutionResult, definition: any): Promise<void> {
+  try {
+    const run = await recordRun(store, intent, result, definition);
+    console.log(chalk.gray(`   Run: ${run.id} (intentproof show ${run.id})`));
+  } catch (error: any) {
+    console.log(chalk.yellow(`⚠️  Run not saved to ${store.root}: ${error.message}`));
+  }
+}
+
+/**
+ * The checkpoint of a run, found by its id or an unambiguous prefix of it
+ */
+async function loadCheckpoint(runId: string): Promise<IntentCheckpoint> {
+  const checkpoint = await store.getCheckpoint(runId).catch(() => undefined)
+    ?? await findById(store, runId).then(({ run }) => run && store.getCheckpoint(run.id));
+  if (!checkpoint) {
+    throw new Error(`No checkpoint for run ${runId} in ${store.root}`);
+  }
+  return checkpoint;
+}
+
+function statusIcon(status: IntentStatus | StepStatus): string {
+  switch (status) {
+    case 'completed': return '✅';
+    case 'failed': return '❌';
+    case 'running': return '⏳';
+    case 'cancelled': return '🚫';
+    case 'skipped': return '⏭️';
+    case 'reverted': return '↩️';
+    default: return '⭕';
+  }
+}
+
+function watchIcon(status: WatchStatus): string {
+  switch (status) {
+    case 'passed': return '✅';
+    case 'failed': return '❌';
+    case 'error': return '⚠️ ';
+    case 'running': return '🔄';
+    case 'cancelled': return '🚫';
+    default: return '⏳';
+  }
+}
+
+function describeWatched(watched: WatchedIntent): string {
+  const name = watched.goals.length === 1 ? `${watched.file} ${chalk.gray(watched.goals[0])}` : watched.file;
+  switch (watched.status) {
+    case 'running':
+      return `${watchIcon(watched.status)} ${name}${watched.step ? chalk.cyan(`  running: ${watched.step}`) : ''}`;
+    case 'pending':
+      return `${watchIcon(watched.status)} ${name}${chalk.gray('  pending')}`;
+    default: {
+      const timing = chalk.gray(`  ${((watched.duration || 0) / 1000).toFixed(1)}s, ${new Date(watched.updatedAt).toLocaleTimeString()}`);
+      const failure = watched.failureReason ? chalk.red(`\n     ${watched.failedStep ? `${watched.failedStep}: ` : ''}${watched.failureReason.split('\n')[0]}`) : '';
+      return `${watchIcon(watched.status)} ${name}${timing}${failure}`;
+    }
+  }
+}
+
+/**
+ * Redraw the watch summary in place: every intent's state and the latest change
+ */
+function printWatchSummary(watcher: IntentWatcher, lastChange?: { paths: string[]; files: string[]; at: Date }, warnings: string[] = []): void {
+  const statuses = watcher.statuses;
+  const passed = statuses.filter(watched => watched.status === 'passed').length;
+  
+  console.clear();
+  console.log(chalk.blue(`👀 Watching ${statuses.length} intent files in ${watcher.root} (Ctrl-C to stop)`));
+  console.log(chalk.gray(`   ${passed}/${statuses.length} green\n`));
+  statuses.forEach(watched => console.log(describeWatched(watched)));
+  
+  if (lastChange) {
+    const [first, ...rest] = lastChange.paths;
+    const changed = `${first}${rest.length ? ` and ${rest.length} more` : ''}`;
+    console.log(chalk.gray(`\nLast change ${lastChange.at.toLocaleTimeString()}: ${changed} → ${lastChange.files.join(', ')}`));
+  }
+  warnings.slice(-5).forEach(warning => console.log(chalk.yellow(`⚠️  ${warning}`)));
+}
+
+function printRun(run: StoredRun, verbose?: boolean): void {
+  const { result } = run;
+  console.log(chalk.blue(`\n${statusIcon(run.status)} Run ${run.id}: ${run.goal}`));
+  console.log(chalk.gray(`   Intent: ${run.intentId}`));
+  console.log(chalk.gray(`   Started: ${run.startedAt}, took ${result.duration}ms`));
+  if (result.resumedFrom) {
+    console.log(chalk.gray(`   Resumed from: ${result.resumedFrom.runId} (${result.resumedFrom.steps.length} steps carried over)`));
+  }
+  if (result.failedStep) {
+    console.log(chalk.red(`   Failed at: ${result.failedStep}`));
+    console.log(chalk.red(`   Reason: ${result.failureReason}`));
+  }
+  for (const warning of result.warnings || []) {
+    console.log(chalk.yellow(`   ⚠️  ${warning}`));
+  }
+  
+  console.log(chalk.yellow('\n📊 Steps:'));
+  for (const step of result.steps) {
+    console.log(`   ${statusIcon(step.status)} ${step.name}${step.duration !== undefined ? chalk.gray(` (${step.duration}ms)`) : ''} ${chalk.gray(step.status)}`);
+  }
+  
+  if (result.changes) {
+    const { added, modified, deleted } = result.changes;
+    console.log(chalk.gray(`\n   Files changed: ${added.length} added, ${modified.length} modified, ${deleted.length} deleted`));
+    if (verbose) {
+      for (const change of [...added, ...modified, ...deleted]) {
+        console.log(chalk.gray(`     ${{ added: '+', modified: '~', deleted: '-' }[change.change]} ${change.path}`));
+      }
+    }
+  }
+  
+  printVerificationLog(result.verificationLog);
+}
+
+function printStoredIntent(intent: StoredIntent, runs: StoredRun[]): void {
+  console.log(chalk.blue(`\n${statusIcon(intent.status)} Intent ${intent.id}: ${intent.goal}`));
+  console.log(chalk.gray(`   Created: ${intent.createdAt}, updated: ${intent.updatedAt}`));
+  printPlan(intent.plan);
+  
+  console.log(chalk.yellow(`\n🕘 Runs (${runs.length}):`));
+  for (const run of runs) {
+    console.log(`   ${statusIcon(run.status)} ${run.id}  ${chalk.gray(run.startedAt)}${run.result.failedStep ? chalk.red(`  failed at ${run.result.failedStep}`) : ''}`);
+  }
+}
+
 program
   .name('intentproof')
   .description('AI Intent Verification Framework - Prove what AI actually did')
@@ -22,91 +532,313 @@ program
 // Verify command
 program
   .command('verify <intent-file>')
-  .description('Execute and verify an intent from a JSON file')
+  .description('Execute and verify the intents in a JSON, YAML, or .ts/.js module intent file')
   .option('-v, --verbose', 'Show detailed output')
-  .action(async (intentFile: string, options: { verbose?: boolean }) => {
+  .option('--dry-run', 'Print the execution plan without running anything')
+  .option('-r, --resume <run-id>', 'Continue a failed run, skipping the steps it already proved')
+  .option('--reverify', 'With --resume, re-run the verification of proven steps first')
+  .option('--reporter <name>', `Also write a report: ${REPORTERS.join(', ')} (repeatable)`, collect, [])
+  .option('-o, --output <file>', 'File for the matching --reporter, in order (default: <intent-file>.report.<ext>)', collect, [])
+  .action(async (intentFile: string, options: { verbose?: boolean; dryRun?: boolean; resume?: string; reverify?: boolean; reporter: string[]; output: string[] }) => {
     try {
-      const filePath = path.resolve(intentFile);
-      if (!fs.existsSync(filePath)) {
-        console.error(chalk.red(`Intent file not found: ${filePath}`));
-        process.exit(1);
+      if (options.output.length > options.reporter.length) {
+        throw new Error('Each --output needs a --reporter to write it');
       }
+      const reporters = options.reporter.map(name => createReporter(name, { source: intentFile }));
+      const loaded = await loadIntents(intentFile);
       
-      const intentData = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
-      const intent = new Intent(intentData.goal, intentData.options);
+      if (options.dryRun) {
+        const plans = loaded.map(({ intent }) => intent.plan());
+        plans.forEach(printPlan);
+        process.exit(plans.every(plan => plan.errors.length === 0) ? 0 : 1);
+      }
       
-      // Add preconditions
-      if (intentData.preconditions) {
-        for (const pre of intentData.preconditions) {
-          intent.requires(pre.check, pre.expect);
-        }
+      const checkpoint = options.resume ? await loadCheckpoint(options.resume) : undefined;
+      if (checkpoint) {
+        console.log(chalk.gray(`⏩ Resuming run ${checkpoint.runId} (${checkpoint.status}${checkpoint.failedStep ? ` at ${checkpoint.failedStep}` : ''}), ${checkpoint.steps.length} steps proven`));
       }
       
-      // Add steps
-      if (intentData.steps) {
-        for (const step of intentData.steps) {
-          intent.step(step.name, step);
+      // A resumed run continues only the intent it was taken from
+      const selected = checkpoint ? [loaded.find(({ intent }) => intent.goal === checkpoint.goal) ?? loaded[0]] : loaded;
+      let success = true;
+      let cancelled = false;
+      for (const { intent, definition } of selected) {
+        reporters.forEach(reporter => attachReporter(intent, reporter));
+        const result = await runIntent(intent, { ...options, resume: checkpoint });
+        if (!result.plan) {
+          await saveRun(intent, result, definition);
+        }
+        if (result.status === 'cancelled') {
+          cancelled = true;
+          break;
         }
+        success = success && result.success;
       }
       
-      // Add postconditions
-      if (intentData.postconditions) {
-        for (const post of intentData.postconditions) {
-          intent.ensures(post.check, post.expect);
+      const base = intentFile.replace(/\.(json|ya?ml|[cm]?[jt]s)$/, '');
+      reporters.forEach((reporter, index) => writeReport(reporter, options.output[index] || `${base}.report${reporter.extension}`));
+      process.exit(cancelled ? 130 : success ? 0 : 1);
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(1);
+    }
+  });
+
+// Validate command - check intent files without running them
+program
+  .command('validate <intent-files...>')
+  .description('Check intent files against the schema and plan them without running anything')
+  .action(async (intentFiles: string[]) => {
+    let invalid = 0;
+    
+    for (const intentFile of intentFiles) {
+      try {
+        const loaded = await loadIntents(intentFile);
+        const plans = loaded.map(({ intent }) => intent.plan());
+        for (const plan of plans) {
+          const label = loaded.length > 1 ? `${intentFile} (${plan.goal})` : intentFile;
+          plan.warnings.forEach(warning => console.log(chalk.yellow(`⚠️  ${label}: ${warning}`)));
+          plan.errors.forEach(error => console.log(chalk.red(`❌ ${label}: ${error}`)));
+        }
+        
+        if (plans.some(plan => plan.errors.length > 0)) {
+          invalid++;
+        } else {
+          const steps = plans.reduce((total, plan) => total + plan.steps.length, 0);
+          const checks = plans.reduce((total, plan) => total + plan.preconditions.length + plan.invariants.length + plan.postconditions.length, 0);
+          console.log(chalk.green(`✅ ${intentFile}: ${loaded.length > 1 ? `${loaded.length} intents, ` : ''}${steps} steps, ${checks} checks`));
+        }
+      } catch (error: any) {
+        invalid++;
+        if (error instanceof IntentValidationError) {
+          console.log(chalk.red(`❌ ${intentFile}: ${error.issues.length} ${error.issues.length === 1 ? 'problem' : 'problems'}`));
+          error.issues.forEach(issue => console.log(`   ${formatIssue(issue, intentFile)}`));
+        } else {
+          console.log(chalk.red(`❌ ${intentFile}: ${error.message}`));
         }
       }
+    }
+    
+    process.exit(invalid === 0 ? 0 : 1);
+  });
+
+/**
+ * Read the signing key, creating a key pair on first use
+ */
+function loadSigningKey(keyFile: string): string {
+  const keyPath = path.resolve(keyFile);
+  if (fs.existsSync(keyPath)) {
+    return fs.readFileSync(keyPath, 'utf-8');
+  }
+  
+  const { privateKey, publicKey } = generateSigningKeys();
+  fs.mkdirSync(path.dirname(keyPath), { recursive: true });
+  fs.writeFileSync(keyPath, privateKey, { mode: 0o600 });
+  fs.writeFileSync(`${keyPath}.pub`, publicKey);
+  console.log(chalk.gray(`🔑 Created signing key ${keyPath} (keep it out of version control)`));
+  console.log(chalk.gray(`   Public key: ${keyPath}.pub`));
+  return privateKey;
+}
+
+/**
+ * Print the checks on an in-toto statement or envelope and exit with the outcome
+ */
+function verifyStatementDocument(document: InTotoStatement | DsseEnvelope, trustedKey?: string): never {
+  const localKey = path.resolve(`${DEFAULT_SIGNING_KEY}.pub`);
+  const publicKey = trustedKey ?? (fs.existsSync(localKey) ? fs.readFileSync(localKey, 'utf-8') : undefined);
+  const verification = parseStatement(document, publicKey);
+  const { predicate } = verification.statement;
+  
+  console.log(chalk.blue(`\n📜 In-toto statement for: ${predicate.intent?.goal}`));
+  console.log(chalk.gray(`   Created: ${predicate.createdAt}, outcome: ${predicate.result?.status}`));
+  if (verification.signed) {
+    console.log(`   ${verification.signatureValid ? '✅' : '❌'} Signature${verification.keyId ? ` (key ${verification.keyId})` : ''}`);
+  }
+  console.log(`   ${verification.chainValid ? '✅' : '❌'} Log chain (${predicate.verificationLog?.length ?? 0} entries)`);
+  console.log(chalk.gray(`   Subjects: ${verification.statement.subject?.length ?? 0}, materials: ${predicate.materials?.length ?? 0}, products: ${predicate.products?.length ?? 0}`));
+  for (const error of verification.errors) {
+    console.log(chalk.red(`   • ${error}`));
+  }
+  
+  if (!verification.valid) {
+    console.log(chalk.red.bold('\n❌ Statement is not valid'));
+    process.exit(1);
+  }
+  console.log(chalk.green.bold('\n✅ Statement is intact'));
+  if (!verification.signed) {
+    console.log(chalk.yellow('⚠️  Statement is unsigned; nothing shows who produced it'));
+  }
+  process.exit(0);
+}
+
+// Attest command - signed, tamper-evident receipts
+const attest = program
+  .command('attest')
+  .description('Produce and check signed verification receipts');
+
+attest
+  .command('run <intent-file>', { isDefault: true })
+  .description('Execute an intent and write a signed receipt of the outcome')
+  .option('-k, --key <file>', 'Ed25519 private key (PEM), created if missing', DEFAULT_SIGNING_KEY)
+  .option('-o, --output <file>', 'Output file (default: <intent-file>.receipt.json, or .intoto.json for in-toto)')
+  .option('-f, --format <format>', `Attestation format: ${ATTESTATION_FORMATS.join(', ')}`, 'receipt')
+  .option('--no-envelope', 'With --format in-toto, write the bare statement instead of a signed DSSE envelope')
+  .option('-v, --verbose', 'Show detailed output')
+  .action(async (intentFile: string, options: { key: string; output?: string; format: string; envelope: boolean; verbose?: boolean }) => {
+    try {
+      if (!ATTESTATION_FORMATS.includes(options.format)) {
+        throw new Error(`Unknown format "${options.format}" (expected ${ATTESTATION_FORMATS.join(' or ')})`);
+      }
+      const { intent, definition } = await loadIntent(intentFile, { workspace: {} });
+      const signed = options.format === 'receipt' || options.envelope;
+      const privateKey = signed ? loadSigningKey(options.key) : undefined;
       
-      // Set up event listeners
-      const spinner = ora();
-      
-      intent.on('start', (data) => {
-        console.log(chalk.blue(`\n🎯 Executing Intent: ${intentData.goal}`));
-        console.log(chalk.gray(`   Steps: ${data.steps}`));
-      });
+      const result = await runIntent(intent, options);
+      if (result.plan) {
+        throw new Error(`${intentFile} asks for a dry run; there is no run to attest`);
+      }
+      await saveRun(intent, result, definition);
+      const base = intentFile.replace(/\.(json|ya?ml|[cm]?[jt]s)$/, '');
       
-      intent.on('phase', (phase) => {
-        spinner.stop();
-        console.log(chalk.yellow(`\n📋 ${phase.charAt(0).toUpperCase() + phase.slice(1)}:`));
-      });
+      if (options.format === 'in-toto') {
+        const statement = createStatement(intent.plan(), result, definition);
+        const envelope = privateKey ? createEnvelope(statement, privateKey) : undefined;
+        const output = path.resolve(options.output || `${base}.intoto.json`);
+        fs.writeFileSync(output, JSON.stringify(envelope || statement, null, 2));
+        
+        console.log(chalk.blue(`\n📜 In-toto statement: ${output}`));
+        console.log(chalk.gray(`   ${statement.subject.length} subjects, ${envelope ? `signed by key ${envelope.signatures[0].keyid}` : 'unsigned'}`));
+      } else {
+        const receipt = createReceipt(intent.plan(), result, privateKey as string, definition);
+        const output = path.resolve(options.output || `${base}.receipt.json`);
+        fs.writeFileSync(output, JSON.stringify(receipt, null, 2));
+        
+        console.log(chalk.blue(`\n🧾 Receipt: ${output}`));
+        console.log(chalk.gray(`   Signed by key ${receipt.keyId}, ${receipt.payload.log.length} log entries`));
+      }
+      process.exit(result.success ? 0 : result.status === 'cancelled' ? 130 : 1);
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(1);
+    }
+  });
+
+attest
+  .command('verify <receipt>')
+  .description('Check a receipt or in-toto statement\'s signature and log chain offline')
+  .option('--public-key <file>', 'Only accept attestations signed with this key (PEM); in-toto envelopes default to the local signing key')
+  .action((receiptFile: string, options: { publicKey?: string }) => {
+    try {
+      const document = JSON.parse(fs.readFileSync(path.resolve(receiptFile), 'utf-8'));
+      const trustedKey = options.publicKey ? fs.readFileSync(path.resolve(options.publicKey), 'utf-8') : undefined;
+      if (document.payloadType || document._type) {
+        verifyStatementDocument(document, trustedKey);
+      }
       
-      intent.on('step:start', (data) => {
-        spinner.start(chalk.cyan(`Running: ${data.step}`));
-      });
+      const receipt = document as AttestationReceipt;
+      const verification = verifyReceipt(receipt, trustedKey);
+      const { payload } = receipt;
       
-      intent.on('step:complete', (data) => {
-        spinner.succeed(chalk.green(`✅ ${data.step} (${data.duration}ms)`));
-      });
+      console.log(chalk.blue(`\n🧾 Receipt for: ${payload.intent?.goal}`));
+      console.log(chalk.gray(`   Created: ${payload.createdAt}, outcome: ${payload.result?.status}`));
+      console.log(`   ${verification.signatureValid ? '✅' : '❌'} Signature (key ${verification.keyId})`);
+      console.log(`   ${verification.chainValid ? '✅' : '❌'} Log chain (${payload.log?.length ?? 0} entries)`);
+      if (payload.workspace) {
+        console.log(chalk.gray(`   Workspace: ${payload.workspace.before.slice(0, 12)} → ${payload.workspace.after.slice(0, 12)}`));
+      }
+      for (const error of verification.errors) {
+        console.log(chalk.red(`   • ${error}`));
+      }
       
-      intent.on('step:failed', (data) => {
-        spinner.fail(chalk.red(`❌ ${data.step}: ${data.reason}`));
-      });
+      if (!verification.valid) {
+        console.log(chalk.red.bold('\n❌ Receipt is not valid'));
+        process.exit(1);
+      }
+      console.log(chalk.green.bold('\n✅ Receipt is intact'));
+      if (!verification.trusted) {
+        console.log(chalk.yellow('⚠️  Checked against the key in the receipt; pass --public-key to confirm who signed it'));
+      }
+      process.exit(0);
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(1);
+    }
+  });
+
+// History command - past runs from the intent store
+program
+  .command('history')
+  .description('List past verification runs, newest first')
+  .option('-g, --goal <text>', 'Only runs whose goal contains this text')
+  .option('-s, --status <status>', 'Only runs that ended completed, failed or cancelled')
+  .option('-i, --intent <id>', 'Only runs of this intent')
+  .option('--since <date>', 'Only runs started at or after this date')
+  .option('--until <date>', 'Only runs started at or before this date')
+  .option('-n, --limit <count>', 'Show at most this many runs', '20')
+  .option('--json', 'Print the runs as JSON')
+  .action(async (options: { goal?: string; status?: IntentStatus; intent?: string; since?: string; until?: string; limit: string; json?: boolean }) => {
+    try {
+      for (const date of [options.since, options.until]) {
+        if (date !== undefined && isNaN(new Date(date).getTime())) {
+          throw new Error(`Invalid date: ${date}`);
+        }
+      }
       
-      intent.on('step:skipped', (data) => {
-        spinner.info(chalk.yellow(`⏭️  ${data.step}: ${data.reason}`));
+      const runs = await store.findRuns({
+        id: options.intent,
+        goal: options.goal,
+        status: options.status,
+        since: options.since,
+        until: options.until,
+        limit: parseInt(options.limit, 10) || undefined
       });
       
-      // Execute
-      const result = await intent.execute();
-      
-      spinner.stop();
-      
-      // Show results
-      console.log('\n' + '═'.repeat(50));
-      if (result.success) {
-        console.log(chalk.green.bold('✨ Intent Completed Successfully!'));
-        console.log(chalk.gray(`   Duration: ${result.duration}ms`));
-        console.log(chalk.gray(`   Steps completed: ${result.steps.filter(s => s.status === 'completed').length}/${result.steps.length}`));
-      } else {
-        console.log(chalk.red.bold('❌ Intent Failed'));
-        console.log(chalk.red(`   Failed at: ${result.failedStep}`));
-        console.log(chalk.red(`   Reason: ${result.failureReason}`));
+      if (options.json) {
+        console.log(JSON.stringify(runs, null, 2));
+        return;
+      }
+      if (runs.length === 0) {
+        console.log(chalk.gray(`No runs recorded in ${store.root}`));
+        return;
+      }
+      for (const run of runs) {
+        const failure = run.result.failedStep ? chalk.red(`  failed at ${run.result.failedStep}`) : '';
+        console.log(`${statusIcon(run.status)} ${chalk.gray(run.startedAt)}  ${chalk.cyan(run.id)}  ${run.goal}${failure}`);
+      }
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(1);
+    }
+  });
+
+// Show command - one run, or one intent and its runs
+program
+  .command('show <id>')
+  .description('Show a recorded run, or an intent and its runs (ids may be shortened)')
+  .option('-v, --verbose', 'List every changed file')
+  .option('--json', 'Print the record as JSON')
+  .action(async (id: string, options: { verbose?: boolean; json?: boolean }) => {
+    try {
+      const { run, intent } = await findById(store, id);
+      if (!run && !intent) {
+        throw new Error(`No run or intent ${id} in ${store.root}`);
       }
       
-      if (options.verbose) {
-        console.log('\n' + intent.visualize());
+      if (run) {
+        if (options.json) {
+          console.log(JSON.stringify(run, null, 2));
+          return;
+        }
+        printRun(run, options.verbose);
+        return;
       }
       
-      process.exit(result.success ? 0 : 1);
+      const runs = (await store.findRuns({ id: intent!.id })).reverse();
+      if (options.json) {
+        console.log(JSON.stringify({ ...intent, runs }, null, 2));
+        return;
+      }
+      printStoredIntent(intent!, runs);
     } catch (error: any) {
       console.error(chalk.red(`Error: ${error.message}`));
       process.exit(1);
@@ -117,19 +849,34 @@ program
 program
   .command('check <command>')
   .description('Quick verification of a single command')
-  .option('-e, --expect <value>', 'Expected output')
+  .option('-e, --expect <value>', 'Expected output, or a JSON expectation such as \'{"stdout":{"contains":"ok"}}\'')
   .action(async (command: string, options: { expect?: string }) => {
+    let expect: string | Expectation | undefined = options.expect;
+    if (expect?.trim().startsWith('{')) {
+      try {
+        expect = JSON.parse(expect) as Expectation;
+      } catch (error: any) {
+        console.error(chalk.red(`Error: --expect is not valid JSON: ${error.message}`));
+        process.exit(1);
+      }
+    }
+    
     const intent = new Intent('Quick check')
       .step('Verify command', {
         verify: command,
-        expect: options.expect
+        expect
       });
     
     const spinner = ora(`Running: ${command}`).start();
+    const stopListening = cancelOnInterrupt(intent);
     const result = await intent.execute();
+    stopListening();
     
     if (result.success) {
       spinner.succeed(chalk.green('Command verified successfully'));
+    } else if (result.status === 'cancelled') {
+      spinner.warn(chalk.yellow('Verification cancelled'));
+      process.exit(130);
     } else {
       spinner.fail(chalk.red(`Verification failed: ${result.failureReason}`));
     }
@@ -140,8 +887,14 @@ program
 // Init command - create example intent file
 program
   .command('init')
-  .description('Create an example intent.json file')
-  .action(() => {
+  .description('Create an example intent file')
+  .option('-f, --format <format>', `Intent file format: ${INIT_FORMATS.join(', ')}`, 'json')
+  .action((options: { format: string }) => {
+    if (!INIT_FORMATS.includes(options.format)) {
+      console.error(chalk.red(`Unknown format "${options.format}" (expected ${INIT_FORMATS.join(', ')})`));
+      process.exit(1);
+    }
+    
     const exampleIntent = {
       goal: "Create and test a new feature",
       options: {
@@ -181,22 +934,75 @@ program
       ]
     };
     
-    fs.writeFileSync('intent.json', JSON.stringify(exampleIntent, null, 2));
-    console.log(chalk.green('✅ Created intent.json'));
+    const file = `intent.${options.format}`;
+    const content = options.format === 'yaml' ? EXAMPLE_YAML
+      : options.format === 'ts' ? EXAMPLE_MODULE
+      : JSON.stringify({ $schema: './node_modules/@intentproof/core/schema/intent.schema.json', ...exampleIntent }, null, 2);
+    
+    fs.writeFileSync(file, content);
+    console.log(chalk.green(`✅ Created ${file}`));
     console.log(chalk.gray('Edit this file to define your verification intent'));
-    console.log(chalk.gray('Run with: intentproof verify intent.json'));
+    console.log(chalk.gray(`Run with: intentproof verify ${file}`));
   });
 
-// Watch command - monitor AI actions in real-time
+// Watch command - re-verify intents as the files they cover change
 program
   .command('watch')
-  .description('Watch for AI actions and verify them in real-time')
-  .option('-c, --config <file>', 'Configuration file', 'intentproof.config.json')
-  .action((options) => {
-    console.log(chalk.yellow('🔍 Watching for AI actions...'));
-    console.log(chalk.gray('This feature will monitor file changes and command executions'));
-    console.log(chalk.gray('Configuration: ' + options.config));
-    console.log(chalk.red('\n⚠️  This feature is coming soon!'));
+  .description('Re-verify intents whenever the files mapped to them change')
+  .option('-c, --config <file>', 'Configuration file mapping globs to intent files', DEFAULT_WATCH_CONFIG)
+  .action(async (options: { config: string }) => {
+    try {
+      const watcher = new IntentWatcher(loadWatchConfig(options.config), path.dirname(path.resolve(options.config)));
+      const live = process.stdout.isTTY;
+      const warnings: string[] = [];
+      let lastChange: { paths: string[]; files: string[]; at: Date } | undefined;
+      let redraw: NodeJS.Timeout | undefined;
+      
+      // Redraw at most every 100ms in a terminal; otherwise log each finished run
+      const refresh = () => {
+        redraw = redraw || setTimeout(() => {
+          redraw = undefined;
+          printWatchSummary(watcher, lastChange, warnings);
+        }, 100);
+      };
+      
+      watcher.on('status', (watched: WatchedIntent) => {
+        if (live) {
+          refresh();
+        } else if (!['pending', 'running'].includes(watched.status)) {
+          console.log(describeWatched(watched));
+        }
+      });
+      watcher.on('change', (change: { paths: string[]; files: string[] }) => {
+        if (change.files.length === 0) {
+          return;
+        }
+        lastChange = { ...change, at: new Date() };
+        live ? refresh() : console.log(chalk.gray(`↻ ${change.paths.join(', ')} → ${change.files.join(', ')}`));
+      });
+      watcher.on('warning', (warning: string) => {
+        warnings.push(warning);
+        live ? refresh() : console.log(chalk.yellow(`⚠️  ${warning}`));
+      });
+      watcher.on('result', ({ intent, result, definition }: { intent: Intent; result: IntentExecutionResult; definition?: any }) => {
+        recordRun(store, intent, result, definition).catch(error => watcher.emit('warning', `Run not saved to ${store.root}: ${error.message}`));
+      });
+      
+      process.once('SIGINT', async () => {
+        await watcher.stop();
+        clearTimeout(redraw);
+        console.log(chalk.gray('\nStopped watching'));
+        process.exit(0);
+      });
+      
+      if (!live) {
+        console.log(chalk.blue(`👀 Watching ${watcher.statuses.length} intent files in ${watcher.root} (Ctrl-C to stop)`));
+      }
+      await watcher.start();
+    } catch (error: any) {
+      console.error(chalk.red(`Error: ${error.message}`));
+      process.exit(1);
+    }
   });
 
 // Examples command
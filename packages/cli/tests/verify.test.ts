@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const CLI = path.resolve(__dirname, '../src/index.ts');
+const TSX = path.resolve(__dirname, '../../../node_modules/.bin/tsx');
+
+let dir: string;
+
+function cli(...args: string[]): { status: number | null; stdout: string } {
+  const { status, stdout } = spawnSync(TSX, [CLI, ...args], {
+    cwd: dir,
+    encoding: 'utf-8',
+    env: { ...process.env, FORCE_COLOR: '0', INTENTPROOF_STORE: path.join(dir, '.intentproof') },
+    timeout: 60000
+  });
+  return { status, stdout };
+}
+
+function write(file: string, definition: object): string {
+  fs.writeFileSync(path.join(dir, file), JSON.stringify(definition));
+  return file;
+}
+
+// A step whose check leaves a marker file behind, so a run that should not have happened shows
+function touching(goal: string, extra: object = {}): object {
+  return {
+    goal,
+    steps: [{ name: 'Touch', verify: { type: 'command', command: 'node', args: ['-e', 'require("fs").writeFileSync("ran", "")'] }, expect: { exitCode: 0 } }],
+    ...extra
+  };
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-cli-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('intentproof verify --dry-run', () => {
+  it('prints the plan and exits 0 without running anything', () => {
+    const { status, stdout } = cli('verify', write('intent.json', touching('Touch a file')), '--dry-run');
+    
+    expect(status).toBe(0);
+    expect(stdout).toContain('Execution plan: Touch a file');
+    expect(fs.existsSync(path.join(dir, 'ran'))).toBe(false);
+  });
+  
+  it('exits 1 when the plan has errors', () => {
+    const file = write('cyclic.json', {
+      goal: 'Cyclic',
+      steps: [
+        { name: 'A', dependencies: ['B'], verify: 'node -e ""' },
+        { name: 'B', dependencies: ['A'], verify: 'node -e ""' }
+      ]
+    });
+    
+    const { status, stdout } = cli('verify', file, '--dry-run');
+    
+    expect(status).toBe(1);
+    expect(stdout).toContain('Dependency cycle detected: A → B → A');
+  });
+  
+  it('prints the plan, not a result, for an intent file that asks for a dry run itself', () => {
+    const { status, stdout } = cli('verify', write('intent.json', touching('Touch a file', { options: { dryRun: true } })));
+    
+    expect(status).toBe(0);
+    expect(stdout).toContain('Execution plan: Touch a file');
+    expect(stdout).not.toContain('Intent Completed Successfully');
+    expect(fs.existsSync(path.join(dir, 'ran'))).toBe(false);
+    expect(fs.existsSync(path.join(dir, '.intentproof/runs'))).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,203 @@
+/**
+ * Attestation
+ * Hash-chained verification logs and Ed25519-signed receipts, so a result can be
+ * checked offline and any edit to it is detectable
+ */
+
+import { AttestationReceipt, IntentExecutionResult, IntentPlan, ReceiptPayload, ReceiptVerification, VerificationResult } from './types';
+import { sanitizeDefinition } from './evidence';
+import * as crypto from 'crypto';
+
+export const GENESIS_HASH = '0'.repeat(64);
+export const RECEIPT_TYPE = 'intentproof/receipt@v1';
+
+/**
+ * JSON with object keys sorted at every level, so equal values always hash the same
+ */
+export function canonicalJson(value: any): string {
+  const normalized = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  return JSON.stringify(sortKeys(normalized));
+}
+
+export function sha256(content: string | Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Hash of a log entry, covering everything in it but its own hash (so including the previous hash)
+ */
+export function hashLogEntry(entry: VerificationResult): string {
+  const { hash, ...content } = entry;
+  return sha256(canonicalJson(content));
+}
+
+/**
+ * Link an entry to the one before it, setting its previousHash and hash
+ */
+export function chainLogEntry(entry: VerificationResult, previous?: VerificationResult): VerificationResult {
+  entry.previousHash = previous?.hash ?? GENESIS_HASH;
+  entry.hash = hashLogEntry(entry);
+  return entry;
+}
+
+/**
+ * Problems with a hash-chained log: entries edited, removed, inserted or reordered
+ */
+export function verifyLogChain(log: VerificationResult[]): string[] {
+  const errors: string[] = [];
+  let previous = GENESIS_HASH;
+  
+  log.forEach((entry, index) => {
+    const label = `log[${index}]${entry.source ? ` (${entry.source})` : ''}`;
+    if (!entry.hash) {
+      errors.push(`${label}: not hash-chained`);
+      return;
+    }
+    if (entry.previousHash !== previous) {
+      errors.push(`${label}: does not follow the previous entry`);
+    }
+    if (hashLogEntry(entry) !== entry.hash) {
+      errors.push(`${label}: content does not match its hash`);
+    }
+    previous = entry.hash;
+  });
+  
+  return errors;
+}
+
+/**
+ * Hash of the last entry of a chained log, or the genesis hash when it is empty
+ */
+export function logHead(log: VerificationResult[]): string {
+  return log.length > 0 ? log[log.length - 1].hash ?? GENESIS_HASH : GENESIS_HASH;
+}
+
+/**
+ * The outcome of a run without its logs and step results, as quoted in receipts and statements
+ */
+export function summarizeResult(result: IntentExecutionResult): ReceiptPayload['result'] {
+  return {
+    success: result.success,
+    status: result.status,
+    ...(result.failedStep ? { failedStep: result.failedStep, failureReason: result.failureReason } : {}),
+    duration: result.duration,
+    steps: result.steps.map(step => ({ name: step.name, status: step.status }))
+  };
+}
+
+/**
+ * A new Ed25519 key pair, PEM encoded
+ */
+export function generateSigningKeys(): { privateKey: string; publicKey: string } {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+  return {
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString()
+  };
+}
+
+/**
+ * Short identifier of a public key: the start of the SHA-256 of its DER encoding
+ */
+export function keyId(publicKey: string | crypto.KeyObject): string {
+  const key = typeof publicKey === 'string' ? crypto.createPublicKey(publicKey) : publicKey;
+  return sha256(key.export({ type: 'spki', format: 'der' })).slice(0, 16);
+}
+
+/**
+ * Sign a receipt over an intent's definition (its plan), its workspace snapshots and its results.
+ * `declared` is what the intent was declared from, e.g. the parsed intent file; the plan is used when omitted.
+ * Secret-looking `env` values in it are hidden.
+ */
+export function createReceipt(
+  plan: IntentPlan,
+  result: IntentExecutionResult,
+  privateKey: string | crypto.KeyObject,
+  declared: any = plan
+): AttestationReceipt {
+  const definition = sanitizeDefinition(declared);
+  const key = typeof privateKey === 'string' ? crypto.createPrivateKey(privateKey) : privateKey;
+  const publicKey = crypto.createPublicKey(key).export({ type: 'spki', format: 'pem' }).toString();
+  const log = JSON.parse(JSON.stringify(result.verificationLog)) as VerificationResult[];
+  
+  const payload: ReceiptPayload = {
+    type: RECEIPT_TYPE,
+    intent: {
+      id: result.intentId,
+      goal: result.goal,
+      definition,
+      definitionHash: sha256(canonicalJson(definition))
+    },
+    ...(result.changes ? {
+      workspace: {
+        root: result.changes.root,
+        before: result.changes.beforeHash,
+        after: result.changes.afterHash,
+        changes: JSON.parse(JSON.stringify(result.changes))
+      }
+    } : {}),
+    result: summarizeResult(result),
+    log,
+    logHead: logHead(log),
+    createdAt: new Date().toISOString()
+  };
+  
+  return {
+    payload,
+    signature: crypto.sign(null, Buffer.from(canonicalJson(payload)), key).toString('base64'),
+    publicKey,
+    keyId: keyId(publicKey)
+  };
+}
+
+/**
+ * Check a receipt offline: the signature, the log chain and the hashes it quotes. Without
+ * `trustedKey` the receipt's own key is used, which proves integrity but not who signed it.
+ */
+export function verifyReceipt(receipt: AttestationReceipt, trustedKey?: string): ReceiptVerification {
+  const errors: string[] = [];
+  const { payload } = receipt;
+  
+  let signatureValid = false;
+  try {
+    const key = crypto.createPublicKey(trustedKey || receipt.publicKey);
+    signatureValid = crypto.verify(null, Buffer.from(canonicalJson(payload)), key, Buffer.from(receipt.signature, 'base64'));
+    if (trustedKey && keyId(key) !== receipt.keyId) {
+      errors.push(`Signed by key ${receipt.keyId}, not the trusted key ${keyId(key)}`);
+    }
+  } catch (error: any) {
+    errors.push(`Unreadable key or signature: ${error.message}`);
+  }
+  if (!signatureValid) {
+    errors.push('Signature does not match the receipt contents');
+  }
+  
+  const chainErrors = verifyLogChain(payload.log || []);
+  if (logHead(payload.log || []) !== payload.logHead) {
+    chainErrors.push('Log head does not match the last entry');
+  }
+  errors.push(...chainErrors);
+  
+  if (sha256(canonicalJson(payload.intent?.definition)) !== payload.intent?.definitionHash) {
+    errors.push('Intent definition does not match its hash');
+  }
+  
+  return {
+    valid: errors.length === 0,
+    signatureValid,
+    chainValid: chainErrors.length === 0,
+    trusted: Boolean(trustedKey) && errors.length === 0,
+    keyId: receipt.keyId,
+    errors
+  };
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.keys(value).sort().map(key => [key, sortKeys(value[key])]));
+  }
+  return value;
+}
\ No newline at end of file
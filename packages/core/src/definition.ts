@@ -0,0 +1,589 @@
+/**
+ * Intent Definitions
+ * Read intent files, validate them against the published JSON Schema with errors that point
+ * at the offending line, and build the Intent they declare. The CLI and the MCP server both load
+ * intents through here, so a file means the same thing to each.
+ */
+
+import {
+  CheckDefinition,
+  DefinitionIssue,
+  IntentDefinition,
+  IntentOptions,
+  VerificationCheck,
+  VerificationSpec
+} from './types';
+import { IntentDefinitionError, IntentValidationError } from './errors';
+import { Intent } from './intent';
+import { sha256 } from './attestation';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { isMap, isNode, isScalar, isSeq, LineCounter, parseDocument } from 'yaml';
+
+export const INTENT_SCHEMA_PATH = path.join(__dirname, '..', 'schema', 'intent.schema.json');
+
+const MODULE_EXTENSIONS = ['.ts', '.js', '.cjs'];
+
+/**
+ * An intent read from a file; `definition` is what a JSON or YAML file declared, absent for modules
+ */
+export interface LoadedIntent {
+  intent: Intent;
+  definition?: IntentDefinition;
+}
+
+interface Location {
+  line: number;
+  column: number;
+}
+
+let schema: any;
+
+/**
+ * The JSON Schema for intent files (draft-07), as published in schema/intent.schema.json
+ */
+export function intentSchema(): any {
+  if (!schema) {
+    schema = JSON.parse(fs.readFileSync(INTENT_SCHEMA_PATH, 'utf-8'));
+  }
+  return schema;
+}
+
+/**
+ * Read an intent file and build every intent it declares. JSON and YAML files declare one; a
+ * `.ts` or `.js` module default-exports an Intent or an array of them, and may use actions,
+ * rollbacks and function checks. `defaults` fill in options a JSON or YAML file leaves out.
+ */
+export async function loadIntents(file: string, defaults: IntentOptions = {}): Promise<LoadedIntent[]> {
+  const filePath = path.resolve(file);
+  if (MODULE_EXTENSIONS.includes(path.extname(filePath))) {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Intent file not found: ${filePath}`);
+    }
+    return identifyByFile(filePath, loadModule(filePath)).map(intent => ({ intent }));
+  }
+  
+  let text: string;
+  try {
+    text = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    throw new Error(error.code === 'ENOENT' ? `Intent file not found: ${filePath}` : `Cannot read ${filePath}: ${error.message}`);
+  }
+  
+  const definition = parseIntentDefinition(text, file);
+  return [{ intent: identifyByFile(filePath, [createIntent(definition, defaults)])[0], definition }];
+}
+
+/**
+ * Read an intent file that declares exactly one intent
+ */
+export async function loadIntent(file: string, defaults: IntentOptions = {}): Promise<LoadedIntent> {
+  const loaded = await loadIntents(file, defaults);
+  if (loaded.length !== 1) {
+    throw new IntentDefinitionError(`${file} declares ${loaded.length} intents; expected one`);
+  }
+  return loaded[0];
+}
+
+/**
+ * Parse and validate an intent definition, from JSON or YAML text or an already parsed value.
+ * Text is read as YAML when `file` ends in .yaml or .yml. Every problem is reported at once, in an
+ * IntentValidationError, with line and column when the text is known.
+ */
+export function parseIntentDefinition(source: string | object, file?: string, format: 'json' | 'yaml' = formatOf(file)): IntentDefinition {
+  const { value, locations } = typeof source === 'string'
+    ? (format === 'yaml' ? parseYamlDefinition(source, file) : parseJson(source, file))
+    : { value: source, locations: new Map<string, Location>() };
+  
+  const issues = validateDefinition(value).map(issue => ({ ...issue, ...locate(locations, issue.path) }));
+  if (issues.length > 0) {
+    throw new IntentValidationError(issues, file);
+  }
+  return value as IntentDefinition;
+}
+
+/**
+ * Problems with a parsed intent definition, checked against the schema
+ */
+export function validateDefinition(value: unknown): DefinitionIssue[] {
+  const root = intentSchema();
+  return validate(value, root, root, '$').map(({ path, message }) => ({ path, message }));
+}
+
+/**
+ * Build the intent a definition declares, mapping every field it can hold
+ */
+export function createIntent(definition: IntentDefinition, defaults: IntentOptions = {}): Intent {
+  return populate(new Intent(definition.goal, { ...defaults, ...definition.options }), definition);
+}
+
+function populate(intent: Intent, definition: IntentDefinition): Intent {
+  for (const check of definition.preconditions || []) {
+    intent.requires(toCheck(check));
+  }
+  
+  for (const check of definition.invariants || []) {
+    intent.invariant(toCheck(check));
+  }
+  
+  for (const step of definition.steps || []) {
+    intent.step(step.name, step);
+  }
+  
+  // Sub-intents, each verified as a single step of this intent
+  for (const child of definition.intents || []) {
+    intent.subIntent(child.goal, sub => populate(sub, child), {
+      description: child.description,
+      dependencies: child.dependencies,
+      options: child.options
+    });
+  }
+  
+  for (const check of definition.postconditions || []) {
+    intent.ensures(toCheck(check));
+  }
+  
+  for (const expectation of definition.changes || []) {
+    intent.changes(expectation);
+  }
+  
+  if (definition.scope) {
+    intent.scope(definition.scope);
+  }
+  
+  return intent;
+}
+
+function toCheck(check: CheckDefinition): VerificationCheck {
+  if (typeof check === 'string' || 'type' in check) {
+    return { check: toSpec(check), critical: true };
+  }
+  return {
+    ...(check.name !== undefined ? { name: check.name } : {}),
+    check: toSpec(check.check),
+    expect: check.expect,
+    critical: check.critical !== false
+  };
+}
+
+function toSpec(verify: string | VerificationSpec): VerificationSpec {
+  return typeof verify === 'string' ? { type: 'command', command: verify } : verify;
+}
+
+// --- Modules ---
+
+/**
+ * Require an intent module, afresh so edits are picked up, and collect what it default-exports
+ */
+function loadModule(filePath: string): Intent[] {
+  // Compile .ts only for this load, so the host process's own handling of .ts is left as it was
+  const compile = filePath.endsWith('.ts') && !require.extensions['.ts'];
+  if (compile) {
+    require.extensions['.ts'] = compileTypeScript;
+  }
+  delete require.cache[filePath];
+  
+  let exported: any;
+  try {
+    const loaded = require(filePath);
+    exported = loaded && typeof loaded === 'object' && 'default' in loaded ? loaded.default : loaded;
+  } catch (error: any) {
+    if (error.code === 'ERR_REQUIRE_ESM') {
+      throw new IntentDefinitionError(`${filePath} is an ES module; intent modules must be CommonJS or TypeScript`);
+    }
+    throw error;
+  } finally {
+    if (compile) {
+      delete require.extensions['.ts'];
+    }
+  }
+  
+  const intents = Array.isArray(exported) ? exported : [exported];
+  if (intents.length === 0 || !intents.every(isIntent)) {
+    throw new IntentDefinitionError(`${filePath} must default-export an Intent or an array of intents`);
+  }
+  return intents;
+}
+
+/**
+ * Compile a required .ts file with the TypeScript compiler, for when nothing else (tsx, ts-node) does
+ */
+function compileTypeScript(module: any, filename: string): void {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf-8'), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+      inlineSourceMap: true
+    }
+  });
+  module._compile(outputText, filename);
+}
+
+/**
+ * Give intents without an explicit id one derived from their file and goal, stable across loads
+ */
+function identifyByFile(filePath: string, intents: Intent[]): Intent[] {
+  const seen = new Map<string, number>();
+  for (const intent of intents) {
+    // A goal repeated in one module is told apart by its position among the repeats
+    const occurrence = seen.get(intent.goal) ?? 0;
+    seen.set(intent.goal, occurrence + 1);
+    const id = sha256([filePath, intent.goal, ...(occurrence ? [String(occurrence)] : [])].join('\n')).slice(0, 16);
+    if (typeof intent.identify === 'function') {
+      intent.identify(id);
+    }
+  }
+  return intents;
+}
+
+// Modules may get Intent from another copy of the package, so recognize intents by shape
+function isIntent(value: any): value is Intent {
+  return value instanceof Intent ||
+    (value !== null && typeof value === 'object' && typeof value.goal === 'string' &&
+      typeof value.execute === 'function' && typeof value.plan === 'function');
+}
+
+// --- YAML ---
+
+/**
+ * YAML (1.2, one document) read with the yaml package, recording where each value starts by JSON path
+ */
+function parseYamlDefinition(text: string, file?: string): { value: any; locations: Map<string, Location> } {
+  const lineCounter = new LineCounter();
+  const document = parseDocument(text, { lineCounter, prettyErrors: false });
+  const locations = new Map<string, Location>();
+  const spans: Array<{ path: string; start: number; end: number }> = [];
+  
+  const visit = (node: unknown, at: string, keyNode?: unknown) => {
+    const range = isNode(node) && node.range ? node.range : isNode(keyNode) ? keyNode.range : undefined;
+    if (range) {
+      const { line, col } = lineCounter.linePos(range[0]);
+      locations.set(at, { line, column: col });
+      spans.push({ path: at, start: range[0], end: range[1] });
+    }
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const key = isScalar(pair.key) ? pair.key.value : pair.key;
+        visit(pair.value, childPath(at, String(key)), pair.key);
+      }
+    } else if (isSeq(node)) {
+      node.items.forEach((item, index) => visit(item, childPath(at, index)));
+    }
+  };
+  visit(document.contents, '$');
+  
+  const [error] = document.errors;
+  if (error) {
+    const offset = error.pos[0];
+    // Spans are recorded outside in, so the last one holding the offset is the innermost
+    const inner = spans.filter(span => span.start <= offset && offset <= span.end).pop();
+    const { line, col } = lineCounter.linePos(offset);
+    const reason = error.code === 'MULTIPLE_DOCS' ? 'a file declares one intent, but this one holds several documents' : error.message;
+    throw new IntentValidationError([{ path: inner?.path || '$', message: `Invalid YAML: ${reason}`, line, column: col }], file);
+  }
+  return { value: document.toJS(), locations };
+}
+
+function formatOf(file?: string): 'json' | 'yaml' {
+  return file && /\.ya?ml$/i.test(file) ? 'yaml' : 'json';
+}
+
+// --- JSON with positions ---
+
+/**
+ * JSON.parse that also records where each value starts, keyed by JSON path
+ */
+function parseJson(text: string, file?: string): { value: any; locations: Map<string, Location> } {
+  const locations = new Map<string, Location>();
+  let index = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  
+  const fail = (message: string, at: number, jsonPath: string): never => {
+    throw new IntentValidationError([{ path: jsonPath, message: `Invalid JSON: ${message}`, ...position(text, at) }], file);
+  };
+  const skipWhitespace = () => {
+    while (index < text.length && ' \t\n\r'.includes(text[index])) index++;
+  };
+  const describe = (at: number) => at >= text.length ? 'end of input' : `"${text[at]}"`;
+  
+  const parseString = (jsonPath: string): string => {
+    const start = index++;
+    while (index < text.length && text[index] !== '"') {
+      if (text.charCodeAt(index) < 0x20) fail('control character in string', index, jsonPath);
+      index += text[index] === '\\' ? 2 : 1;
+    }
+    if (index >= text.length) fail('unterminated string', start, jsonPath);
+    index++;
+    try {
+      return JSON.parse(text.slice(start, index));
+    } catch {
+      return fail('invalid escape in string', start, jsonPath);
+    }
+  };
+  
+  const parseValue = (jsonPath: string): any => {
+    skipWhitespace();
+    locations.set(jsonPath, position(text, index));
+    const char = text[index];
+    
+    if (char === '{') {
+      index++;
+      const object: Record<string, any> = {};
+      skipWhitespace();
+      if (text[index] === '}') {
+        index++;
+        return object;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[index] !== '"') fail(`expected a property name, found ${describe(index)}`, index, jsonPath);
+        const key = parseString(jsonPath);
+        skipWhitespace();
+        if (text[index] !== ':') fail(`expected ":" after "${key}", found ${describe(index)}`, index, jsonPath);
+        index++;
+        object[key] = parseValue(childPath(jsonPath, key));
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+          continue;
+        }
+        if (text[index] === '}') {
+          index++;
+          return object;
+        }
+        fail(`expected "," or "}", found ${describe(index)}`, index, jsonPath);
+      }
+    }
+    
+    if (char === '[') {
+      index++;
+      const array: any[] = [];
+      skipWhitespace();
+      if (text[index] === ']') {
+        index++;
+        return array;
+      }
+      for (;;) {
+        array.push(parseValue(childPath(jsonPath, array.length)));
+        skipWhitespace();
+        if (text[index] === ',') {
+          index++;
+          continue;
+        }
+        if (text[index] === ']') {
+          index++;
+          return array;
+        }
+        fail(`expected "," or "]", found ${describe(index)}`, index, jsonPath);
+      }
+    }
+    
+    if (char === '"') {
+      return parseString(jsonPath);
+    }
+    
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (text.startsWith(literal, index)) {
+        index += literal.length;
+        return value;
+      }
+    }
+    
+    const number = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+    number.lastIndex = index;
+    const match = number.exec(text);
+    if (match) {
+      index += match[0].length;
+      return Number(match[0]);
+    }
+    
+    return fail(`unexpected ${describe(index)}`, index, jsonPath);
+  };
+  
+  const value = parseValue('$');
+  skipWhitespace();
+  if (index < text.length) {
+    fail(`unexpected ${describe(index)} after the end of the document`, index, '$');
+  }
+  return { value, locations };
+}
+
+function position(text: string, offset: number): Location {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - before.lastIndexOf('\n') };
+}
+
+/**
+ * Where a path's value starts, or failing that its nearest enclosing value
+ */
+function locate(locations: Map<string, Location>, at: string): Location | {} {
+  for (let current = at; ; current = current.replace(/(\.[^.[]+|\[[^\]]+\])$/, '')) {
+    const location = locations.get(current);
+    if (location || current === '$') {
+      return location || {};
+    }
+  }
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${parent}.${key}` : `${parent}[${JSON.stringify(key)}]`;
+}
+
+// --- JSON Schema (the subset the intent schema uses) ---
+
+interface SchemaIssue {
+  path: string;
+  message: string;
+  rejected?: boolean;  // The value is not of this schema's kind at all, rather than a flawed instance of it
+}
+
+function validate(value: any, node: any, root: any, at: string): SchemaIssue[] {
+  if (node.$ref) {
+    return validate(value, resolveRef(root, node.$ref), root, at);
+  }
+  
+  if (node.anyOf) {
+    return validateAnyOf(value, node.anyOf, root, at);
+  }
+  
+  if ('const' in node && value !== node.const) {
+    return [{ path: at, message: `must be ${JSON.stringify(node.const)}`, rejected: true }];
+  }
+  if (node.enum && !node.enum.includes(value)) {
+    return [{ path: at, message: `must be one of: ${node.enum.map((option: any) => JSON.stringify(option)).join(', ')}` }];
+  }
+  if (node.type && !matchesType(value, node.type)) {
+    const types: string[] = Array.isArray(node.type) ? node.type : [node.type];
+    return [{ path: at, message: `must be ${types.map(withArticle).join(' or ')}`, rejected: true }];
+  }
+  if (node.minimum !== undefined && typeof value === 'number' && value < node.minimum) {
+    return [{ path: at, message: `must be at least ${node.minimum}` }];
+  }
+  
+  const issues: SchemaIssue[] = [];
+  if (Array.isArray(value) && node.items) {
+    value.forEach((item, index) => issues.push(...nested(validate(item, node.items, root, childPath(at, index)))));
+  }
+  
+  if (isObject(value)) {
+    const properties = node.properties || {};
+    for (const name of node.required || []) {
+      if (value[name] === undefined) {
+        // A missing discriminator such as "type" means the value is some other kind of object
+        const discriminator = 'const' in resolveNode(root, properties[name] || {});
+        issues.push({ path: at, message: `missing required property "${name}"`, rejected: discriminator });
+      }
+    }
+    for (const [name, child] of Object.entries(value)) {
+      if (child === undefined) {
+        continue;  // Absent once serialized
+      } else if (properties[name]) {
+        // A wrong discriminator rejects the whole object; anything else wrong inside it is a flaw in it
+        const discriminator = 'const' in resolveNode(root, properties[name]);
+        issues.push(...nested(validate(child, properties[name], root, childPath(at, name)), discriminator));
+      } else if (node.additionalProperties === false) {
+        const suggestion = closest(name, Object.keys(properties));
+        issues.push({ path: childPath(at, name), message: `unknown property "${name}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}` });
+      } else if (isObject(node.additionalProperties)) {
+        issues.push(...nested(validate(child, node.additionalProperties, root, childPath(at, name))));
+      }
+    }
+  }
+  
+  return issues;
+}
+
+function nested(issues: SchemaIssue[], rejected = false): SchemaIssue[] {
+  return issues.map(issue => ({ ...issue, rejected }));
+}
+
+/**
+ * Report against the alternative the value was most likely meant to be: the one it is the
+ * right kind for, with the fewest problems
+ */
+function validateAnyOf(value: any, options: any[], root: any, at: string): SchemaIssue[] {
+  const results = options.map(option => validate(value, option, root, at));
+  if (results.some(issues => issues.length === 0)) {
+    return [];
+  }
+  
+  const candidates = results.filter(issues => !issues.some(issue => issue.rejected));
+  if (candidates.length > 0) {
+    return candidates.reduce((best, issues) => issues.length < best.length ? issues : best);
+  }
+  
+  // Objects with an unknown "type" get told which types exist; that is still the kind of value meant here
+  const kinds = options.map(option => resolveNode(root, option)?.properties?.type?.const).filter(Boolean);
+  if (isObject(value) && typeof value.type === 'string' && kinds.length > 0) {
+    return [{ path: childPath(at, 'type'), message: `unknown type "${value.type}"; expected one of: ${kinds.join(', ')}` }];
+  }
+  
+  const names = options.map(option => option.$ref ? option.$ref.split('/').pop() : option.type);
+  return [{ path: at, message: `must be one of: ${names.join(', ')}`, rejected: true }];
+}
+
+function resolveRef(root: any, ref: string): any {
+  const node = ref.replace(/^#\//, '').split('/').reduce((current, key) => current?.[key], root);
+  if (!node) {
+    throw new Error(`Unresolvable schema reference: ${ref}`);
+  }
+  return node;
+}
+
+function resolveNode(root: any, node: any): any {
+  return node?.$ref ? resolveNode(root, resolveRef(root, node.$ref)) : node;
+}
+
+function matchesType(value: any, type: string | string[]): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(expected => {
+    switch (expected) {
+      case 'integer': return Number.isInteger(value);
+      case 'number': return typeof value === 'number' && Number.isFinite(value);
+      case 'array': return Array.isArray(value);
+      case 'object': return isObject(value);
+      case 'null': return value === null;
+      default: return typeof value === expected;
+    }
+  });
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function withArticle(type: string): string {
+  return `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type}`;
+}
+
+/**
+ * The known name within two edits of a mistyped one
+ */
+function closest(name: string, known: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of known) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+/**
+ * IntentProof Errors
+ * Raised when an intent itself is malformed, as opposed to a verification failing
+ */
+
+import { DefinitionIssue } from './types';
+
+export class IntentDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntentDefinitionError';
+  }
+}
+
+export class IntentValidationError extends IntentDefinitionError {
+  public readonly issues: DefinitionIssue[];
+  public readonly file?: string;
+  
+  constructor(issues: DefinitionIssue[], file?: string) {
+    super(`Invalid intent${file ? ` in ${file}` : ''}:\n${issues.map(issue => `  ${formatIssue(issue, file)}`).join('\n')}`);
+    this.name = 'IntentValidationError';
+    this.issues = issues;
+    this.file = file;
+  }
+}
+
+/**
+ * One issue as compilers print them: file:line:column, then where in the document and what is wrong
+ */
+export function formatIssue(issue: DefinitionIssue, file?: string): string {
+  const position = issue.line !== undefined ? `${issue.line}:${issue.column}` : '';
+  const location = [file, position].filter(Boolean).join(':');
+  return `${location ? `${location} ` : ''}${issue.path}: ${issue.message}`;
+}
+
+export class DependencyCycleError extends IntentDefinitionError {
+  public readonly cycle: string[];
+  
+  constructor(cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' → ')}`);
+    this.name = 'DependencyCycleError';
+    this.cycle = cycle;
+  }
+}
+
+export class TimeoutError extends Error {
+  public readonly timeout: number;
+  
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+export class CancelledError extends Error {
+  constructor(message: string = 'Intent cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * Evidence Records
+ * Structured proof of what a verification actually looked at: the commands it ran,
+ * the files it read and the requests it sent, with secrets kept out
+ */
+
+import { CommandEvidence, FileEvidence } from './types';
+import { CommandOutput } from './executor';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const SECRET_NAME = /passw(or)?d|passphrase|secret|token|api[-_]?key|^auth|authorization|cookie|session|credential|signature/i;
+export const REDACTED = '[REDACTED]';
+
+const EXCERPT_HEAD = 1024;
+const EXCERPT_TAIL = 3072;
+
+/**
+ * Whether a header, query parameter, field or variable name looks like it holds a secret
+ */
+export function secretMatcher(extra: string[] = []): (name: string) => boolean {
+  const names = new Set(extra.map(name => name.toLowerCase()));
+  return name => SECRET_NAME.test(name) || names.has(name.toLowerCase());
+}
+
+/**
+ * Environment overrides with secret-looking values hidden
+ */
+export function sanitizeEnv(env: Record<string, string | undefined>, isSecret: (name: string) => boolean = secretMatcher()): Record<string, string> {
+  const sanitized: Record<string, string> = {};
+  for (const [name, value] of Object.entries(env)) {
+    if (value !== undefined) {
+      sanitized[name] = isSecret(name) ? REDACTED : value;
+    }
+  }
+  return sanitized;
+}
+
+/**
+ * A copy of an intent definition with the secret-looking values of every `env` and `headers`
+ * hidden, for definitions that are stored, exported or signed
+ */
+export function sanitizeDefinition<T>(definition: T): T {
+  if (Array.isArray(definition)) {
+    return definition.map(sanitizeDefinition) as T;
+  }
+  if (!definition || typeof definition !== 'object' || definition instanceof Date || definition instanceof RegExp) {
+    return definition;
+  }
+  
+  const sanitized: Record<string, any> = {};
+  for (const [key, value] of Object.entries(definition)) {
+    sanitized[key] = (key === 'env' || key === 'headers') && value && typeof value === 'object' && !Array.isArray(value)
+      ? sanitizeEnv(value as Record<string, string | undefined>)
+      : sanitizeDefinition(value);
+  }
+  return sanitized as T;
+}
+
+/**
+ * The start and end of a long text; the end is where commands usually say what went wrong
+ */
+export function excerpt(text: string): string {
+  if (text.length <= EXCERPT_HEAD + EXCERPT_TAIL) {
+    return text;
+  }
+  const omitted = text.length - EXCERPT_HEAD - EXCERPT_TAIL;
+  return `${text.slice(0, EXCERPT_HEAD)}\n… ${omitted} characters omitted …\n${text.slice(-EXCERPT_TAIL)}`;
+}
+
+/**
+ * Record a finished command. `env` should hold only the overrides, not the inherited environment.
+ */
+export function commandRecord(
+  command: string,
+  output: CommandOutput,
+  options: { args?: string[]; cwd?: string; env?: Record<string, string> } = {}
+): CommandEvidence {
+  return {
+    kind: 'command',
+    command,
+    ...(options.args ? { args: options.args } : {}),
+    cwd: path.resolve(options.cwd || process.cwd()),
+    ...(options.env ? { env: sanitizeEnv(options.env) } : {}),
+    exitCode: output.exitCode,
+    ...(output.signal ? { signal: output.signal } : {}),
+    stdout: excerpt(output.stdout),
+    stderr: excerpt(output.stderr),
+    ...(output.truncated ? { truncated: true } : {}),
+    ...(output.timedOut ? { timedOut: true } : {}),
+    ...(output.cancelled ? { cancelled: true } : {}),
+    duration: output.duration,
+    timestamp: new Date(Date.now() - output.duration)
+  };
+}
+
+/**
+ * Record a file as it is on disk now, or as the given content when it was already read
+ */
+export function fileRecord(filePath: string, content?: string | Buffer): FileEvidence {
+  const fullPath = path.resolve(filePath);
+  const timestamp = new Date();
+  
+  let stats: fs.Stats;
+  try {
+    stats = fs.statSync(fullPath);
+  } catch {
+    return { kind: 'file', path: fullPath, exists: false, timestamp };
+  }
+  
+  const record: FileEvidence = { kind: 'file', path: fullPath, exists: true, size: stats.size, modified: stats.mtime, timestamp };
+  if (stats.isFile()) {
+    record.hash = crypto.createHash('sha256').update(content ?? fs.readFileSync(fullPath)).digest('hex');
+  }
+  return record;
+}
\ No newline at end of file
@@ -0,0 +1,212 @@
+/**
+ * Command Executor
+ * Runs verification commands asynchronously, keeping stdout, stderr and the exit code apart
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import { StringDecoder } from 'string_decoder';
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface CommandOutput {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;        // null when the process was killed by a signal
+  signal: NodeJS.Signals | null;
+  truncated: boolean;             // Output beyond maxOutput was dropped (the tail is kept)
+  duration: number;
+  timedOut: boolean;
+  cancelled: boolean;
+}
+
+export interface RunCommandOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  shell?: boolean | string;       // true (default) uses /bin/sh, a string names the shell, false runs the binary directly
+  args?: string[];                // Arguments; quoted onto the command when it runs in a shell
+  timeout?: number;
+  signal?: AbortSignal;
+  maxOutput?: number;             // Bytes kept per stream
+  onOutput?: (stream: OutputStream, chunk: string) => void;
+}
+
+export const DEFAULT_MAX_OUTPUT = 1024 * 1024;
+
+/**
+ * Run a command to completion. Non-zero exits, timeouts and cancellation all resolve
+ * with the captured output; only a command that cannot be started rejects.
+ *
+ * The command gets its own process group so a timeout or cancellation kills
+ * everything it spawned, not just the shell.
+ */
+export function runCommand(command: string, options: RunCommandOptions = {}): Promise<CommandOutput> {
+  const shell = options.shell ?? true;
+  const [file, ...args] = shell === false
+    ? (options.args ? [command, ...options.args] : splitCommand(command))
+    : [[command, ...(options.args || []).map(quoteArgument)].join(' ')];
+  const maxOutput = options.maxOutput ?? DEFAULT_MAX_OUTPUT;
+  const started = Date.now();
+  
+  return new Promise((resolve, reject) => {
+    const finish = (output: Partial<CommandOutput>) => resolve({
+      stdout: '',
+      stderr: '',
+      exitCode: null,
+      signal: null,
+      truncated: false,
+      duration: Date.now() - started,
+      timedOut: false,
+      cancelled: false,
+      ...output
+    });
+    
+    if (options.signal?.aborted) {
+      return finish({ cancelled: true });
+    }
+    
+    const child = spawn(file, args, {
+      shell,
+      cwd: options.cwd,
+      env: options.env,
+      detached: process.platform !== 'win32'
+    });
+    
+    const stdout = new OutputBuffer(maxOutput);
+    const stderr = new OutputBuffer(maxOutput);
+    const capture = (stream: OutputStream, buffer: OutputBuffer) => {
+      const decoder = new StringDecoder('utf-8');
+      child[stream]!.on('data', (chunk: Buffer) => {
+        buffer.push(chunk);
+        const text = decoder.write(chunk);
+        if (text && options.onOutput) options.onOutput(stream, text);
+      });
+    };
+    capture('stdout', stdout);
+    capture('stderr', stderr);
+    
+    let timedOut = false;
+    const timer = options.timeout === undefined ? undefined : setTimeout(() => {
+      timedOut = true;
+      killProcessTree(child);
+    }, options.timeout);
+    
+    const onAbort = () => killProcessTree(child);
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    
+    const cleanup = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    
+    child.on('error', error => {
+      cleanup();
+      reject(error);
+    });
+    
+    child.on('close', (exitCode, signal) => {
+      cleanup();
+      finish({
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        exitCode,
+        signal,
+        truncated: stdout.truncated || stderr.truncated,
+        timedOut,
+        cancelled: Boolean(options.signal?.aborted)
+      });
+    });
+  });
+}
+
+/**
+ * Split a command line into arguments for running without a shell.
+ * Handles single and double quotes and backslash escapes; nothing else is interpreted.
+ */
+export function splitCommand(command: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  let inArg = false;
+  
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inArg = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i];
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) args.push(current);
+      current = '';
+      inArg = false;
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+  
+  if (inArg) args.push(current);
+  return args;
+}
+
+/**
+ * Quote an argument so the shell passes it on as it is
+ */
+function quoteArgument(arg: string): string {
+  if (process.platform === 'win32') {
+    return `"${arg.replace(/"/g, '""')}"`;
+  }
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+function killProcessTree(child: ChildProcess): void {
+  try {
+    process.kill(-child.pid!, 'SIGKILL');
+  } catch {
+    child.kill('SIGKILL');
+  }
+}
+
+/**
+ * Keeps the last `limit` bytes of a stream; the end of the output is where failures get reported
+ */
+class OutputBuffer {
+  private chunks: Buffer[] = [];
+  private size = 0;
+  public truncated = false;
+  
+  constructor(private readonly limit: number) {}
+  
+  push(chunk: Buffer): void {
+    this.chunks.push(chunk);
+    this.size += chunk.length;
+    
+    while (this.size > this.limit && this.chunks.length > 0) {
+      const excess = this.size - this.limit;
+      const first = this.chunks[0];
+      this.truncated = true;
+      
+      if (first.length <= excess) {
+        this.chunks.shift();
+        this.size -= first.length;
+      } else {
+        this.chunks[0] = first.subarray(excess);
+        this.size -= excess;
+      }
+    }
+  }
+  
+  toString(): string {
+    return Buffer.concat(this.chunks).toString('utf-8');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,313 @@
+/**
+ * Expectations
+ * Structured checks on command output, plus the translation of the legacy expect strings
+ */
+
+import { Expectation, JsonAssertion, NumericRange, TextMatcher } from './types';
+import { isDeepStrictEqual } from 'util';
+
+export interface ExpectationSubject {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+}
+
+export interface ExpectationOutcome {
+  passed: boolean;
+  failures: string[];  // One explanation per sub-expectation that did not hold
+  message: string;
+}
+
+const LEGACY_SUCCESS = ['', 'exit 0', 'success', 'pass', 'passes'];
+const LEGACY_FAILURE = ['fails', 'error'];
+const TRUTHY_OUTPUT = '^(true|1|yes)$';
+
+export function isExpectation(value: unknown): value is Expectation {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Translate an expect value into a structured Expectation. Objects pass through;
+ * strings keep their legacy meaning, except that success words check the exit code
+ * and bare numbers compare numerically instead of as substrings.
+ */
+export function parseExpectation(expected: string | number | boolean | Expectation): Expectation {
+  if (isExpectation(expected)) {
+    return expected;
+  }
+  if (typeof expected === 'boolean') {
+    return expected ? { exitCode: 0 } : { exitCode: { ne: 0 } };
+  }
+  if (typeof expected === 'number') {
+    return { stdout: { number: { eq: expected } } };
+  }
+  
+  if (LEGACY_SUCCESS.includes(expected)) {
+    return { exitCode: 0 };
+  }
+  if (LEGACY_FAILURE.includes(expected)) {
+    return { exitCode: { ne: 0 } };
+  }
+  
+  const exit = expected.match(/^exit (\d+)$/);
+  if (exit) {
+    return { exitCode: Number(exit[1]) };
+  }
+  
+  // Regex pattern
+  if (expected.length > 1 && expected.startsWith('/') && expected.endsWith('/')) {
+    return { stdout: { matches: expected.slice(1, -1) } };
+  }
+  
+  // Numeric comparisons
+  const comparison = expected.match(/^([<>=])(-?\d+(?:\.\d+)?)$/);
+  if (comparison) {
+    const value = Number(comparison[2]);
+    const key = ({ '<': 'lt', '>': 'gt', '=': 'eq' } as const)[comparison[1] as '<' | '>' | '='];
+    return { stdout: { number: { [key]: value } } };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(expected)) {
+    return { stdout: { number: { eq: Number(expected) } } };
+  }
+  
+  // Boolean expectations
+  if (expected === 'true') {
+    return { stdout: { matches: TRUTHY_OUTPUT } };
+  }
+  if (expected === 'false') {
+    return { not: { stdout: { matches: TRUTHY_OUTPUT } } };
+  }
+  
+  if (expected.startsWith('contains:')) {
+    return { stdout: { contains: expected.slice(9) } };
+  }
+  
+  return { stdout: { contains: expected } };
+}
+
+/**
+ * Check an expectation against a command's output. Unless the expectation says
+ * something about the exit code, the command must also have exited with 0.
+ */
+export function evaluateExpectation(expectation: Expectation, subject: ExpectationSubject): ExpectationOutcome {
+  const failures = mentionsExitCode(expectation) ? [] : checkExitCode(subject, 0, 'exitCode');
+  failures.push(...collectFailures(expectation, subject, ''));
+  
+  return {
+    passed: failures.length === 0,
+    failures,
+    message: failures.length === 0 ? 'Expectation met' : failures.join('; ')
+  };
+}
+
+function mentionsExitCode(expectation: Expectation): boolean {
+  return expectation.exitCode !== undefined ||
+    Boolean(expectation.all?.some(mentionsExitCode)) ||
+    Boolean(expectation.any?.some(mentionsExitCode)) ||
+    Boolean(expectation.not && mentionsExitCode(expectation.not));
+}
+
+function collectFailures(expectation: Expectation, subject: ExpectationSubject, label: string): string[] {
+  const at = (key: string) => label ? `${label}.${key}` : key;
+  const failures: string[] = [];
+  
+  if (expectation.exitCode !== undefined) {
+    failures.push(...checkExitCode(subject, expectation.exitCode, at('exitCode')));
+  }
+  if (expectation.stdout) {
+    failures.push(...checkText(subject.stdout, expectation.stdout, at('stdout')));
+  }
+  if (expectation.stderr) {
+    failures.push(...checkText(subject.stderr, expectation.stderr, at('stderr')));
+  }
+  
+  expectation.all?.forEach((inner, index) => {
+    failures.push(...collectFailures(inner, subject, at(`all[${index}]`)));
+  });
+  
+  if (expectation.any) {
+    const alternatives = expectation.any.map((inner, index) => collectFailures(inner, subject, at(`any[${index}]`)));
+    if (!alternatives.some(alternative => alternative.length === 0)) {
+      const reasons = alternatives.map(alternative => alternative.join(', ')).join(' | ');
+      failures.push(`${at('any')}: none of ${alternatives.length} alternatives held (${reasons})`);
+    }
+  }
+  
+  if (expectation.not && collectFailures(expectation.not, subject, at('not')).length === 0) {
+    failures.push(`${at('not')}: ${JSON.stringify(expectation.not)} held but should not have`);
+  }
+  
+  return failures;
+}
+
+function checkExitCode(subject: ExpectationSubject, expected: number | NumericRange, label: string): string[] {
+  if (subject.exitCode === null) {
+    return [`${label}: process was killed before exiting`];
+  }
+  
+  const failure = checkRange(subject.exitCode, typeof expected === 'number' ? { eq: expected } : expected);
+  return failure ? [`${label}: ${failure}`] : [];
+}
+
+/**
+ * Check text against a matcher; returns one explanation per check that failed
+ */
+export function checkText(text: string, matcher: TextMatcher, label: string): string[] {
+  const failures: string[] = [];
+  const output = text.trim();
+  
+  if (matcher.equals !== undefined && output !== matcher.equals.trim()) {
+    failures.push(`${label}.equals: expected ${quote(matcher.equals)}, got ${quote(output)}`);
+  }
+  
+  for (const term of toArray(matcher.contains)) {
+    if (!text.includes(term)) {
+      failures.push(`${label}.contains: ${quote(term)} not found`);
+    }
+  }
+  
+  for (const term of toArray(matcher.notContains)) {
+    if (text.includes(term)) {
+      failures.push(`${label}.notContains: ${quote(term)} was found`);
+    }
+  }
+  
+  if (matcher.matches !== undefined) {
+    try {
+      if (!new RegExp(matcher.matches, matcher.flags).test(output)) {
+        failures.push(`${label}.matches: /${matcher.matches}/${matcher.flags || ''} did not match ${quote(output)}`);
+      }
+    } catch (error: any) {
+      failures.push(`${label}.matches: invalid pattern (${error.message})`);
+    }
+  }
+  
+  if (matcher.empty !== undefined && (output === '') !== matcher.empty) {
+    failures.push(`${label}.empty: expected ${matcher.empty ? 'no output' : 'some output'}, got ${quote(output)}`);
+  }
+  
+  if (matcher.number) {
+    const value = parseFloat(output);
+    const failure = isNaN(value) ? `output ${quote(output)} is not a number` : checkRange(value, matcher.number);
+    if (failure) failures.push(`${label}.number: ${failure}`);
+  }
+  
+  if (matcher.lines) {
+    const count = output === '' ? 0 : output.split('\n').filter(line => line.trim() !== '').length;
+    const failure = checkRange(count, matcher.lines);
+    if (failure) failures.push(`${label}.lines: ${failure}`);
+  }
+  
+  if (matcher.json) {
+    let data: any;
+    try {
+      data = JSON.parse(output);
+    } catch {
+      return [...failures, `${label}.json: output is not valid JSON`];
+    }
+    
+    for (const assertion of toArray(matcher.json)) {
+      failures.push(...checkJson(data, assertion, `${label}.json ${assertion.path}`));
+    }
+  }
+  
+  return failures;
+}
+
+function checkJson(data: any, assertion: JsonAssertion, label: string): string[] {
+  let query: { found: boolean; value?: any };
+  try {
+    query = queryJsonPath(data, assertion.path);
+  } catch (error: any) {
+    return [`${label}: ${error.message}`];
+  }
+  
+  if (assertion.exists === false) {
+    return query.found ? [`${label}: expected to be absent, found ${quote(JSON.stringify(query.value))}`] : [];
+  }
+  if (!query.found) {
+    return [`${label}: not found`];
+  }
+  
+  const failures: string[] = [];
+  const { value } = query;
+  
+  if (assertion.equals !== undefined && !isDeepStrictEqual(value, assertion.equals)) {
+    failures.push(`${label}: expected ${JSON.stringify(assertion.equals)}, got ${JSON.stringify(value)}`);
+  }
+  
+  if (assertion.matches !== undefined) {
+    try {
+      if (!new RegExp(assertion.matches).test(String(value))) {
+        failures.push(`${label}: /${assertion.matches}/ did not match ${quote(String(value))}`);
+      }
+    } catch (error: any) {
+      failures.push(`${label}: invalid pattern (${error.message})`);
+    }
+  }
+  
+  if (assertion.number) {
+    const failure = typeof value === 'number' ? checkRange(value, assertion.number) : `${JSON.stringify(value)} is not a number`;
+    if (failure) failures.push(`${label}: ${failure}`);
+  }
+  
+  if (assertion.length) {
+    const failure = Array.isArray(value) || typeof value === 'string'
+      ? checkRange(value.length, assertion.length)
+      : `${JSON.stringify(value)} has no length`;
+    if (failure) failures.push(`${label} length: ${failure}`);
+  }
+  
+  return failures;
+}
+
+/**
+ * Look up a value by a simple JSON path: $.a.b[0]["c d"]
+ */
+export function queryJsonPath(data: any, path: string): { found: boolean; value?: any } {
+  const expression = path.startsWith('$') ? path.slice(1) : path.startsWith('[') ? path : `.${path}`;
+  const token = /\.([^.[\]]+)|\[(\d+)\]|\[(['"])(.*?)\3\]/y;
+  let value = data;
+  let index = 0;
+  
+  while (index < expression.length) {
+    token.lastIndex = index;
+    const match = token.exec(expression);
+    if (!match) {
+      throw new Error(`Invalid JSON path: ${path}`);
+    }
+    index = token.lastIndex;
+    
+    const key = match[1] ?? match[4] ?? Number(match[2]);
+    if (value === null || typeof value !== 'object' || !(key in value)) {
+      return { found: false };
+    }
+    value = value[key];
+  }
+  
+  return { found: true, value };
+}
+
+/**
+ * Explain why a number falls outside a range, or undefined when it is inside
+ */
+export function checkRange(actual: number, range: NumericRange): string | undefined {
+  const failed = [
+    range.eq !== undefined && actual !== range.eq && `= ${range.eq}`,
+    range.ne !== undefined && actual === range.ne && `≠ ${range.ne}`,
+    range.gt !== undefined && !(actual > range.gt) && `> ${range.gt}`,
+    range.gte !== undefined && !(actual >= range.gte) && `≥ ${range.gte}`,
+    range.lt !== undefined && !(actual < range.lt) && `< ${range.lt}`,
+    range.lte !== undefined && !(actual <= range.lte) && `≤ ${range.lte}`
+  ].filter(Boolean);
+  
+  return failed.length > 0 ? `expected ${failed.join(' and ')}, got ${actual}` : undefined;
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+function quote(text: string): string {
+  return JSON.stringify(text.length > 80 ? text.slice(0, 77) + '...' : text);
+}
\ No newline at end of file
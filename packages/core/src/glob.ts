@@ -0,0 +1,75 @@
+/**
+ * Glob Matching
+ * Path patterns for assertions about which files changed: *, **, ?, [abc] and {a,b}
+ */
+
+/**
+ * Compile a glob to a regular expression over '/'-separated relative paths.
+ * A pattern without a slash matches the file name at any depth (like .gitignore)
+ * unless `anchored`, and a trailing slash matches everything under that directory.
+ * As in .gitignore, a pattern that matches a directory matches everything beneath it,
+ * so `dist` covers `dist/index.js`.
+ */
+export function globToRegExp(pattern: string, options: { anchored?: boolean } = {}): RegExp {
+  let glob = normalizePath(pattern);
+  if (glob.endsWith('/')) {
+    glob += '**';
+  }
+  if (!glob.includes('/') && !options.anchored) {
+    glob = `**/${glob}`;
+  }
+  
+  let source = '';
+  let braces = 0;
+  
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    
+    if (char === '*' && glob[i + 1] === '*') {
+      i++;
+      if (glob[i + 1] === '/') {
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braces++;
+      source += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      source += ')';
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\{}]/g, '\\$&');
+    }
+  }
+  
+  return new RegExp(`^${source}(?:/.*)?$`);
+}
+
+/**
+ * Whether a path matches any of the patterns
+ */
+export function matchesGlob(filePath: string, patterns: string | string[]): boolean {
+  const target = normalizePath(filePath);
+  return (Array.isArray(patterns) ? patterns : [patterns]).some(pattern => globToRegExp(pattern).test(target));
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
\ No newline at end of file
@@ -8,6 +8,51 @@
 export { Intent } from './intent';
 export * from './types';
 export * from './verifiers/base';
+export * from './verifiers/http';
+export * from './verifiers/git';
+export * from './verifiers/tests';
+export * from './verifiers/coverage';
+export * from './verifiers/source';
+export * from './errors';
+export { sleep, withTimeout, backoffDelay } from './timing';
+export { runCommand, splitCommand, CommandOutput, RunCommandOptions, OutputStream } from './executor';
+export { parseExpectation, evaluateExpectation, queryJsonPath, ExpectationSubject, ExpectationOutcome } from './expectation';
+export { resolveStepGraph, StepGraph, SchedulableStep } from './scheduler';
+export { globToRegExp, matchesGlob } from './glob';
+export { commandRecord, fileRecord, sanitizeEnv, sanitizeDefinition, secretMatcher, excerpt } from './evidence';
+export {
+  canonicalJson,
+  chainLogEntry,
+  verifyLogChain,
+  generateSigningKeys,
+  keyId,
+  createReceipt,
+  verifyReceipt
+} from './attestation';
+export { createStatement, createEnvelope, parseStatement, IN_TOTO_STATEMENT_TYPE, IN_TOTO_PAYLOAD_TYPE, INTENT_PREDICATE_TYPE } from './intoto';
+export { FileIntentStore, MemoryIntentStore, recordIntent, recordRun, findById, DEFAULT_STORE_DIR } from './store';
+export {
+  loadIntent,
+  loadIntents,
+  parseIntentDefinition,
+  validateDefinition,
+  createIntent,
+  intentSchema,
+  INTENT_SCHEMA_PATH,
+  LoadedIntent
+} from './definition';
+export { IntentWatcher, loadWatchConfig, DEFAULT_WATCH_CONFIG } from './watch';
+export {
+  createReporter,
+  attachReporter,
+  BaseReporter,
+  JsonReporter,
+  JUnitReporter,
+  MarkdownReporter,
+  SarifReporter,
+  REPORTERS
+} from './reporters';
+export { snapshotWorkspace, diffSnapshots, snapshotHash, listChanges, checkChanges, checkScope } from './workspace';
 
 // Convenience exports for common patterns
 import { Intent } from './intent';
@@ -14,11 +14,65 @@ import {
   IntentOptions,
   VerificationResult,
   VerificationCheck,
-  StepStatus
+  StepStatus,
+  RollbackResult,
+  VerifyOptions,
+  ExecuteOptions,
+  ResumeOptions,
+  IntentCheckpoint,
+  IntentPlan,
+  PlannedCheck,
+  PlannedStep,
+  PlannedVerification,
+  VerificationSpec,
+  VerificationFunction,
+  ChangeScope,
+  WorkspaceChangeExpectation,
+  WorkspaceChangeSet,
+  WorkspaceOptions,
+  WorkspaceSnapshot
 } from './types';
 import { CommandVerifier, FileVerifier, FunctionVerifier, StateVerifier } from './verifiers/base';
+import { HttpVerifier, redactUrl } from './verifiers/http';
+import { GitVerifier } from './verifiers/git';
+import { TestReportVerifier } from './verifiers/tests';
+import { CoverageVerifier } from './verifiers/coverage';
+import { SourceVerifier } from './verifiers/source';
+import { resolveStepGraph, StepGraph } from './scheduler';
+import { checkChanges, checkScope, diffSnapshots, snapshotWorkspace } from './workspace';
+import { canonicalJson, chainLogEntry, logHead, sha256 } from './attestation';
+import { sanitizeEnv } from './evidence';
+import { CancelledError, IntentDefinitionError, TimeoutError } from './errors';
+import { abortable, backoffDelay, cancellationReason, sleep, withTimeout } from './timing';
 import { EventEmitter } from 'events';
 import * as crypto from 'crypto';
+import * as path from 'path';
+
+function isVerificationSpec(check: unknown): check is VerificationSpec {
+  return typeof check === 'object' && check !== null && 'type' in check;
+}
+
+interface StepFailure {
+  failedStep: string;
+  reason: string;
+  halt?: boolean;  // Invariant violations and cancellation stop the intent even when stopOnFailure is off
+  timedOut?: boolean;
+  cancelled?: boolean;
+}
+
+interface RunContext {
+  runId: string;
+  startTime: number;
+  verificationLog: VerificationResult[];
+  completed: Step[];  // In completion order, so rollbacks can unwind in reverse
+  deadline?: number;  // Epoch ms at which the whole intent times out
+  signal: AbortSignal;
+  snapshot?: WorkspaceSnapshot;  // Taken before preconditions
+  changes?: WorkspaceChangeSet;
+  resumedFrom?: { runId: string; logHead: string; steps: string[] };
+  onCheckpoint?: (checkpoint: IntentCheckpoint) => void | Promise<void>;
+  checkpointing: Promise<void>;  // Saves in flight, chained so they land in order
+}
 
 export class Intent extends EventEmitter {
   public readonly id: string;
@@ -30,39 +84,62 @@ export class Intent extends EventEmitter {
   private stepOrder: string[] = [];
   private contract: IntentContract = {};
   private options: IntentOptions;
+  private subIntents: Map<string, Intent> = new Map();  // Step id -> child intent
+  private lastRun?: RunContext;
+  private abortController?: AbortController;
   private verifiers = {
     command: new CommandVerifier(),
     file: new FileVerifier(),
     function: new FunctionVerifier(),
-    state: new StateVerifier()
+    state: new StateVerifier(),
+    http: new HttpVerifier(),
+    git: new GitVerifier(),
+    tests: new TestReportVerifier(),
+    coverage: new CoverageVerifier(),
+    source: new SourceVerifier()
   };
   
   constructor(goal: string, options: IntentOptions = {}) {
     super();
-    this.id = crypto.randomBytes(8).toString('hex');
+    this.id = options.id || crypto.randomBytes(8).toString('hex');
     this.goal = goal;
     this.created = new Date();
     this.options = {
       stopOnFailure: true,
       verbose: false,
       parallel: false,
+      concurrency: 4,
+      rollbackOnFailure: true,
+      rollbackOnCancel: false,
       maxRetries: 0,
-      timeout: 30000,
+      retryDelay: 1000,
+      backoff: 'exponential',
       ...options
     };
   }
   
+  /**
+   * Take this id unless the options gave one. Loaders derive it from the intent file, so an intent
+   * keeps its id from one load to the next and its runs are recorded together.
+   */
+  identify(id: string): Intent {
+    if (!this.options.id) {
+      (this as { id: string }).id = id;
+    }
+    return this;
+  }
+  
   /**
    * Add a precondition that must be true before execution
    */
-  requires(check: string | VerificationCheck | (() => boolean), expected?: any): Intent {
+  requires(check: string | VerificationSpec | VerificationCheck | (() => boolean), expected?: any): Intent {
     if (!this.contract.preconditions) {
       this.contract.preconditions = [];
     }
     
-    if (typeof check === 'string') {
+    if (typeof check === 'string' || isVerificationSpec(check)) {
       this.contract.preconditions.push({
-        check: { type: 'command', command: check },
+        check: typeof check === 'string' ? { type: 'command', command: check } : check,
         expect: expected,
         critical: true
       });
@@ -82,7 +159,7 @@ export class Intent extends EventEmitter {
   /**
    * Add a verification step to the intent
    */
-  step(name: string, definition: Partial<StepDefinition> & { verify: any }): Intent {
+  step(name: string, definition: Omit<Partial<StepDefinition>, 'verify'> & { verify: any }): Intent {
     const stepId = crypto.randomBytes(4).toString('hex');
     
     const step: Step = {
@@ -102,17 +179,44 @@ export class Intent extends EventEmitter {
     return this;
   }
   
+  /**
+   * Add a child intent as a single step; it must fully verify for the step to pass
+   */
+  subIntent(
+    goal: string,
+    build: (intent: Intent) => Intent | void,
+    definition: { description?: string; dependencies?: string[]; options?: IntentOptions } = {}
+  ): Intent {
+    const { timeout, workspace, id, ...inherited } = this.options;
+    const child = new Intent(goal, { ...inherited, ...definition.options });
+    build(child);
+    
+    this.step(goal, {
+      description: definition.description,
+      dependencies: definition.dependencies,
+      verify: undefined
+    });
+    this.subIntents.set(this.stepOrder[this.stepOrder.length - 1], child);
+    
+    // Surface the child's progress, naming steps by their path through the tree
+    for (const event of ['step:start', 'step:complete', 'step:failed', 'step:skipped', 'step:retry', 'step:timeout', 'step:rollback', 'rollback:failed']) {
+      child.on(event, (data: any) => this.emit(event, { ...data, step: `${goal} › ${data.step}` }));
+    }
+    
+    return this;
+  }
+  
   /**
    * Add a postcondition that must be true after execution
    */
-  ensures(check: string | VerificationCheck | (() => boolean), expected?: any): Intent {
+  ensures(check: string | VerificationSpec | VerificationCheck | (() => boolean), expected?: any): Intent {
     if (!this.contract.postconditions) {
       this.contract.postconditions = [];
     }
     
-    if (typeof check === 'string') {
+    if (typeof check === 'string' || isVerificationSpec(check)) {
       this.contract.postconditions.push({
-        check: { type: 'command', command: check },
+        check: typeof check === 'string' ? { type: 'command', command: check } : check,
         expect: expected,
         critical: true
       });
@@ -132,14 +236,14 @@ export class Intent extends EventEmitter {
   /**
    * Add an invariant that must remain true throughout execution
    */
-  invariant(check: string | VerificationCheck | (() => boolean), expected?: any): Intent {
+  invariant(check: string | VerificationSpec | VerificationCheck | (() => boolean), expected?: any): Intent {
     if (!this.contract.invariants) {
       this.contract.invariants = [];
     }
     
-    if (typeof check === 'string') {
+    if (typeof check === 'string' || isVerificationSpec(check)) {
       this.contract.invariants.push({
-        check: { type: 'command', command: check },
+        check: typeof check === 'string' ? { type: 'command', command: check } : check,
         expect: expected,
         critical: true
       });
@@ -155,232 +259,985 @@ export class Intent extends EventEmitter {
     return this;
   }
   
+  /**
+   * Assert on which files the run added, modified or deleted; checked after the
+   * postconditions against a snapshot taken before the preconditions
+   */
+  changes(expectation: WorkspaceChangeExpectation): Intent {
+    if (!this.contract.changes) {
+      this.contract.changes = [];
+    }
+    
+    this.contract.changes.push(expectation);
+    return this;
+  }
+  
+  /**
+   * Declare where the run may make changes and how many; edits outside it fail the
+   * intent, or only warn with severity 'warning'
+   */
+  scope(scope: ChangeScope): Intent {
+    this.contract.scope = scope;
+    return this;
+  }
+  
+  /**
+   * Describe what execute() would run, without running anything
+   */
+  plan(): IntentPlan {
+    const steps = this.stepOrder.map(id => this.steps.get(id)!);
+    const warnings: string[] = [];
+    const errors: string[] = [];
+    let graph: StepGraph | undefined;
+    
+    try {
+      graph = resolveStepGraph(steps);
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+    
+    const order = graph ? graph.order.map(id => this.steps.get(id)!) : steps;
+    const waveOf = new Map<string, number>();
+    graph?.waves.forEach((wave, index) => wave.forEach(id => waveOf.set(id, index)));
+    
+    const plannedSteps = order.map((step): PlannedStep => {
+      const definition = (step as any)._definition as StepDefinition;
+      
+      for (const ref of graph?.unresolved.get(step.id) || []) {
+        warnings.push(`Step "${step.name}" depends on unknown step "${ref}" and will be skipped`);
+      }
+      const child = this.subIntents.get(step.id);
+      const childPlan = child?.plan();
+      if (childPlan) {
+        warnings.push(...childPlan.warnings.map(warning => `${child!.goal} › ${warning}`));
+        errors.push(...childPlan.errors.map(error => `${child!.goal} › ${error}`));
+      } else if (this.describeVerification(definition.verify).type === 'command' && definition.expect === undefined) {
+        warnings.push(`Step "${step.name}" has no expectation; only the exit code will be checked`);
+      }
+      
+      return {
+        name: step.name,
+        description: step.description,
+        wave: waveOf.get(step.id) ?? 0,
+        dependencies: (graph?.dependencies.get(step.id) || []).map(id => this.steps.get(id)!.name),
+        verify: childPlan ? { type: 'intent' } : this.describeVerification(definition.verify),
+        expect: definition.expect,
+        ...(childPlan ? { intent: childPlan } : {}),
+        action: Boolean(definition.action),
+        rollback: Boolean(definition.rollback),
+        timeout: definition.timeout,
+        retries: definition.retries ?? this.options.maxRetries ?? 0
+      };
+    });
+    
+    if (steps.length === 0) {
+      warnings.push('Intent has no steps');
+    }
+    
+    const describeChecks = (checks: VerificationCheck[] = []) => checks.map((check): PlannedCheck => ({
+      name: check.name,
+      verify: this.describeVerification(check.check),
+      expect: check.expect,
+      critical: check.critical !== false
+    }));
+    
+    return {
+      intentId: this.id,
+      goal: this.goal,
+      parallel: Boolean(this.options.parallel),
+      preconditions: describeChecks(this.contract.preconditions),
+      steps: plannedSteps,
+      waves: graph ? graph.waves.map(wave => wave.map(id => this.steps.get(id)!.name)) : [],
+      invariants: describeChecks(this.contract.invariants),
+      postconditions: describeChecks(this.contract.postconditions),
+      ...(this.contract.scope ? { scope: this.contract.scope } : {}),
+      warnings,
+      errors
+    };
+  }
+  
+  /**
+   * Stop a running execution: the current verification is aborted (killing any
+   * command it spawned) and the remaining steps are skipped
+   */
+  cancel(reason: string = 'Cancelled by user'): void {
+    if (this.status === 'running' && this.abortController && !this.abortController.signal.aborted) {
+      this.abortController.abort(new CancelledError(reason));
+    }
+  }
+  
   /**
    * Execute the intent and verify all steps
    */
-  async execute(): Promise<IntentExecutionResult> {
-    const startTime = Date.now();
-    const verificationLog: VerificationResult[] = [];
+  async execute(options: ExecuteOptions = {}): Promise<IntentExecutionResult> {
+    const result = await this.run(options);
+    this.emit('result', result);
+    return result;
+  }
+  
+  /**
+   * Continue a run from one of its checkpoints: preconditions and invariants are checked again,
+   * steps it proved are carried over unless they have changed since, and the rest run as usual
+   */
+  async resume(checkpoint: IntentCheckpoint, options: ResumeOptions = {}): Promise<IntentExecutionResult> {
+    if (checkpoint.goal !== this.goal) {
+      throw new IntentDefinitionError(`Checkpoint is for "${checkpoint.goal}", not "${this.goal}"`);
+    }
+    const result = await this.run(options, checkpoint);
+    this.emit('result', result);
+    return result;
+  }
+  
+  private async run(options: ResumeOptions, checkpoint?: IntentCheckpoint): Promise<IntentExecutionResult> {
+    if (options.dryRun ?? this.options.dryRun) {
+      const plan = this.plan();
+      this.emit('plan', plan);
+      
+      return {
+        intentId: this.id,
+        goal: this.goal,
+        success: plan.errors.length === 0,
+        status: 'pending',
+        steps: Array.from(this.steps.values()),
+        duration: 0,
+        verificationLog: [],
+        plan
+      };
+    }
+    
+    const abortController = new AbortController();
+    const forwardAbort = () => abortController.abort(options.signal!.reason);
+    if (options.signal) {
+      if (options.signal.aborted) {
+        abortController.abort(options.signal.reason);
+      }
+      options.signal.addEventListener('abort', forwardAbort, { once: true });
+    }
+    this.abortController = abortController;
+    
+    // A signal shared across runs must not keep finished ones alive
+    try {
+      return await this.runWithSignal(abortController.signal, options, checkpoint);
+    } finally {
+      options.signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+  
+  private async runWithSignal(signal: AbortSignal, options: ResumeOptions, checkpoint?: IntentCheckpoint): Promise<IntentExecutionResult> {
+    const context: RunContext = {
+      runId: crypto.randomBytes(8).toString('hex'),
+      startTime: Date.now(),
+      verificationLog: [],
+      completed: [],
+      signal,
+      onCheckpoint: options.onCheckpoint,
+      checkpointing: Promise.resolve()
+    };
+    if (this.options.timeout !== undefined) {
+      context.deadline = context.startTime + this.options.timeout;
+    }
+    const { startTime, verificationLog } = context;
+    this.lastRun = context;
     this.status = 'running';
     
-    this.emit('start', { goal: this.goal, steps: this.stepOrder.length });
+    // Start from a clean slate so re-running an intent does not see stale step results
+    for (const step of this.steps.values()) {
+      step.status = 'pending';
+      for (const key of ['result', 'startTime', 'endTime', 'duration', 'retryCount', 'subIntent'] as const) {
+        delete step[key];
+      }
+    }
+    
+    this.emit('start', { goal: this.goal, steps: this.stepOrder.length, runId: context.runId, resumedFrom: checkpoint?.runId });
+    
+    const workspace = this.workspaceOptions();
+    if (workspace) {
+      try {
+        context.snapshot = checkpoint?.snapshot
+          ? { ...checkpoint.snapshot, timestamp: new Date(checkpoint.snapshot.timestamp) }
+          : await snapshotWorkspace(workspace);
+      } catch (error: any) {
+        this.emit('failed', { phase: 'workspace', reason: error.message });
+        return this.fail(context, { failedStep: 'workspace', reason: `Workspace snapshot failed: ${error.message}` });
+      }
+    }
     
     // Check preconditions
     if (this.contract.preconditions) {
       this.emit('phase', 'preconditions');
       for (const precondition of this.contract.preconditions) {
-        const result = await this.verifyCheck(precondition);
-        verificationLog.push(result);
+        const result = await this.verifyCheck(precondition, this.verifyOptions(context, 'preconditions'));
+        this.log(context, 'preconditions', result);
         
+        if (result.cancelled || context.signal.aborted) {
+          return this.fail(context, this.cancellation(context, 'preconditions'));
+        }
         if (!result.success && precondition.critical !== false) {
-          this.status = 'failed';
           this.emit('failed', { phase: 'preconditions', reason: result.message });
-          return {
-            success: false,
-            status: 'failed',
-            steps: Array.from(this.steps.values()),
-            failedStep: 'preconditions',
-            failureReason: result.message,
-            duration: Date.now() - startTime,
-            verificationLog
-          };
+          return this.fail(context, { failedStep: 'preconditions', reason: result.message, timedOut: result.timedOut });
         }
       }
     }
     
+    // Carry over what the resumed run proved
+    if (checkpoint) {
+      const failure = await this.restore(context, checkpoint, options.reverify);
+      if (failure) {
+        return this.fail(context, failure);
+      }
+    }
+    
     // Execute steps
     this.emit('phase', 'execution');
-    for (const stepId of this.stepOrder) {
-      const step = this.steps.get(stepId)!;
-      const definition = (step as any)._definition as StepDefinition;
-      
-      // Check dependencies
-      if (step.dependencies) {
-        const unmetDeps = step.dependencies.filter(depId => {
-          const dep = this.steps.get(depId);
-          return !dep || dep.status !== 'completed';
-        });
+    const failure = await this.runSteps(context);
+    if (failure) {
+      return this.fail(context, failure);
+    }
+    
+    // Check postconditions
+    if (this.contract.postconditions) {
+      this.emit('phase', 'postconditions');
+      for (const postcondition of this.contract.postconditions) {
+        const result = await this.verifyCheck(postcondition, this.verifyOptions(context, 'postconditions'));
+        this.log(context, 'postconditions', result);
         
-        if (unmetDeps.length > 0) {
-          step.status = 'skipped';
-          this.emit('step:skipped', { step: step.name, reason: 'unmet dependencies' });
-          continue;
+        if (result.cancelled || context.signal.aborted) {
+          return this.fail(context, this.cancellation(context, 'postconditions'));
+        }
+        if (!result.success && postcondition.critical !== false) {
+          this.emit('failed', { phase: 'postconditions', reason: result.message });
+          return this.fail(context, { failedStep: 'postconditions', reason: result.message, timedOut: result.timedOut });
         }
       }
-      
-      // Check invariants before step
-      if (this.contract.invariants) {
-        for (const invariant of this.contract.invariants) {
-          const result = await this.verifyCheck(invariant);
-          if (!result.success) {
-            this.status = 'failed';
-            step.status = 'failed';
-            this.emit('failed', { phase: 'invariant', step: step.name, reason: result.message });
-            return {
-              success: false,
-              status: 'failed',
-              steps: Array.from(this.steps.values()),
-              failedStep: `invariant before ${step.name}`,
-              failureReason: result.message,
-              duration: Date.now() - startTime,
-              verificationLog
-            };
-          }
+    }
+    
+    // Compare the workspace with how it was before the preconditions
+    let changes: WorkspaceChangeSet | undefined;
+    try {
+      changes = await this.captureChanges(context);
+    } catch (error: any) {
+      this.emit('failed', { phase: 'workspace', reason: error.message });
+      return this.fail(context, { failedStep: 'workspace', reason: `Workspace snapshot failed: ${error.message}` });
+    }
+    
+    if (changes && this.contract.changes) {
+      this.emit('phase', 'changes');
+      for (const expectation of this.contract.changes) {
+        const result = checkChanges(changes, expectation);
+        this.log(context, 'changes', result);
+        
+        if (!result.success) {
+          this.emit('failed', { phase: 'changes', reason: result.message });
+          return this.fail(context, { failedStep: 'changes', reason: result.message });
         }
       }
+    }
+    
+    const warnings: string[] = [];
+    if (changes && this.contract.scope) {
+      this.emit('phase', 'scope');
+      const result = checkScope(changes, this.contract.scope);
+      this.log(context, 'scope', result);
       
-      // Execute step
-      step.status = 'running';
-      step.startTime = new Date();
-      this.emit('step:start', { step: step.name });
-      
-      try {
-        // Run action if provided
-        if (definition.action) {
-          await definition.action();
+      if (!result.success && this.contract.scope.severity === 'warning') {
+        warnings.push(result.message);
+        this.emit('warning', { phase: 'scope', reason: result.message, evidence: result.evidence });
+      } else if (!result.success) {
+        this.emit('failed', { phase: 'scope', reason: result.message });
+        return this.fail(context, { failedStep: 'scope', reason: result.message });
+      }
+    }
+    
+    // Success!
+    this.status = 'completed';
+    await this.checkpoint(context);
+    const duration = Date.now() - startTime;
+    this.emit('complete', { duration, steps: this.steps.size });
+    
+    return {
+      intentId: this.id,
+      goal: this.goal,
+      success: true,
+      status: 'completed',
+      steps: Array.from(this.steps.values()),
+      duration,
+      verificationLog,
+      ...(changes ? { changes } : {}),
+      ...(warnings.length > 0 ? { warnings } : {}),
+      runId: context.runId,
+      ...(context.resumedFrom ? { resumedFrom: context.resumedFrom } : {})
+    };
+  }
+  
+  /**
+   * Run steps in dependency order, overlapping independent steps when parallel
+   */
+  private async runSteps(context: RunContext): Promise<StepFailure | undefined> {
+    let graph: StepGraph;
+    try {
+      graph = resolveStepGraph(this.stepOrder.map(id => this.steps.get(id)!));
+    } catch (error: any) {
+      if (!(error instanceof IntentDefinitionError)) throw error;
+      this.emit('failed', { phase: 'dependencies', reason: error.message });
+      return { failedStep: 'dependencies', reason: error.message };
+    }
+    
+    const limit = this.options.parallel ? Math.max(1, this.options.concurrency || 1) : 1;
+    const pending = graph.order.filter(id => this.steps.get(id)!.status !== 'completed');  // Resumed runs skip proven steps
+    const running = new Map<string, Promise<void>>();
+    let failure: StepFailure | undefined;
+    
+    // Steps still running when the loop ends early are waited for, so a rollback never overlaps them
+    try {
+      while (pending.length > 0 || running.size > 0) {
+        // Steps that can no longer run are skipped, in order, so dependents follow
+        for (const stepId of [...pending]) {
+          const step = this.steps.get(stepId)!;
+          const missing = graph.unresolved.get(stepId);
+          const blocked = graph.dependencies.get(stepId)!.some(depId => {
+            const status = this.steps.get(depId)!.status;
+            return status === 'failed' || status === 'skipped';
+          });
+          
+          if (missing || blocked) {
+            pending.splice(pending.indexOf(stepId), 1);
+            step.status = 'skipped';
+            const reason = missing ? `unknown dependencies: ${missing.join(', ')}` : 'unmet dependencies';
+            this.emit('step:skipped', { step: step.name, reason });
+          }
         }
         
-        // Run verification
-        const result = await this.verifyStep(definition);
-        step.result = result;
-        verificationLog.push(result);
+        if (!failure?.cancelled && context.signal.aborted) {
+          failure = this.cancellation(context, 'execution');
+        }
         
-        if (result.success) {
-          step.status = 'completed';
-          step.endTime = new Date();
-          step.duration = step.endTime.getTime() - step.startTime.getTime();
-          this.emit('step:complete', { step: step.name, duration: step.duration });
-        } else {
-          step.status = 'failed';
-          step.endTime = new Date();
-          this.emit('step:failed', { step: step.name, reason: result.message });
-          
-          if (this.options.stopOnFailure) {
-            this.status = 'failed';
-            return {
-              success: false,
-              status: 'failed',
-              steps: Array.from(this.steps.values()),
-              failedStep: step.name,
-              failureReason: result.message,
-              duration: Date.now() - startTime,
-              verificationLog
-            };
+        if (failure?.cancelled) {
+          for (const stepId of pending.splice(0)) {
+            this.steps.get(stepId)!.status = 'skipped';
+            this.emit('step:skipped', { step: this.steps.get(stepId)!.name, reason: 'cancelled' });
           }
         }
-      } catch (error: any) {
-        step.status = 'failed';
-        step.result = {
-          success: false,
-          message: `Step execution error: ${error.message}`,
-          timestamp: new Date()
-        };
-        this.emit('step:error', { step: step.name, error: error.message });
         
-        if (this.options.stopOnFailure) {
-          this.status = 'failed';
-          return {
-            success: false,
-            status: 'failed',
-            steps: Array.from(this.steps.values()),
-            failedStep: step.name,
-            failureReason: error.message,
-            duration: Date.now() - startTime,
-            verificationLog
-          };
+        if (!failure && pending.length > 0 && this.remainingTime(context) === 0) {
+          failure = { failedStep: 'timeout', reason: `Intent timed out after ${this.options.timeout}ms`, timedOut: true };
+          this.emit('failed', { phase: 'timeout', reason: failure.reason });
         }
-      }
-      
-      // Check invariants after step
-      if (this.contract.invariants) {
-        for (const invariant of this.contract.invariants) {
-          const result = await this.verifyCheck(invariant);
-          if (!result.success) {
-            this.status = 'failed';
-            this.emit('failed', { phase: 'invariant', step: step.name, reason: result.message });
-            return {
-              success: false,
-              status: 'failed',
-              steps: Array.from(this.steps.values()),
-              failedStep: `invariant after ${step.name}`,
-              failureReason: result.message,
-              duration: Date.now() - startTime,
-              verificationLog
-            };
+        
+        if (!failure) {
+          for (const stepId of [...pending]) {
+            if (running.size >= limit) break;
+            
+            const ready = graph.dependencies.get(stepId)!.every(depId => this.steps.get(depId)!.status === 'completed');
+            if (!ready) continue;
+            
+            pending.splice(pending.indexOf(stepId), 1);
+            const step = this.steps.get(stepId)!;
+            const run = this.runStep(step, context).catch((error: Error) => this.stepError(step, context, error)).then(stepFailure => {
+              running.delete(stepId);
+              if (stepFailure && (stepFailure.halt || this.options.stopOnFailure)) {
+                failure = failure?.cancelled ? failure : stepFailure.cancelled ? stepFailure : failure || stepFailure;
+              }
+            });
+            running.set(stepId, run);
           }
         }
+        
+        if (running.size === 0) break;
+        await Promise.race(running.values());
       }
+    } finally {
+      await Promise.allSettled(running.values());
     }
     
-    // Check postconditions
-    if (this.contract.postconditions) {
-      this.emit('phase', 'postconditions');
-      for (const postcondition of this.contract.postconditions) {
-        const result = await this.verifyCheck(postcondition);
-        verificationLog.push(result);
-        
-        if (!result.success && postcondition.critical !== false) {
-          this.status = 'failed';
-          this.emit('failed', { phase: 'postconditions', reason: result.message });
-          return {
-            success: false,
-            status: 'failed',
-            steps: Array.from(this.steps.values()),
-            failedStep: 'postconditions',
-            failureReason: result.message,
-            duration: Date.now() - startTime,
-            verificationLog
-          };
+    return failure;
+  }
+  
+  /**
+   * Fail a step that threw rather than returning a result, so the error is reported against it
+   */
+  private stepError(step: Step, context: RunContext, error: Error): StepFailure {
+    const result: VerificationResult = {
+      success: false,
+      message: `Step execution error: ${error.message}`,
+      evidence: error.stack ? [error.stack] : undefined,
+      timestamp: new Date()
+    };
+    step.status = 'failed';
+    step.result = result;
+    step.endTime = new Date();
+    step.duration = step.startTime ? step.endTime.getTime() - step.startTime.getTime() : 0;
+    this.log(context, step.name, result);
+    
+    this.emit('step:error', { step: step.name, error: error.message });
+    this.emit('step:failed', { step: step.name, reason: result.message });
+    return { failedStep: step.name, reason: error.message };
+  }
+  
+  /**
+   * Run a single step with the invariants checked around it
+   */
+  private async runStep(step: Step, context: RunContext): Promise<StepFailure | undefined> {
+    const definition = (step as any)._definition as StepDefinition;
+    
+    // Check invariants before step
+    if (this.contract.invariants) {
+      for (const invariant of this.contract.invariants) {
+        const result = await this.verifyCheck(invariant, this.verifyOptions(context, `invariant before ${step.name}`));
+        this.log(context, `invariant before ${step.name}`, result);
+        if (result.cancelled) {
+          step.status = 'skipped';
+          return this.cancellation(context, step.name);
+        }
+        if (!result.success) {
+          step.status = 'failed';
+          this.emit('failed', { phase: 'invariant', step: step.name, reason: result.message });
+          return { failedStep: `invariant before ${step.name}`, reason: result.message, halt: true };
         }
       }
     }
     
-    // Success!
-    this.status = 'completed';
-    const duration = Date.now() - startTime;
-    this.emit('complete', { duration, steps: this.steps.size });
+    // Execute step, retrying failed attempts with backoff
+    step.status = 'running';
+    step.startTime = new Date();
+    step.retryCount = 0;
+    this.emit('step:start', { step: step.name });
+    
+    const retries = definition.retries ?? this.options.maxRetries ?? 0;
+    let attempt = await this.attemptStep(step, context);
+    
+    while (
+      !attempt.result.success &&
+      !attempt.result.cancelled &&
+      step.retryCount < retries &&
+      this.remainingTime(context) !== 0
+    ) {
+      step.retryCount++;
+      const delay = backoffDelay(
+        definition.backoff ?? this.options.backoff,
+        definition.retryDelay ?? this.options.retryDelay,
+        step.retryCount
+      );
+      this.emit('step:retry', { step: step.name, attempt: step.retryCount, delay, reason: attempt.result.message });
+      await sleep(delay, context.signal).catch(() => undefined);
+      attempt = await this.attemptStep(step, context);
+    }
+    
+    const { result, error } = attempt;
+    step.result = result;
+    step.endTime = new Date();
+    step.duration = step.endTime.getTime() - step.startTime.getTime();
+    
+    this.log(context, step.name, result);
+    
+    if (error) {
+      step.status = 'failed';
+      this.emit('step:error', { step: step.name, error: error.message });
+      this.emit('step:failed', { step: step.name, reason: result.message });
+      return { failedStep: step.name, reason: error.message };
+    }
     
+    if (result.cancelled) {
+      step.status = 'skipped';
+      this.emit('step:skipped', { step: step.name, reason: 'cancelled' });
+      return this.cancellation(context, step.name);
+    }
+    
+    if (!result.success) {
+      step.status = 'failed';
+      if (result.timedOut) {
+        this.emit('step:timeout', { step: step.name, reason: result.message });
+      }
+      this.emit('step:failed', { step: step.name, reason: result.message });
+      return { failedStep: step.name, reason: result.message, timedOut: result.timedOut };
+    }
+    
+    step.status = 'completed';
+    context.completed.push(step);
+    this.emit('step:complete', { step: step.name, duration: step.duration });
+    
+    // Check invariants after step
+    if (this.contract.invariants) {
+      for (const invariant of this.contract.invariants) {
+        const result = await this.verifyCheck(invariant, this.verifyOptions(context, `invariant after ${step.name}`));
+        this.log(context, `invariant after ${step.name}`, result);
+        if (result.cancelled) {
+          return this.cancellation(context, step.name);
+        }
+        if (!result.success) {
+          this.emit('failed', { phase: 'invariant', step: step.name, reason: result.message });
+          return { failedStep: `invariant after ${step.name}`, reason: result.message, halt: true };
+        }
+      }
+    }
+    
+    await this.checkpoint(context);
+    return undefined;
+  }
+  
+  /**
+   * Check the invariants still hold, then mark the steps a checkpoint proved as completed;
+   * steps that changed since, or fail re-verification, are left to run again
+   */
+  private async restore(context: RunContext, checkpoint: IntentCheckpoint, reverify?: boolean): Promise<StepFailure | undefined> {
+    this.emit('phase', 'resume');
+    for (const invariant of this.contract.invariants || []) {
+      const result = await this.verifyCheck(invariant, this.verifyOptions(context, 'invariant on resume'));
+      this.log(context, 'invariant on resume', result);
+      if (result.cancelled || context.signal.aborted) {
+        return this.cancellation(context, 'resume');
+      }
+      if (!result.success) {
+        this.emit('failed', { phase: 'invariant', reason: result.message });
+        return { failedStep: 'invariant on resume', reason: result.message, halt: true };
+      }
+    }
+    
+    const byName = new Map(Array.from(this.steps.values()).map(step => [step.name, step]));
+    const carried: string[] = [];
+    for (const proven of checkpoint.steps) {
+      const step = byName.get(proven.name);
+      if (!step || step.status === 'completed' || this.stepHash(step) !== proven.definitionHash) {
+        continue;
+      }
+      
+      let result = proven.result;
+      if (reverify && !this.subIntents.has(step.id)) {
+        const definition = (step as any)._definition as StepDefinition;
+        result = await this.verifyStep(definition, this.verifyOptions(context, step.name)).catch((error: Error): VerificationResult => ({
+          success: false,
+          message: `Step execution error: ${error.message}`,
+          timestamp: new Date()
+        }));
+        this.log(context, `${step.name} (re-verified)`, result);
+        if (result.cancelled || context.signal.aborted) {
+          return this.cancellation(context, 'resume');
+        }
+        if (!result.success) {
+          continue;
+        }
+      }
+      
+      step.status = 'completed';
+      step.result = result;
+      step.duration = proven.duration;
+      context.completed.push(step);
+      carried.push(step.name);
+      this.emit('step:resumed', { step: step.name, from: checkpoint.runId, reverified: Boolean(reverify) });
+    }
+    
+    context.resumedFrom = { runId: checkpoint.runId, logHead: checkpoint.logHead, steps: carried };
+    return undefined;
+  }
+  
+  /**
+   * Hand the progress so far to onCheckpoint and 'checkpoint' listeners. Saves are chained so a
+   * slow one is never overtaken by a newer checkpoint; one that fails only raises a warning.
+   */
+  private checkpoint(context: RunContext, failure?: StepFailure, rolledBack: string[] = []): Promise<void> {
+    const save = context.onCheckpoint;
+    if (!save && this.listenerCount('checkpoint') === 0) {
+      return context.checkpointing;
+    }
+    
+    const checkpoint: IntentCheckpoint = {
+      runId: context.runId,
+      intentId: this.id,
+      goal: this.goal,
+      status: this.status,
+      ...(failure ? { failedStep: failure.failedStep, failureReason: failure.reason } : {}),
+      steps: context.completed
+        .filter(step => !rolledBack.includes(step.name))
+        .map(step => ({ name: step.name, definitionHash: this.stepHash(step), result: step.result, duration: step.duration })),
+      logHead: logHead(context.verificationLog),
+      ...(context.snapshot ? { snapshot: context.snapshot } : {}),
+      ...(context.resumedFrom ? { resumedFrom: context.resumedFrom.runId } : {}),
+      startedAt: new Date(context.startTime).toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+    this.emit('checkpoint', checkpoint);
+    
+    context.checkpointing = context.checkpointing.then(async () => {
+      try {
+        await save?.(checkpoint);
+      } catch (error: any) {
+        this.emit('warning', { phase: 'checkpoint', reason: `Checkpoint not saved: ${error.message}` });
+      }
+    });
+    return context.checkpointing;
+  }
+  
+  /**
+   * Fingerprint of what a step verifies and expects, as the plan describes it, so a checkpoint
+   * only vouches for steps that have not changed
+   */
+  private stepHash(step: Step): string {
+    const definition = (step as any)._definition as StepDefinition;
+    const child = this.subIntents.get(step.id);
+    const verify = child
+      ? JSON.parse(JSON.stringify(child.plan(), (key, value) => key === 'intentId' ? undefined : value))
+      : this.describeVerification(definition.verify);
+    return sha256(canonicalJson({ verify, expect: definition.expect }));
+  }
+  
+  /**
+   * Run a step's action and verification once, within its time budget
+   */
+  private async attemptStep(step: Step, context: RunContext): Promise<{ result: VerificationResult; error?: Error }> {
+    const definition = (step as any)._definition as StepDefinition;
+    const timeout = this.timeoutFor(context, definition.timeout);
+    const started = Date.now();
+    
+    try {
+      const child = this.subIntents.get(step.id);
+      if (child) {
+        return { result: await this.runSubIntent(step, child, context, timeout) };
+      }
+      
+      // Run action if provided
+      if (definition.action) {
+        await withTimeout(abortable(definition.action(), context.signal), timeout, 'Step action');
+      }
+      
+      // Run verification with whatever time the action left over
+      const remaining = timeout === undefined ? undefined : Math.max(0, timeout - (Date.now() - started));
+      return { result: await this.verifyStep(definition, { ...this.verifyOptions(context, step.name), timeout: remaining }) };
+    } catch (error: any) {
+      if (error instanceof TimeoutError) {
+        return { result: { success: false, message: error.message, timedOut: true, timestamp: new Date() } };
+      }
+      if (error instanceof CancelledError) {
+        return { result: { success: false, message: error.message, cancelled: true, timestamp: new Date() } };
+      }
+      
+      return {
+        result: {
+          success: false,
+          message: `Step execution error: ${error.message}`,
+          evidence: error.stack ? [error.stack] : undefined,
+          records: [{ kind: 'function', name: step.name, error: error.message, duration: Date.now() - started, timestamp: new Date() }],
+          timestamp: new Date()
+        },
+        error
+      };
+    }
+  }
+  
+  /**
+   * Execute a child intent and summarise it as this step's verification
+   */
+  private async runSubIntent(step: Step, child: Intent, context: RunContext, timeout?: number): Promise<VerificationResult> {
+    // The child gets a signal of its own, so a timeout stops it rather than only giving up on it
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(context.signal.reason);
+    if (context.signal.aborted) {
+      forwardAbort();
+    } else {
+      context.signal.addEventListener('abort', forwardAbort, { once: true });
+    }
+    
+    const execution = child.execute({ signal: controller.signal });
+    let result: IntentExecutionResult;
+    let expired: TimeoutError | undefined;
+    try {
+      result = await withTimeout(execution, timeout, `Sub-intent "${child.goal}"`);
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) throw error;
+      
+      // Wait for the cancelled child, rollbacks included, so nothing of it runs after the step
+      expired = error;
+      controller.abort(new CancelledError(error.message));
+      result = await execution;
+    } finally {
+      context.signal.removeEventListener('abort', forwardAbort);
+    }
+    step.subIntent = result;
+    
+    const completed = result.steps.filter(s => s.status === 'completed').length;
     return {
-      success: true,
-      status: 'completed',
-      steps: Array.from(this.steps.values()),
-      duration,
-      verificationLog
+      success: !expired && result.success,
+      message: expired
+        ? expired.message
+        : result.success
+          ? `Sub-intent verified: ${completed}/${result.steps.length} steps`
+          : `Sub-intent "${child.goal}" failed at ${result.failedStep}: ${result.failureReason}`,
+      actual: result.status,
+      records: result.verificationLog.flatMap(entry => entry.records || []),
+      timedOut: expired ? true : result.timedOut,
+      cancelled: !expired && result.status === 'cancelled',
+      timestamp: new Date()
     };
   }
   
   /**
-   * Verify a single check
+   * Describe where a run was cancelled and why
+   */
+  private cancellation(context: RunContext, where: string): StepFailure {
+    return {
+      failedStep: where,
+      reason: cancellationReason(context.signal).message,
+      cancelled: true,
+      halt: true
+    };
+  }
+  
+  /**
+   * Append a result to the run's verification log, noting what it was checked for and
+   * chaining it to the entry before
+   */
+  private log(context: RunContext, source: string, result: VerificationResult): void {
+    result.source = source;
+    chainLogEntry(result, context.verificationLog[context.verificationLog.length - 1]);
+    context.verificationLog.push(result);
+  }
+  
+  /**
+   * Deadline, cancellation and output streaming for a verification; `source` names it in 'output' events
+   */
+  private verifyOptions(context: RunContext, source: string): VerifyOptions {
+    return {
+      timeout: this.remainingTime(context),
+      signal: context.signal,
+      onOutput: (stream, chunk) => this.emit('output', { source, stream, chunk })
+    };
+  }
+  
+  /**
+   * Time left before the whole-intent deadline, or undefined when there is none
+   */
+  private remainingTime(context: RunContext): number | undefined {
+    return context.deadline === undefined ? undefined : Math.max(0, context.deadline - Date.now());
+  }
+  
+  /**
+   * The tighter of a local timeout and the whole-intent deadline
+   */
+  private timeoutFor(context: RunContext, timeout?: number): number | undefined {
+    const remaining = this.remainingTime(context);
+    if (remaining === undefined) return timeout;
+    return timeout === undefined ? remaining : Math.min(timeout, remaining);
+  }
+  
+  /**
+   * Build a failed or cancelled result, compensating completed steps first when enabled
    */
-  private async verifyCheck(check: VerificationCheck): Promise<VerificationResult> {
-    if (typeof check.check === 'function') {
-      return this.verifiers.function.verify(check.check, check.expect);
-    } else if (check.check.type === 'command') {
-      return this.verifiers.command.verify(check.check, check.expect);
+  private async fail(context: RunContext, failure: StepFailure): Promise<IntentExecutionResult> {
+    this.status = failure.cancelled ? 'cancelled' : 'failed';
+    if (failure.cancelled) {
+      this.emit('cancelled', { step: failure.failedStep, reason: failure.reason });
     }
     
+    // What the run changed before it stopped, so the diff is taken ahead of any rollback
+    const changes = await this.captureChanges(context).catch(() => undefined);
+    
+    const shouldRollBack = failure.cancelled ? this.options.rollbackOnCancel : this.options.rollbackOnFailure;
+    const rollbacks = shouldRollBack ? await this.rollback(context.completed) : [];
+    await this.checkpoint(context, failure, rollbacks.filter(rollback => rollback.success).map(rollback => rollback.step));
+    
     return {
+      intentId: this.id,
+      goal: this.goal,
       success: false,
-      message: 'Unknown verification type',
-      timestamp: new Date()
+      status: this.status,
+      steps: Array.from(this.steps.values()),
+      failedStep: failure.failedStep,
+      failureReason: failure.reason,
+      duration: Date.now() - context.startTime,
+      verificationLog: context.verificationLog,
+      ...(rollbacks.length > 0 ? { rollbacks } : {}),
+      ...(failure.timedOut ? { timedOut: true } : {}),
+      ...(changes ? { changes } : {}),
+      runId: context.runId,
+      ...(context.resumedFrom ? { resumedFrom: context.resumedFrom } : {})
     };
   }
   
+  /**
+   * Snapshot settings, when the workspace is configured or change expectations or a scope need it
+   */
+  private workspaceOptions(): WorkspaceOptions | undefined {
+    const { changes, scope } = this.contract;
+    if (!this.options.workspace && !changes?.length && !scope) {
+      return undefined;
+    }
+    
+    const options = { ...this.options.workspace };
+    if (scope?.maxLines !== undefined) {
+      options.lines = true;
+    }
+    return options;
+  }
+  
+  /**
+   * Diff the workspace against the snapshot taken at the start of the run, once per run
+   */
+  private async captureChanges(context: RunContext): Promise<WorkspaceChangeSet | undefined> {
+    if (context.snapshot && !context.changes) {
+      context.changes = diffSnapshots(context.snapshot, await snapshotWorkspace(this.workspaceOptions()));
+    }
+    return context.changes;
+  }
+  
+  /**
+   * Undo completed steps in reverse completion order (saga-style compensation)
+   */
+  private async rollback(completed: Step[]): Promise<RollbackResult[]> {
+    const results: RollbackResult[] = [];
+    const reversible = [...completed].reverse().filter(step => this.canRollBack(step));
+    
+    if (reversible.length === 0) {
+      return results;
+    }
+    
+    this.emit('phase', 'rollback');
+    for (const step of reversible) {
+      const definition = (step as any)._definition as StepDefinition;
+      const started = Date.now();
+      
+      // A completed child intent is compensated by unwinding its own completed steps
+      const child = this.subIntents.get(step.id);
+      if (child) {
+        const childResults = await child.rollback(child.lastRun?.completed || []);
+        results.push(...childResults.map(result => ({ ...result, step: `${child.goal} › ${result.step}` })));
+        if (childResults.every(result => result.success)) {
+          step.status = 'reverted';
+        }
+        continue;
+      }
+      
+      try {
+        await definition.rollback!();
+        step.status = 'reverted';
+        results.push({ step: step.name, success: true, duration: Date.now() - started });
+        this.emit('step:rollback', { step: step.name, duration: Date.now() - started });
+      } catch (error: any) {
+        // Keep unwinding: one failed compensation should not strand the others
+        results.push({ step: step.name, success: false, error: error.message, duration: Date.now() - started });
+        this.emit('rollback:failed', { step: step.name, error: error.message });
+      }
+    }
+    
+    return results;
+  }
+  
+  private canRollBack(step: Step): boolean {
+    const child = this.subIntents.get(step.id);
+    if (child) {
+      return (child.lastRun?.completed || []).some(childStep => child.canRollBack(childStep));
+    }
+    return Boolean(((step as any)._definition as StepDefinition).rollback);
+  }
+  
+  /**
+   * Resolve a verification to exactly what would run
+   */
+  private describeVerification(verify: StepDefinition['verify'] | string): PlannedVerification {
+    if (typeof verify === 'function') {
+      return { type: 'function' };
+    }
+    
+    const spec = typeof verify === 'string' ? { type: 'command' as const, command: verify } : verify;
+    switch (spec.type) {
+      case 'file':
+        return { type: 'file', path: path.resolve(spec.cwd || process.cwd(), spec.path) };
+      case 'state':
+        return { type: 'state', key: spec.key, command: spec.command, path: spec.file, cwd: path.resolve(spec.cwd || process.cwd()) };
+      case 'http':
+        return { type: 'http', method: (spec.method || 'GET').toUpperCase(), url: redactUrl(spec.url) };
+      case 'git':
+        return { type: 'git', range: `${spec.base || 'HEAD'}..${spec.head || 'working tree'}`, cwd: path.resolve(spec.cwd || process.cwd()) };
+      case 'tests':
+        return { type: 'tests', path: path.resolve(spec.cwd || process.cwd(), spec.report), command: spec.command, cwd: path.resolve(spec.cwd || process.cwd()) };
+      case 'coverage':
+        return { type: 'coverage', path: path.resolve(spec.cwd || process.cwd(), spec.report), cwd: path.resolve(spec.cwd || process.cwd()) };
+      case 'source':
+        return { type: 'source', path: spec.tsconfig, cwd: path.resolve(spec.cwd || process.cwd()) };
+      default:
+        return {
+          type: 'command',
+          command: spec.command,
+          cwd: path.resolve(spec.cwd || process.cwd()),
+          ...(spec.env ? { env: sanitizeEnv(spec.env) } : {})
+        };
+    }
+  }
+  
+  /**
+   * Verify a single check
+   */
+  private async verifyCheck(check: VerificationCheck, options: VerifyOptions = {}): Promise<VerificationResult> {
+    return this.runVerification(check.check, check.expect, options);
+  }
+  
   /**
    * Verify a step definition
    */
-  private async verifyStep(definition: StepDefinition): Promise<VerificationResult> {
-    if (typeof definition.verify === 'function') {
-      return this.verifiers.function.verify(definition.verify, definition.expect);
-    } else if (typeof definition.verify === 'string') {
-      return this.verifiers.command.verify(definition.verify, definition.expect as string);
-    } else if (definition.verify.type === 'command') {
-      return this.verifiers.command.verify(definition.verify, definition.expect as string);
+  private async verifyStep(definition: StepDefinition, options: VerifyOptions = {}): Promise<VerificationResult> {
+    if (!definition.verify) {
+      return {
+        success: false,
+        message: 'No verification defined for step',
+        timestamp: new Date()
+      };
+    }
+    
+    return this.runVerification(definition.verify, definition.expect, options);
+  }
+  
+  /**
+   * Dispatch a verification to the verifier for its kind; a verifier that throws fails the check
+   * rather than the run
+   */
+  private async runVerification(
+    verify: VerificationSpec | VerificationFunction | string,
+    expected: any,
+    options: VerifyOptions
+  ): Promise<VerificationResult> {
+    try {
+      return await this.dispatchVerification(verify, expected, options);
+    } catch (error: any) {
+      return {
+        success: false,
+        message: `Verification error: ${error.message}`,
+        evidence: error.stack ? [error.stack] : undefined,
+        timestamp: new Date()
+      };
+    }
+  }
+  
+  private async dispatchVerification(
+    verify: VerificationSpec | VerificationFunction | string,
+    expected: any,
+    options: VerifyOptions
+  ): Promise<VerificationResult> {
+    if (typeof verify === 'function') {
+      return this.verifiers.function.verify(verify, expected, options);
+    }
+    if (typeof verify === 'string') {
+      return this.verifiers.command.verify(verify, expected, options);
+    }
+    
+    switch (verify.type) {
+      case 'command':
+        return this.verifiers.command.verify(verify, expected, options);
+      case 'file':
+        return this.verifiers.file.verify(verify, undefined, options);
+      case 'state':
+        return this.verifiers.state.verify(verify, expected, options);
+      case 'http':
+        return this.verifiers.http.verify(verify, expected, options);
+      case 'git':
+        return this.verifiers.git.verify(verify, expected, options);
+      case 'tests':
+        return this.verifiers.tests.verify(verify, expected, options);
+      case 'coverage':
+        return this.verifiers.coverage.verify(verify, expected, options);
+      case 'source':
+        return this.verifiers.source.verify(verify, expected, options);
     }
     
     return {
       success: false,
-      message: 'No verification defined for step',
+      message: `Unknown verification type: ${(verify as any).type}`,
       timestamp: new Date()
     };
   }
@@ -402,17 +1259,7 @@ export class Intent extends EventEmitter {
     
     if (this.steps.size > 0) {
       lines.push(`\n   📊 Steps:`);
-      for (const stepId of this.stepOrder) {
-        const step = this.steps.get(stepId)!;
-        const emoji = this.getStepEmoji(step.status);
-        lines.push(`   ${emoji} ${step.name}`);
-        
-        if (step.result && !step.result.success) {
-          lines.push(`      └─ ❌ ${step.result.message}`);
-        } else if (step.duration) {
-          lines.push(`      └─ ⏱️  ${step.duration}ms`);
-        }
-      }
+      lines.push(...this.visualizeSteps('   '));
     }
     
     if (this.contract.postconditions?.length) {
@@ -423,9 +1270,38 @@ export class Intent extends EventEmitter {
       lines.push(`   🔒 Invariants: ${this.contract.invariants.length}`);
     }
     
+    if (this.contract.changes?.length) {
+      lines.push(`   📁 Change checks: ${this.contract.changes.length}`);
+    }
+    
+    if (this.contract.scope) {
+      lines.push(`   🧭 Scope: ${this.contract.scope.allowed?.join(', ') || 'anywhere'}`);
+    }
+    
     return lines.join('\n');
   }
   
+  private visualizeSteps(indent: string): string[] {
+    const lines: string[] = [];
+    
+    for (const stepId of this.stepOrder) {
+      const step = this.steps.get(stepId)!;
+      const emoji = this.getStepEmoji(step.status);
+      const child = this.subIntents.get(stepId);
+      lines.push(`${indent}${emoji} ${step.name}${child ? ' 🎯' : ''}`);
+      
+      if (child) {
+        lines.push(...child.visualizeSteps(`${indent}   │ `));
+      } else if (step.result && !step.result.success) {
+        lines.push(`${indent}   └─ ❌ ${step.result.message}`);
+      } else if (step.duration) {
+        lines.push(`${indent}   └─ ⏱️  ${step.duration}ms`);
+      }
+    }
+    
+    return lines;
+  }
+  
   private getStatusEmoji(): string {
     switch (this.status) {
       case 'completed': return '✅';
@@ -442,6 +1318,7 @@ export class Intent extends EventEmitter {
       case 'failed': return '❌';
       case 'running': return '⏳';
       case 'skipped': return '⏭️';
+      case 'reverted': return '↩️';
       default: return '⭕';
     }
   }
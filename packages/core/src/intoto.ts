@@ -0,0 +1,170 @@
+/**
+ * In-toto Export
+ * Intent runs as in-toto Statements, optionally signed in a DSSE envelope, so supply-chain
+ * tooling can consume them, and the parser to read them back
+ */
+
+import {
+  DsseEnvelope,
+  InTotoStatement,
+  IntentExecutionResult,
+  IntentPlan,
+  ResourceDescriptor,
+  StatementVerification,
+  WorkspaceChange
+} from './types';
+import { canonicalJson, keyId, logHead, sha256, summarizeResult, verifyLogChain } from './attestation';
+import { sanitizeDefinition } from './evidence';
+import * as crypto from 'crypto';
+
+export const IN_TOTO_STATEMENT_TYPE = 'https://in-toto.io/Statement/v1';
+export const IN_TOTO_PAYLOAD_TYPE = 'application/vnd.in-toto+json';
+export const INTENT_PREDICATE_TYPE = 'intentproof/verification@v1';
+
+/**
+ * Describe a run as an in-toto Statement. Materials and products are the files the run changed,
+ * before and after, so the intent needs a workspace snapshot for them to be filled in.
+ * `declared` is what the intent was declared from, e.g. the parsed intent file; the plan is used when omitted.
+ * Secret-looking `env` values in it are hidden.
+ */
+export function createStatement(plan: IntentPlan, result: IntentExecutionResult, declared: any = plan): InTotoStatement {
+  const definition = sanitizeDefinition(declared);
+  const changes = result.changes;
+  const materials = changes ? descriptors([...changes.modified, ...changes.deleted], 'previousHash') : [];
+  const products = changes ? descriptors([...changes.added, ...changes.modified], 'hash') : [];
+  const definitionHash = sha256(canonicalJson(definition));
+  const verificationLog = JSON.parse(JSON.stringify(result.verificationLog));
+  
+  return {
+    _type: IN_TOTO_STATEMENT_TYPE,
+    subject: products.length > 0 ? products : [{ name: `intent:${result.intentId}`, digest: { sha256: definitionHash } }],
+    predicateType: INTENT_PREDICATE_TYPE,
+    predicate: {
+      intent: { id: result.intentId, goal: result.goal, definition, definitionHash },
+      contract: {
+        preconditions: plan.preconditions,
+        invariants: plan.invariants,
+        postconditions: plan.postconditions,
+        ...(plan.scope ? { scope: plan.scope } : {})
+      },
+      steps: plan.steps,
+      result: {
+        ...summarizeResult(result),
+        ...(result.warnings?.length ? { warnings: result.warnings } : {})
+      },
+      ...(changes ? { workspace: { root: changes.root, before: changes.beforeHash, after: changes.afterHash } } : {}),
+      materials,
+      products,
+      verificationLog,
+      logHead: logHead(verificationLog),
+      createdAt: new Date().toISOString()
+    }
+  };
+}
+
+/**
+ * Sign a statement into a DSSE envelope with an Ed25519 key
+ */
+export function createEnvelope(statement: InTotoStatement, privateKey: string | crypto.KeyObject): DsseEnvelope {
+  const key = typeof privateKey === 'string' ? crypto.createPrivateKey(privateKey) : privateKey;
+  const payload = Buffer.from(JSON.stringify(statement));
+  
+  return {
+    payloadType: IN_TOTO_PAYLOAD_TYPE,
+    payload: payload.toString('base64'),
+    signatures: [{
+      keyid: keyId(crypto.createPublicKey(key)),
+      sig: crypto.sign(null, preAuthEncoding(IN_TOTO_PAYLOAD_TYPE, payload), key).toString('base64')
+    }]
+  };
+}
+
+/**
+ * Read a statement back, bare or in a DSSE envelope, and check it: the envelope signature
+ * against `publicKey`, the log chain and the hashes it quotes. Throws when the input is not an
+ * IntentProof statement at all.
+ */
+export function parseStatement(input: string | object, publicKey?: string): StatementVerification {
+  const document: any = typeof input === 'string' ? JSON.parse(input) : input;
+  const errors: string[] = [];
+  let statement: any = document;
+  let signed = false;
+  let signatureValid = false;
+  let signer: string | undefined;
+  
+  if (document && typeof document.payloadType === 'string' && typeof document.payload === 'string') {
+    if (document.payloadType !== IN_TOTO_PAYLOAD_TYPE) {
+      throw new Error(`Not an in-toto envelope: payload type is ${document.payloadType}`);
+    }
+    const payload = Buffer.from(document.payload, 'base64');
+    statement = JSON.parse(payload.toString('utf-8'));
+    signed = true;
+    
+    if (!publicKey) {
+      errors.push('No public key to check the envelope signature with');
+    } else {
+      try {
+        const key = crypto.createPublicKey(publicKey);
+        signer = keyId(key);
+        const encoding = preAuthEncoding(document.payloadType, payload);
+        const signatures: Array<{ keyid?: string; sig: string }> = Array.isArray(document.signatures) ? document.signatures : [];
+        signatureValid = signatures.some(signature =>
+          (!signature.keyid || signature.keyid === signer) &&
+          crypto.verify(null, encoding, key, Buffer.from(signature.sig, 'base64')));
+      } catch (error: any) {
+        errors.push(`Unreadable key or signature: ${error.message}`);
+      }
+      if (!signatureValid) {
+        errors.push(`No signature from key ${signer ?? 'given'} matches the envelope`);
+      }
+    }
+  }
+  
+  if (statement?._type !== IN_TOTO_STATEMENT_TYPE) {
+    throw new Error(`Not an in-toto statement: _type is ${statement?._type}`);
+  }
+  if (statement.predicateType !== INTENT_PREDICATE_TYPE) {
+    throw new Error(`Not an IntentProof statement: predicate type is ${statement.predicateType}`);
+  }
+  if (!Array.isArray(statement.subject) || statement.subject.length === 0) {
+    errors.push('Statement has no subject');
+  }
+  
+  const predicate = statement.predicate || {};
+  const chainErrors = verifyLogChain(predicate.verificationLog || []);
+  if (logHead(predicate.verificationLog || []) !== predicate.logHead) {
+    chainErrors.push('Log head does not match the last entry');
+  }
+  errors.push(...chainErrors);
+  
+  if (sha256(canonicalJson(predicate.intent?.definition)) !== predicate.intent?.definitionHash) {
+    errors.push('Intent definition does not match its hash');
+  }
+  
+  return {
+    statement,
+    signed,
+    signatureValid,
+    chainValid: chainErrors.length === 0,
+    valid: errors.length === 0,
+    ...(signer ? { keyId: signer } : {}),
+    errors
+  };
+}
+
+/**
+ * DSSE pre-authentication encoding: what the signature actually covers
+ */
+function preAuthEncoding(payloadType: string, payload: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(`DSSEv1 ${Buffer.byteLength(payloadType)} ${payloadType} ${payload.length} `),
+    payload
+  ]);
+}
+
+function descriptors(changes: WorkspaceChange[], field: 'hash' | 'previousHash'): ResourceDescriptor[] {
+  return changes
+    .filter(change => change[field])
+    .map(change => ({ name: change.path, digest: { sha256: change[field] as string } }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
\ No newline at end of file
@@ -0,0 +1,409 @@
+/**
+ * Result Reporters
+ * Turn intent runs into the documents CI and review tools read: JSON for scripts, JUnit XML for
+ * test dashboards, Markdown for pull request comments and SARIF for code scanning
+ */
+
+import { IntentExecutionResult, ReportedStep, Reporter, ReporterOptions, VerificationResult } from './types';
+import { Intent } from './intent';
+import * as path from 'path';
+
+export const REPORTERS = ['json', 'junit', 'markdown', 'sarif'];
+
+const TOOL_NAME = 'IntentProof';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+interface IntentReport {
+  id: string;
+  goal: string;
+  runId?: string;
+  startedAt: Date;
+  steps: ReportedStep[];
+  warnings: string[];
+  result?: IntentExecutionResult;
+}
+
+/**
+ * A built-in reporter by name
+ */
+export function createReporter(name: string, options: ReporterOptions = {}): Reporter {
+  switch (name) {
+    case 'json': return new JsonReporter(options);
+    case 'junit': return new JUnitReporter(options);
+    case 'markdown': return new MarkdownReporter(options);
+    case 'sarif': return new SarifReporter(options);
+    default:
+      throw new Error(`Unknown reporter "${name}" (expected one of ${REPORTERS.join(', ')})`);
+  }
+}
+
+/**
+ * Feed an intent's events to a reporter. Returns a function that detaches it again.
+ */
+export function attachReporter(intent: Intent, reporter: Reporter): () => void {
+  const listeners: Record<string, (data: any) => void> = {
+    'start': ({ runId }) => reporter.onStart({ id: intent.id, goal: intent.goal }, runId),
+    'step:complete': ({ step, duration }) => reporter.onStep(intent.id, { name: step, status: 'completed', duration }),
+    'step:failed': ({ step, reason }) => reporter.onStep(intent.id, { name: step, status: 'failed', reason }),
+    'step:error': ({ step, error }) => reporter.onStep(intent.id, { name: step, status: 'failed', reason: error }),
+    'step:skipped': ({ step, reason }) => reporter.onStep(intent.id, { name: step, status: 'skipped', reason }),
+    'step:resumed': ({ step, from }) => reporter.onStep(intent.id, { name: step, status: 'resumed', reason: `Proven in run ${from}` }),
+    'warning': ({ reason }) => reporter.onWarning(intent.id, reason),
+    'result': (result: IntentExecutionResult) => reporter.onResult(result)
+  };
+  
+  for (const [event, listener] of Object.entries(listeners)) {
+    intent.on(event, listener);
+  }
+  return () => {
+    for (const [event, listener] of Object.entries(listeners)) {
+      intent.off(event, listener);
+    }
+  };
+}
+
+/**
+ * Collects what each intent run reported; subclasses only render it
+ */
+export abstract class BaseReporter implements Reporter {
+  abstract readonly name: string;
+  abstract readonly extension: string;
+  protected readonly options: ReporterOptions;
+  protected readonly intents: IntentReport[] = [];
+  
+  constructor(options: ReporterOptions = {}) {
+    this.options = options;
+  }
+  
+  onStart(intent: { id: string; goal: string }, runId?: string): void {
+    this.intents.push({ id: intent.id, goal: intent.goal, runId, startedAt: new Date(), steps: [], warnings: [] });
+  }
+  
+  onStep(intentId: string, step: ReportedStep): void {
+    const steps = this.find(intentId)?.steps;
+    // A step that throws reports step:error and then step:failed, for the one failure
+    const failed = step.status === 'failed' && steps?.find(candidate => candidate.name === step.name && candidate.status === 'failed');
+    if (failed) {
+      failed.reason = step.reason ?? failed.reason;
+      return;
+    }
+    steps?.push(step);
+  }
+  
+  onWarning(intentId: string, message: string): void {
+    this.find(intentId)?.warnings.push(message);
+  }
+  
+  onResult(result: IntentExecutionResult): void {
+    let report = this.find(result.intentId);
+    if (!report) {
+      report = { id: result.intentId, goal: result.goal, startedAt: new Date(), steps: [], warnings: [] };
+      this.intents.push(report);
+    }
+    report.result = result;
+    report.runId = result.runId ?? report.runId;
+    
+    for (const step of report.steps) {
+      step.duration ??= result.steps.find(candidate => candidate.name === step.name)?.duration;
+    }
+    // Preconditions, invariants and postconditions fail outside any step; they are reported as one
+    if (!result.success && result.failedStep && !report.steps.some(step => step.name === result.failedStep && step.status === 'failed')) {
+      report.steps.push({
+        name: result.failedStep,
+        status: result.status === 'cancelled' ? 'skipped' : 'failed',
+        reason: result.failureReason
+      });
+    }
+    // Steps the run stopped before, so every step of the intent is accounted for
+    for (const step of result.steps) {
+      if (!report.steps.some(reported => reported.name === step.name)) {
+        report.steps.push({ name: step.name, status: 'skipped', reason: result.status === 'cancelled' ? 'cancelled' : 'not run' });
+      }
+    }
+  }
+  
+  abstract render(): string;
+  
+  protected get success(): boolean {
+    return this.intents.every(report => report.result?.success);
+  }
+  
+  // The check that decided a step, for its evidence
+  protected verification(report: IntentReport, stepName: string): VerificationResult | undefined {
+    const step = report.result?.steps.find(candidate => candidate.name === stepName);
+    if (step?.result) return step.result;
+    return [...(report.result?.verificationLog || [])].reverse().find(entry => entry.source === stepName);
+  }
+  
+  // Steps of the intent itself, as opposed to contracts checked around them
+  protected isStep(report: IntentReport, stepName: string): boolean {
+    return !report.result || report.result.steps.some(step => step.name === stepName) || stepName.includes(' › ');
+  }
+  
+  private find(intentId: string): IntentReport | undefined {
+    // The same intent may be run more than once; events belong to its latest run
+    return [...this.intents].reverse().find(report => report.id === intentId);
+  }
+}
+
+/**
+ * Every run with its steps and verification log, for scripts and dashboards
+ */
+export class JsonReporter extends BaseReporter {
+  readonly name = 'json';
+  readonly extension = '.json';
+  
+  render(): string {
+    return JSON.stringify({
+      tool: TOOL_NAME,
+      generatedAt: new Date().toISOString(),
+      success: this.success,
+      intents: this.intents.map(report => ({
+        id: report.id,
+        goal: report.goal,
+        runId: report.runId,
+        resumedFrom: report.result?.resumedFrom,
+        status: report.result?.status ?? 'incomplete',
+        success: report.result?.success ?? false,
+        startedAt: report.startedAt.toISOString(),
+        duration: report.result?.duration,
+        failedStep: report.result?.failedStep,
+        failureReason: report.result?.failureReason,
+        steps: report.steps,
+        warnings: report.warnings,
+        verificationLog: report.result?.verificationLog ?? []
+      }))
+    }, null, 2);
+  }
+}
+
+/**
+ * One test suite per intent and one test case per step, as CI test dashboards expect
+ */
+export class JUnitReporter extends BaseReporter {
+  readonly name = 'junit';
+  readonly extension = '.xml';
+  
+  render(): string {
+    const suites = this.intents.map(report => {
+      const failures = report.steps.filter(step => step.status === 'failed').length;
+      const skipped = report.steps.filter(step => step.status === 'skipped').length;
+      const cases = report.steps.map(step => {
+        const attributes = `name="${xml(step.name)}" classname="${xml(report.goal)}" time="${seconds(step.duration)}"`;
+        if (step.status === 'failed') {
+          const details = [step.reason, ...(this.verification(report, step.name)?.evidence || [])].filter(Boolean).join('\n');
+          return `    <testcase ${attributes}>\n      <failure message="${xml(firstLine(step.reason || 'Failed'))}" type="${this.isStep(report, step.name) ? 'step' : 'contract'}">${xml(details)}</failure>\n    </testcase>`;
+        }
+        if (step.status === 'skipped') {
+          return `    <testcase ${attributes}>\n      <skipped message="${xml(step.reason || 'Skipped')}"/>\n    </testcase>`;
+        }
+        if (step.status === 'resumed') {
+          return `    <testcase ${attributes}>\n      <system-out>${xml(step.reason!)}</system-out>\n    </testcase>`;
+        }
+        return `    <testcase ${attributes}/>`;
+      });
+      
+      const properties = [['intentId', report.id], ['runId', report.runId], ['status', report.result?.status ?? 'incomplete']]
+        .filter(([, value]) => value)
+        .map(([name, value]) => `      <property name="${name}" value="${xml(value!)}"/>`);
+      const warnings = report.warnings.length > 0
+        ? [`    <system-err>${xml(report.warnings.map(warning => `Warning: ${warning}`).join('\n'))}</system-err>`]
+        : [];
+      
+      return [
+        `  <testsuite name="${xml(report.goal)}" tests="${report.steps.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(report.result?.duration)}" timestamp="${report.startedAt.toISOString()}">`,
+        `    <properties>\n${properties.join('\n')}\n    </properties>`,
+        ...cases,
+        ...warnings,
+        '  </testsuite>'
+      ].join('\n');
+    });
+    
+    const all = this.intents.flatMap(report => report.steps);
+    const time = this.intents.reduce((total, report) => total + (report.result?.duration || 0), 0);
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${TOOL_NAME}" tests="${all.length}" failures="${all.filter(step => step.status === 'failed').length}" errors="0" skipped="${all.filter(step => step.status === 'skipped').length}" time="${seconds(time)}">`,
+      ...suites,
+      '</testsuites>'
+    ].join('\n') + '\n';
+  }
+}
+
+/**
+ * A summary sized for a pull request comment: a table per intent, with evidence folded away
+ */
+export class MarkdownReporter extends BaseReporter {
+  readonly name = 'markdown';
+  readonly extension = '.md';
+  
+  render(): string {
+    const verified = this.intents.filter(report => report.result?.success).length;
+    const lines = [`## ${this.success ? '✅' : '❌'} ${TOOL_NAME}: ${verified}/${this.intents.length} intent${this.intents.length === 1 ? '' : 's'} verified`];
+    
+    for (const report of this.intents) {
+      const result = report.result;
+      const completed = report.steps.filter(step => step.status === 'completed' || step.status === 'resumed').length;
+      const summary = [
+        `${completed}/${report.steps.length} steps`,
+        result && duration(result.duration),
+        report.runId && `run \`${report.runId}\``,
+        result?.resumedFrom && `resumed from \`${result.resumedFrom.runId}\``
+      ].filter(Boolean).join(' · ');
+      
+      lines.push('', `### ${statusIcon(result)} ${escapeMarkdown(report.goal)}`, '', summary);
+      if (result && !result.success && result.failureReason) {
+        lines.push('', `> **${result.status === 'cancelled' ? 'Cancelled' : 'Failed'}${result.failedStep ? ` at ${escapeMarkdown(result.failedStep)}` : ''}:** ${escapeMarkdown(firstLine(result.failureReason))}`);
+      }
+      
+      if (report.steps.length > 0) {
+        lines.push('', '| | Step | Duration | Details |', '|---|---|---|---|');
+        for (const step of report.steps) {
+          lines.push(`| ${STEP_ICONS[step.status]} | ${cell(step.name)} | ${step.duration !== undefined ? duration(step.duration) : ''} | ${cell(step.reason ? firstLine(step.reason) : '')} |`);
+        }
+      }
+      
+      for (const warning of report.warnings) {
+        lines.push('', `> ⚠️ ${escapeMarkdown(firstLine(warning))}`);
+      }
+      
+      for (const step of report.steps.filter(candidate => candidate.status === 'failed')) {
+        const evidence = this.verification(report, step.name)?.evidence || [];
+        if (evidence.length > 0) {
+          const fence = evidence.some(line => line.includes('```')) ? '~~~' : '```';
+          lines.push('', `<details><summary>Evidence for ${escapeHtml(step.name)}</summary>`, '', fence, ...evidence, fence, '', '</details>');
+        }
+      }
+    }
+    
+    return lines.join('\n') + '\n';
+  }
+}
+
+/**
+ * SARIF 2.1.0 for code scanning: failed steps and contracts are errors, warnings are warnings
+ */
+export class SarifReporter extends BaseReporter {
+  readonly name = 'sarif';
+  readonly extension = '.sarif';
+  
+  render(): string {
+    const runs = this.intents.map(report => {
+      const results: any[] = [];
+      for (const step of report.steps.filter(candidate => candidate.status === 'failed')) {
+        const verification = this.verification(report, step.name);
+        results.push({
+          ruleId: this.isStep(report, step.name) ? 'step-failed' : 'contract-failed',
+          level: 'error',
+          message: { text: `${step.name}: ${step.reason || 'Failed'}` },
+          locations: this.locations(verification),
+          properties: { intentId: report.id, goal: report.goal, step: step.name, evidence: verification?.evidence }
+        });
+      }
+      for (const warning of report.warnings) {
+        results.push({
+          ruleId: 'warning',
+          level: 'warning',
+          message: { text: warning },
+          locations: this.locations(),
+          properties: { intentId: report.id, goal: report.goal }
+        });
+      }
+      
+      return {
+        tool: { driver: { name: TOOL_NAME, rules: SARIF_RULES } },
+        automationDetails: report.runId ? { id: `${report.goal}/${report.runId}` } : undefined,
+        invocations: [{
+          executionSuccessful: report.result !== undefined && report.result.status !== 'cancelled',
+          startTimeUtc: report.startedAt.toISOString(),
+          properties: { intentId: report.id, goal: report.goal, status: report.result?.status ?? 'incomplete' }
+        }],
+        results
+      };
+    });
+    
+    return JSON.stringify({ $schema: SARIF_SCHEMA, version: '2.1.0', runs }, null, 2);
+  }
+  
+  // Files the failing check looked at, or else the intent file itself
+  private locations(verification?: VerificationResult): any[] {
+    const files = (verification?.records || []).flatMap(record => record.kind === 'file' && record.exists ? [record.path] : []);
+    const uris = files.length > 0 ? [...new Set(files)] : this.options.source ? [this.options.source] : [];
+    return uris.map(uri => ({ physicalLocation: { artifactLocation: { uri: toUri(uri) } } }));
+  }
+}
+
+const SARIF_RULES = [
+  {
+    id: 'step-failed',
+    name: 'StepFailed',
+    shortDescription: { text: 'A verification step failed' },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'contract-failed',
+    name: 'ContractFailed',
+    shortDescription: { text: 'A precondition, invariant, postcondition or change expectation failed' },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'warning',
+    name: 'Warning',
+    shortDescription: { text: 'A problem that did not fail the intent' },
+    defaultConfiguration: { level: 'warning' }
+  }
+];
+
+const STEP_ICONS: Record<ReportedStep['status'], string> = {
+  completed: '✅',
+  failed: '❌',
+  skipped: '⏭️',
+  resumed: '↩️'
+};
+
+function statusIcon(result?: IntentExecutionResult): string {
+  if (!result) return '⏳';
+  return result.success ? '✅' : result.status === 'cancelled' ? '🛑' : '❌';
+}
+
+function duration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function seconds(ms?: number): string {
+  return ((ms || 0) / 1000).toFixed(3);
+}
+
+function firstLine(text: string): string {
+  return text.split('\n')[0];
+}
+
+function xml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeMarkdown(text: string): string {
+  return escapeHtml(text).replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function cell(text: string): string {
+  return escapeMarkdown(text).replace(/\|/g, '\\|');
+}
+
+// Paths inside the working directory stay relative, as code scanning resolves them against the checkout
+function toUri(filePath: string): string {
+  const relative = path.relative(process.cwd(), path.resolve(filePath));
+  if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+    return relative.split(path.sep).join('/');
+  }
+  return `file://${path.resolve(filePath).split(path.sep).join('/')}`;
+}
\ No newline at end of file
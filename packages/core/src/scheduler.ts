@@ -0,0 +1,104 @@
+/**
+ * Step Scheduler
+ * Resolves step dependencies into a DAG so independent steps can run side by side
+ */
+
+import { DependencyCycleError, IntentDefinitionError } from './errors';
+
+export interface SchedulableStep {
+  id: string;
+  name: string;
+  dependencies?: string[];
+}
+
+export interface StepGraph {
+  order: string[];                      // Step ids in topological order, declaration order kept where possible
+  waves: string[][];                    // Steps grouped so each wave only depends on earlier waves
+  dependencies: Map<string, string[]>;  // Resolved dependency ids per step
+  unresolved: Map<string, string[]>;    // Dependency references that matched no step
+}
+
+/**
+ * Resolve dependencies (by step name, falling back to step id) and order the steps
+ */
+export function resolveStepGraph(steps: SchedulableStep[]): StepGraph {
+  const ids = new Set(steps.map(step => step.id));
+  const byName = new Map<string, string[]>();
+  
+  for (const step of steps) {
+    byName.set(step.name, [...(byName.get(step.name) || []), step.id]);
+  }
+  
+  const dependencies = new Map<string, string[]>();
+  const unresolved = new Map<string, string[]>();
+  
+  for (const step of steps) {
+    const resolved: string[] = [];
+    const missing: string[] = [];
+    
+    for (const ref of step.dependencies || []) {
+      const named = byName.get(ref);
+      if (named && named.length > 1) {
+        throw new IntentDefinitionError(
+          `Step "${step.name}" depends on "${ref}", but ${named.length} steps share that name`
+        );
+      }
+      
+      const depId = named ? named[0] : ids.has(ref) ? ref : undefined;
+      if (!depId) {
+        missing.push(ref);
+      } else if (!resolved.includes(depId)) {
+        resolved.push(depId);
+      }
+    }
+    
+    dependencies.set(step.id, resolved);
+    if (missing.length > 0) {
+      unresolved.set(step.id, missing);
+    }
+  }
+  
+  // Kahn's algorithm, always taking the earliest declared step that is ready
+  const order: string[] = [];
+  const levels = new Map<string, number>();
+  const remaining = steps.map(step => step.id);
+  
+  while (remaining.length > 0) {
+    const index = remaining.findIndex(id => dependencies.get(id)!.every(dep => levels.has(dep)));
+    if (index === -1) {
+      throw new DependencyCycleError(findCycle(remaining, dependencies, steps));
+    }
+    
+    const [id] = remaining.splice(index, 1);
+    const level = Math.max(-1, ...dependencies.get(id)!.map(dep => levels.get(dep)!)) + 1;
+    levels.set(id, level);
+    order.push(id);
+  }
+  
+  const waves: string[][] = [];
+  for (const id of order) {
+    const level = levels.get(id)!;
+    (waves[level] = waves[level] || []).push(id);
+  }
+  
+  return { order, waves, dependencies, unresolved };
+}
+
+function findCycle(
+  remaining: string[],
+  dependencies: Map<string, string[]>,
+  steps: SchedulableStep[]
+): string[] {
+  const names = new Map(steps.map(step => [step.id, step.name]));
+  const pending = new Set(remaining);
+  const path: string[] = [];
+  let current = remaining[0];
+  
+  // Every unordered step waits on another unordered step, so walking those edges must loop
+  while (!path.includes(current)) {
+    path.push(current);
+    current = dependencies.get(current)!.find(dep => pending.has(dep))!;
+  }
+  
+  return [...path.slice(path.indexOf(current)), current].map(id => names.get(id)!);
+}
\ No newline at end of file
@@ -0,0 +1,259 @@
+/**
+ * Intent Store
+ * Keeps intents and every run of them, with their evidence, so verifications outlive the
+ * process that ran them and can be looked up later
+ */
+
+import { IntentCheckpoint, IntentExecutionResult, IntentQuery, IntentStore, StoredIntent, StoredRun } from './types';
+import { Intent } from './intent';
+import { sanitizeDefinition } from './evidence';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_STORE_DIR = '.intentproof';
+
+/**
+ * JSON files under a directory (`.intentproof/` by default): `intents/<id>.json`, `runs/<id>.json`
+ * and `checkpoints/<run id>.json`
+ */
+export class FileIntentStore implements IntentStore {
+  public readonly root: string;
+  
+  constructor(root: string = DEFAULT_STORE_DIR) {
+    this.root = path.resolve(root);
+  }
+  
+  async saveIntent(intent: StoredIntent): Promise<void> {
+    await this.write('intents', intent.id, intent);
+  }
+  
+  async getIntent(id: string): Promise<StoredIntent | undefined> {
+    return this.read<StoredIntent>('intents', id);
+  }
+  
+  async findIntents(query: IntentQuery = {}): Promise<StoredIntent[]> {
+    return filterIntents(await this.readAll<StoredIntent>('intents'), query);
+  }
+  
+  async saveRun(run: StoredRun): Promise<void> {
+    await this.write('runs', run.id, run);
+  }
+  
+  async getRun(id: string): Promise<StoredRun | undefined> {
+    return this.read<StoredRun>('runs', id);
+  }
+  
+  async findRuns(query: IntentQuery = {}): Promise<StoredRun[]> {
+    return filterRuns(await this.readAll<StoredRun>('runs'), query);
+  }
+  
+  async saveCheckpoint(checkpoint: IntentCheckpoint): Promise<void> {
+    await this.write('checkpoints', checkpoint.runId, checkpoint);
+  }
+  
+  async getCheckpoint(runId: string): Promise<IntentCheckpoint | undefined> {
+    return this.read<IntentCheckpoint>('checkpoints', runId);
+  }
+  
+  private file(kind: string, id: string): string {
+    if (!/^[\w.-]+$/.test(id) || id.startsWith('.')) {
+      throw new Error(`Invalid ${kind === 'intents' ? 'intent' : 'run'} id: ${id}`);
+    }
+    return path.join(this.root, kind, `${id}.json`);
+  }
+  
+  // Write to a temporary file and rename it into place, so readers never see half a record
+  private async write(kind: string, id: string, record: any): Promise<void> {
+    const file = this.file(kind, id);
+    const temporary = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(temporary, JSON.stringify(record, null, 2));
+    await fs.promises.rename(temporary, file);
+  }
+  
+  private async read<T>(kind: string, id: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.file(kind, id), 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+  
+  private async readAll<T>(kind: string): Promise<T[]> {
+    let names: string[];
+    try {
+      names = await fs.promises.readdir(path.join(this.root, kind));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    
+    const records = await Promise.all(names
+      .filter(name => name.endsWith('.json'))
+      .map(name => this.read<T>(kind, name.slice(0, -'.json'.length))));
+    return records.filter(record => record !== undefined) as T[];
+  }
+}
+
+/**
+ * Keeps everything in memory; for embedding and for runs that should leave nothing behind
+ */
+export class MemoryIntentStore implements IntentStore {
+  private intents = new Map<string, StoredIntent>();
+  private runs = new Map<string, StoredRun>();
+  private checkpoints = new Map<string, IntentCheckpoint>();
+  
+  async saveIntent(intent: StoredIntent): Promise<void> {
+    this.intents.set(intent.id, clone(intent));
+  }
+  
+  async getIntent(id: string): Promise<StoredIntent | undefined> {
+    const intent = this.intents.get(id);
+    return intent && clone(intent);
+  }
+  
+  async findIntents(query: IntentQuery = {}): Promise<StoredIntent[]> {
+    return filterIntents([...this.intents.values()].map(clone), query);
+  }
+  
+  async saveRun(run: StoredRun): Promise<void> {
+    this.runs.set(run.id, clone(run));
+  }
+  
+  async getRun(id: string): Promise<StoredRun | undefined> {
+    const run = this.runs.get(id);
+    return run && clone(run);
+  }
+  
+  async findRuns(query: IntentQuery = {}): Promise<StoredRun[]> {
+    return filterRuns([...this.runs.values()].map(clone), query);
+  }
+  
+  async saveCheckpoint(checkpoint: IntentCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.runId, clone(checkpoint));
+  }
+  
+  async getCheckpoint(runId: string): Promise<IntentCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(runId);
+    return checkpoint && clone(checkpoint);
+  }
+}
+
+/**
+ * Store an intent's definition and plan, keeping the runs already recorded for it
+ */
+export async function recordIntent(store: IntentStore, intent: Intent, definition?: any): Promise<StoredIntent> {
+  const stored = intentRecord(await store.getIntent(intent.id), intent, definition);
+  await store.saveIntent(stored);
+  return stored;
+}
+
+/**
+ * Store the result of running an intent, and the intent itself updated with it
+ */
+export async function recordRun(store: IntentStore, intent: Intent, result: IntentExecutionResult, definition?: any): Promise<StoredRun> {
+  const finishedAt = new Date();
+  const run: StoredRun = {
+    id: result.runId || crypto.randomBytes(8).toString('hex'),
+    intentId: result.intentId,
+    goal: result.goal,
+    status: result.status,
+    success: result.success,
+    startedAt: new Date(finishedAt.getTime() - result.duration).toISOString(),
+    finishedAt: finishedAt.toISOString(),
+    result: storedResult(result)
+  };
+  await store.saveRun(run);
+  
+  const stored = intentRecord(await store.getIntent(intent.id), intent, definition);
+  await store.saveIntent({ ...stored, status: run.status, runs: [...stored.runs, run.id], updatedAt: run.finishedAt });
+  return run;
+}
+
+/**
+ * Find a run or an intent by id, or by an unambiguous prefix of one
+ */
+export async function findById(store: IntentStore, id: string): Promise<{ run?: StoredRun; intent?: StoredIntent }> {
+  const run = await store.getRun(id).catch(() => undefined);
+  if (run) {
+    return { run, intent: await store.getIntent(run.intentId) };
+  }
+  const intent = await store.getIntent(id).catch(() => undefined);
+  if (intent) {
+    return { intent };
+  }
+  
+  const runs = (await store.findRuns()).filter(candidate => candidate.id.startsWith(id));
+  const intents = (await store.findIntents()).filter(candidate => candidate.id.startsWith(id));
+  if (runs.length + intents.length > 1) {
+    throw new Error(`Ambiguous id ${id}: matches ${[...runs, ...intents].map(record => record.id).join(', ')}`);
+  }
+  if (runs.length === 1) {
+    return { run: runs[0], intent: await store.getIntent(runs[0].intentId) };
+  }
+  return intents.length === 1 ? { intent: intents[0] } : {};
+}
+
+function intentRecord(existing: StoredIntent | undefined, intent: Intent, definition?: any): StoredIntent {
+  definition = definition ?? existing?.definition;
+  return {
+    id: intent.id,
+    goal: intent.goal,
+    ...(definition !== undefined ? { definition: sanitizeDefinition(definition) } : {}),
+    plan: intent.plan(),
+    status: existing?.status ?? intent.status,
+    runs: existing?.runs ?? [],
+    createdAt: existing?.createdAt ?? intent.created.toISOString(),
+    updatedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * A JSON copy of a result without the raw step definitions it carries, whose env and headers
+ * may hold secrets; what each step verified is in its result and the intent's plan
+ */
+function storedResult(result: IntentExecutionResult): IntentExecutionResult {
+  return JSON.parse(JSON.stringify(result, (key, value) => key === '_definition' ? undefined : value));
+}
+
+function filterIntents(intents: StoredIntent[], query: IntentQuery): StoredIntent[] {
+  return filter(intents, query, intent => ({ id: intent.id, date: intent.updatedAt }));
+}
+
+function filterRuns(runs: StoredRun[], query: IntentQuery): StoredRun[] {
+  return filter(runs, query, run => ({ id: run.intentId, date: run.startedAt }));
+}
+
+function filter<T extends { goal: string; status: string }>(
+  records: T[],
+  query: IntentQuery,
+  key: (record: T) => { id: string; date: string }
+): T[] {
+  const since = query.since === undefined ? undefined : new Date(query.since).getTime();
+  const until = query.until === undefined ? undefined : new Date(query.until).getTime();
+  const goal = query.goal?.toLowerCase();
+  
+  const matched = records
+    .filter(record => {
+      const { id, date } = key(record);
+      const time = new Date(date).getTime();
+      return (query.id === undefined || id === query.id) &&
+        (goal === undefined || record.goal.toLowerCase().includes(goal)) &&
+        (query.status === undefined || record.status === query.status) &&
+        (since === undefined || time >= since) &&
+        (until === undefined || time <= until);
+    })
+    .sort((a, b) => new Date(key(b).date).getTime() - new Date(key(a).date).getTime());
+  
+  return query.limit === undefined ? matched : matched.slice(0, query.limit);
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+/**
+ * Timing Helpers
+ * Deadlines and retry backoff shared by the intent runner and verifiers
+ */
+
+import { BackoffStrategy } from './types';
+import { CancelledError, TimeoutError } from './errors';
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return abortable(new Promise(resolve => setTimeout(resolve, ms)), signal);
+}
+
+/**
+ * The reason an aborted signal carries, as a CancelledError
+ */
+export function cancellationReason(signal: AbortSignal): CancelledError {
+  const reason = signal.reason;
+  if (reason instanceof CancelledError) return reason;
+  return new CancelledError(reason instanceof Error ? reason.message : reason ? String(reason) : undefined);
+}
+
+/**
+ * Reject with a CancelledError as soon as the signal aborts
+ */
+export function abortable<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return work;
+  }
+  if (signal.aborted) {
+    return Promise.reject(cancellationReason(signal));
+  }
+  
+  let onAbort: () => void;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(cancellationReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+  
+  return Promise.race([work, aborted]).finally(() => signal.removeEventListener('abort', onAbort));
+}
+
+/**
+ * Reject with a TimeoutError if the work does not settle within the given time
+ */
+export function withTimeout<T>(work: Promise<T>, timeout: number | undefined, label = 'Operation'): Promise<T> {
+  if (timeout === undefined) {
+    return work;
+  }
+  
+  let timer: NodeJS.Timeout;
+  const expiry = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(`${label} timed out after ${timeout}ms`, timeout)), timeout);
+  });
+  
+  return Promise.race([work, expiry]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Delay before the given retry attempt (1-based)
+ */
+export function backoffDelay(strategy: BackoffStrategy = 'fixed', baseDelay: number = 0, attempt: number): number {
+  switch (strategy) {
+    case 'linear': return baseDelay * attempt;
+    case 'exponential': return baseDelay * 2 ** (attempt - 1);
+    default: return baseDelay;
+  }
+}
\ No newline at end of file
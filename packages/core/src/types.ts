@@ -3,27 +3,117 @@
  * These types define the verification contracts that ensure AI claims are real
  */
 
-export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'reverted';
 export type IntentStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type BackoffStrategy = 'fixed' | 'linear' | 'exponential';
 
 export interface VerificationResult {
   success: boolean;
   message: string;
   actual?: any;
   expected?: any;
-  evidence?: string[];
+  evidence?: string[];             // Human-readable notes
+  records?: EvidenceRecord[];      // What was run and read, in order
+  source?: string;                 // Precondition, step or invariant it was logged for
+  previousHash?: string;           // Hash chain over the verification log
+  hash?: string;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number | null;
+  signal?: string | null;
+  truncated?: boolean;
+  duration?: number;
+  timestamp: Date;
+}
+
+/**
+ * Structured evidence for a verification: every command run, file read, request
+ * sent and function called. Secrets in environment variables, headers and URLs are redacted.
+ */
+export type EvidenceRecord =
+  | CommandEvidence
+  | FileEvidence
+  | HttpEvidence
+  | FunctionEvidence
+  | WorkspaceEvidence;
+
+export interface CommandEvidence {
+  kind: 'command';
+  command: string;
+  args?: string[];
+  cwd: string;
+  env?: Record<string, string>;    // Only the overrides
+  exitCode: number | null;
+  signal?: string;
+  stdout: string;                  // Excerpts: the start and end of long output
+  stderr: string;
+  truncated?: boolean;
+  timedOut?: boolean;
+  cancelled?: boolean;
+  duration: number;
+  timestamp: Date;                 // When it started
+}
+
+export interface FileEvidence {
+  kind: 'file';
+  path: string;
+  exists: boolean;
+  size?: number;
+  hash?: string;                   // SHA-256 of the content that was checked
+  modified?: Date;
   timestamp: Date;
 }
 
+export interface HttpEvidence {
+  kind: 'http';
+  method: string;
+  url: string;
+  status?: number;
+  error?: string;
+  attempts: number;
+  body?: string;                   // Response excerpt
+  duration?: number;
+  timestamp: Date;
+}
+
+export interface FunctionEvidence {
+  kind: 'function';
+  name?: string;
+  returned?: any;
+  error?: string;
+  duration: number;
+  timestamp: Date;
+}
+
+export interface WorkspaceEvidence {
+  kind: 'workspace';
+  root: string;
+  added: number;
+  modified: number;
+  deleted: number;
+  unchanged: number;
+  timestamp: Date;
+}
+
+export interface VerifyOptions {
+  timeout?: number;
+  signal?: AbortSignal;
+  onOutput?: (stream: 'stdout' | 'stderr', chunk: string) => void;
+}
+
 export interface StepDefinition {
   name: string;
   description?: string;
   dependencies?: string[];
   action?: () => Promise<void>;
-  verify: VerificationCommand | VerificationFunction;
-  expect?: string | boolean | number;
+  verify: VerificationSpec | VerificationFunction;
+  expect?: string | boolean | number | Expectation;
   timeout?: number;
   retries?: number;
+  retryDelay?: number;
+  backoff?: BackoffStrategy;
   rollback?: () => Promise<void>;
 }
 
@@ -32,10 +122,213 @@ export interface VerificationCommand {
   command: string;
   cwd?: string;
   env?: Record<string, string>;
+  shell?: boolean | string;  // false runs the command directly, without shell syntax
+  args?: string[];           // Passed as they are, quoted for the shell when there is one
+  maxOutput?: number;        // Bytes of stdout/stderr kept per stream
+}
+
+/**
+ * Check a file on disk; every check present must hold
+ */
+export interface VerificationFile {
+  type: 'file';
+  path: string;
+  cwd?: string;                     // Base for a relative path
+  exists?: boolean;
+  contains?: string | string[];
+  matches?: string | RegExp;        // Regular expression source when given as a string
+  flags?: string;
+  size?: { min?: number; max?: number };
+  modified?: { after?: string | Date; before?: string | Date };
+}
+
+/**
+ * Capture and compare named snapshots within an intent run. With `command` or
+ * `file` the snapshot is (re)captured first; JSON output is parsed.
+ */
+export interface VerificationState {
+  type: 'state';
+  key: string;
+  command?: string;
+  file?: string;
+  cwd?: string;
+  equals?: any;
+  sameAs?: string;                  // Key of a snapshot that must be equal
+  differsFrom?: string;             // Key of a snapshot that must differ
+}
+
+/**
+ * Call an HTTP endpoint and check the response. Without `status`, any 2xx passes.
+ */
+export interface VerificationHttp {
+  type: 'http';
+  url: string;
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | object;           // Objects are sent as JSON
+  status?: number | number[] | NumericRange;
+  responseHeaders?: Record<string, string | boolean | TextMatcher>;  // true/false: present/absent
+  responseBody?: TextMatcher;
+  maxResponseTime?: number;         // Milliseconds
+  ready?: { timeout?: number; interval?: number };  // Retry refused connections and 502/503/504 until ready
+  redact?: string[];                // Extra header, query and JSON field names to hide in evidence
+}
+
+/**
+ * Check version control. Commits are those after `base`; changes are compared from
+ * where `head` branched off `base`, to `head` or, when it is omitted, to the working
+ * tree including untracked files. Paths are relative to the repository root.
+ */
+export interface VerificationGit {
+  type: 'git';
+  cwd?: string;
+  base?: string;                    // Default HEAD for changes, the upstream branch for commits
+  head?: string;
+  commit?: { message?: string; author?: string };  // Regular expressions one commit must match
+  changedPaths?: { must?: string[]; mustNot?: string[]; only?: string[] };  // Globs
+  lines?: GitLineCount[];
+  clean?: boolean;                  // No uncommitted or untracked changes
+  diff?: { added?: string | string[]; removed?: string | string[]; matches?: string };  // matches: regex over added lines
+}
+
+export interface GitLineCount {
+  path: string;                     // Glob; every changed file it matches must be within the ranges
+  added?: NumericRange;
+  removed?: NumericRange;
+}
+
+/**
+ * Check a test report (JUnit XML, TAP, or vitest/jest JSON). At least `minTests`
+ * (default 1) tests must have run and none may fail, or with a `baseline` report,
+ * none may fail that did not already fail there.
+ */
+export interface VerificationTests {
+  type: 'tests';
+  report: string;
+  format?: 'junit' | 'tap' | 'json';  // Detected from the content when omitted
+  command?: string;                   // Run first to produce the report; its exit code is not checked
+  cwd?: string;
+  minTests?: number;
+  tests?: string[];                   // Test names (or "Suite › test", or /regex/) that must exist and pass
+  suites?: string[];                  // Suites or test files that must exist with every test passing
+  noSkipped?: boolean;
+  noOnly?: boolean;                   // No focused tests, in the report or as .only( in the test files
+  baseline?: string;
+}
+
+/**
+ * Check a coverage report (coverage-summary.json, coverage-final.json or lcov.info)
+ * against thresholds, and optionally against a baseline report
+ */
+export interface VerificationCoverage {
+  type: 'coverage';
+  report: string;
+  cwd?: string;
+  thresholds?: CoverageThreshold[];
+  baseline?: string;                // Earlier report; covered files must not lose coverage
+  files?: string[];                 // Globs limiting the baseline comparison
+  changedSince?: string;            // Git ref; only compare files changed since it
+}
+
+/**
+ * Minimum percentages, for the whole report, the files matching `file`, or the
+ * functions named `function` (which needs coverage-final.json or lcov.info)
+ */
+export interface CoverageThreshold {
+  file?: string;
+  function?: string;
+  lines?: number;
+  branches?: number;
+  functions?: number;
+  statements?: number;
+}
+
+/**
+ * Check TypeScript/JavaScript structure with the compiler API. Files come from
+ * `files` globs, or `tsconfig` (default: a tsconfig.json in cwd, else every .ts/.tsx file).
+ * The compiler cannot be interrupted: a check past its timeout fails once compilation returns.
+ */
+export interface VerificationSource {
+  type: 'source';
+  cwd?: string;
+  files?: string[];
+  tsconfig?: string;
+  exports?: SourceExport[];
+  signatures?: SourceSignature[];
+  implements?: Array<{ file?: string; class: string; interface: string }>;
+  noCalls?: string[];               // Callees that must not be called, e.g. "getInstance" or "console.log"
+  typechecks?: boolean;             // Zero compiler diagnostics in the files
+}
+
+export interface SourceExport {
+  file: string;
+  name: string;
+  exists?: boolean;                 // false: must not be exported
+  kind?: 'function' | 'class' | 'interface' | 'type' | 'variable' | 'enum';
 }
 
+export interface SourceSignature {
+  file?: string;
+  name: string;                     // Function, or "Class.method"
+  parameters?: string[];            // Types, or "name: type"
+  returns?: string;
+}
+
+export type VerificationSpec =
+  | VerificationCommand
+  | VerificationFile
+  | VerificationState
+  | VerificationHttp
+  | VerificationGit
+  | VerificationTests
+  | VerificationCoverage
+  | VerificationSource;
+
 export type VerificationFunction = () => boolean | Promise<boolean>;
 
+/**
+ * Structured expectations for command output. Every key present must hold;
+ * use `any` and `not` for alternatives and negation.
+ */
+export interface Expectation {
+  exitCode?: number | NumericRange;
+  stdout?: TextMatcher;
+  stderr?: TextMatcher;
+  all?: Expectation[];
+  any?: Expectation[];
+  not?: Expectation;
+}
+
+export interface NumericRange {
+  eq?: number;
+  ne?: number;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface TextMatcher {
+  equals?: string;                  // Whole output, ignoring surrounding whitespace
+  contains?: string | string[];
+  notContains?: string | string[];
+  matches?: string;                 // Regular expression source
+  flags?: string;
+  empty?: boolean;
+  number?: NumericRange;            // Output parsed as a number
+  lines?: NumericRange;             // Count of non-empty lines
+  json?: JsonAssertion | JsonAssertion[];
+}
+
+export interface JsonAssertion {
+  path: string;                     // e.g. $.results[0].status
+  exists?: boolean;
+  equals?: any;
+  matches?: string;
+  number?: NumericRange;
+  length?: NumericRange;            // Array or string length
+}
+
 export interface Step {
   id: string;
   name: string;
@@ -47,22 +340,68 @@ export interface Step {
   duration?: number;
   dependencies?: string[];
   retryCount?: number;
+  subIntent?: IntentExecutionResult;  // Set when the step is a whole child intent
 }
 
 export interface IntentContract {
   preconditions?: VerificationCheck[];
   postconditions?: VerificationCheck[];
   invariants?: VerificationCheck[];
+  changes?: WorkspaceChangeExpectation[];  // Checked against the workspace change set after postconditions
+  scope?: ChangeScope;
 }
 
 export interface VerificationCheck {
   name?: string;
-  check: VerificationCommand | VerificationFunction;
+  check: VerificationSpec | VerificationFunction;
   expect?: any;
   critical?: boolean;
 }
 
+/**
+ * An intent as written in an intent file; schema/intent.schema.json describes the same shape
+ */
+export interface IntentDefinition {
+  $schema?: string;
+  goal: string;
+  description?: string;             // Sub-intents only
+  dependencies?: string[];          // Sub-intents only: names of steps to run after
+  options?: IntentOptions;
+  preconditions?: CheckDefinition[];
+  invariants?: CheckDefinition[];
+  steps?: StepDeclaration[];
+  intents?: IntentDefinition[];     // Child intents, each verified as a single step
+  postconditions?: CheckDefinition[];
+  changes?: WorkspaceChangeExpectation[];
+  scope?: ChangeScope;
+}
+
+/**
+ * A check in an intent file: a shell command, a structured check, or either with a name and expectation
+ */
+export type CheckDefinition =
+  | string
+  | VerificationSpec
+  | { name?: string; check: string | VerificationSpec; expect?: any; critical?: boolean };
+
+/**
+ * A step in an intent file; actions and rollbacks are code, so only the Intent API can add them
+ */
+export type StepDeclaration = Omit<StepDefinition, 'verify' | 'action' | 'rollback'> & { verify: string | VerificationSpec };
+
+/**
+ * A problem found while loading an intent file
+ */
+export interface DefinitionIssue {
+  path: string;                     // JSON path, e.g. $.steps[2].verify
+  message: string;
+  line?: number;                    // 1-based, when the source text is known
+  column?: number;
+}
+
 export interface IntentExecutionResult {
+  intentId: string;
+  goal: string;
   success: boolean;
   status: IntentStatus;
   steps: Step[];
@@ -70,13 +409,384 @@ export interface IntentExecutionResult {
   failureReason?: string;
   duration: number;
   verificationLog: VerificationResult[];
+  rollbacks?: RollbackResult[];
+  timedOut?: boolean;
+  plan?: IntentPlan;
+  changes?: WorkspaceChangeSet;   // Set when the workspace was snapshotted
+  warnings?: string[];            // Problems that did not fail the intent, such as warning-level scope violations
+  runId?: string;                 // Absent for dry runs
+  resumedFrom?: { runId: string; logHead: string; steps: string[] };  // The run this one continued, and the steps it proved
+}
+
+export interface RollbackResult {
+  step: string;
+  success: boolean;
+  error?: string;
+  duration: number;
+}
+
+/**
+ * Which files a workspace snapshot covers. Files ignored by .gitignore are left
+ * out unless `gitignore` is false; .git itself is always skipped.
+ */
+export interface WorkspaceOptions {
+  root?: string;                    // Default process.cwd()
+  include?: string[];               // Globs; default every file
+  exclude?: string[];
+  gitignore?: boolean;
+  lines?: boolean;                  // Also hash each line of text files, so changes carry line counts
+}
+
+export interface WorkspaceSnapshot {
+  root: string;
+  files: Record<string, WorkspaceFile>;  // Keyed by '/'-separated path relative to root
+  timestamp: Date;
+}
+
+export interface WorkspaceFile {
+  size: number;
+  hash: string;                     // SHA-256, hex
+  lines?: string[];                 // Short per-line hashes, when lines were requested
+}
+
+export interface WorkspaceChange {
+  path: string;
+  change: 'added' | 'modified' | 'deleted';
+  size?: number;                    // Absent when deleted
+  hash?: string;
+  previousSize?: number;            // Absent when added
+  previousHash?: string;
+  linesAdded?: number;              // Only when both versions were line-hashed
+  linesRemoved?: number;
+}
+
+export interface WorkspaceChangeSet {
+  root: string;
+  added: WorkspaceChange[];
+  modified: WorkspaceChange[];
+  deleted: WorkspaceChange[];
+  unchanged: number;
+  before: Date;
+  after: Date;
+  beforeHash: string;               // Of each snapshot's file list and hashes
+  afterHash: string;
+}
+
+/**
+ * Assertions on what an intent run changed. A glob under added/modified/deleted/changed
+ * must match at least one such change, unless a ChangeCount gives another range.
+ */
+export interface WorkspaceChangeExpectation {
+  name?: string;
+  added?: Array<string | ChangeCount>;
+  modified?: Array<string | ChangeCount>;
+  deleted?: Array<string | ChangeCount>;
+  changed?: Array<string | ChangeCount>;  // Any kind of change
+  only?: string[];                  // Every change must match one of these globs
+  unchanged?: string[];             // No change may match these globs
+}
+
+/**
+ * Where an intent may make changes, and how many. Checked at the end of a run
+ * against the workspace as it was before the preconditions.
+ */
+export interface ChangeScope {
+  allowed?: string[];               // Globs; any change elsewhere is out of scope
+  maxFiles?: number;
+  maxLines?: number;                // Lines added plus removed, over text files
+  severity?: 'error' | 'warning';   // Default error; warnings are reported but do not fail the intent
+}
+
+export interface ChangeCount {
+  path: string;
+  count?: NumericRange;             // Default { gte: 1 }
+}
+
+export interface PlannedVerification {
+  type: 'command' | 'function' | 'intent' | 'file' | 'state' | 'http' | 'git' | 'tests' | 'coverage' | 'source';
+  command?: string;
+  method?: string;
+  url?: string;                  // Secrets redacted
+  range?: string;                // base..head, or base..working tree
+  path?: string;
+  key?: string;
+  cwd?: string;
+  env?: Record<string, string>;  // Only the overrides; the rest is inherited from the process
+}
+
+export interface PlannedCheck {
+  name?: string;
+  verify: PlannedVerification;
+  expect?: any;
+  critical: boolean;
+}
+
+export interface PlannedStep {
+  name: string;
+  description?: string;
+  wave: number;
+  dependencies: string[];
+  verify: PlannedVerification;
+  expect?: any;
+  intent?: IntentPlan;  // The child intent's own plan for sub-intent steps
+  action: boolean;
+  rollback: boolean;
+  timeout?: number;
+  retries: number;
+}
+
+export interface IntentPlan {
+  intentId: string;
+  goal: string;
+  parallel: boolean;
+  preconditions: PlannedCheck[];
+  steps: PlannedStep[];           // In the order they would start
+  waves: string[][];              // Step names that may run side by side
+  invariants: PlannedCheck[];     // Checked before and after every step
+  postconditions: PlannedCheck[];
+  scope?: ChangeScope;
+  warnings: string[];
+  errors: string[];               // Problems that would stop execution outright
+}
+
+/**
+ * A signed statement of what an intent was and how its verification went
+ */
+export interface AttestationReceipt {
+  payload: ReceiptPayload;
+  signature: string;                // Ed25519 over the canonical JSON of the payload, base64
+  publicKey: string;                // PEM
+  keyId: string;
+}
+
+export interface ReceiptPayload {
+  type: string;
+  intent: { id: string; goal: string; definition: any; definitionHash: string };
+  workspace?: { root: string; before: string; after: string; changes: WorkspaceChangeSet };
+  result: {
+    success: boolean;
+    status: IntentStatus;
+    failedStep?: string;
+    failureReason?: string;
+    duration: number;
+    steps: Array<{ name: string; status: StepStatus }>;
+  };
+  log: VerificationResult[];        // Hash-chained
+  logHead: string;                  // Hash of the last entry
+  createdAt: string;
+}
+
+export interface ReceiptVerification {
+  valid: boolean;
+  signatureValid: boolean;
+  chainValid: boolean;
+  trusted: boolean;                 // Checked against a key the verifier supplied, not the receipt's own
+  keyId: string;
+  errors: string[];
+}
+
+/**
+ * An in-toto Statement (v1) about an intent run, with an IntentProof predicate
+ */
+export interface InTotoStatement {
+  _type: string;
+  subject: ResourceDescriptor[];    // The files the run produced, or the intent definition when it produced none
+  predicateType: string;
+  predicate: IntentPredicate;
+}
+
+export interface ResourceDescriptor {
+  name: string;
+  digest: Record<string, string>;   // Algorithm to hex digest
+}
+
+export interface IntentPredicate {
+  intent: { id: string; goal: string; definition: any; definitionHash: string };
+  contract: {
+    preconditions: PlannedCheck[];
+    invariants: PlannedCheck[];
+    postconditions: PlannedCheck[];
+    scope?: ChangeScope;
+  };
+  steps: PlannedStep[];
+  result: ReceiptPayload['result'] & { warnings?: string[] };
+  workspace?: { root: string; before: string; after: string };
+  materials: ResourceDescriptor[];  // Changed files as they were before the run
+  products: ResourceDescriptor[];   // Changed files as they are after it
+  verificationLog: VerificationResult[];  // Hash-chained
+  logHead: string;
+  createdAt: string;
+}
+
+/**
+ * A DSSE envelope: the serialized statement and signatures over its pre-authentication encoding
+ */
+export interface DsseEnvelope {
+  payloadType: string;
+  payload: string;                  // Base64
+  signatures: Array<{ keyid: string; sig: string }>;
+}
+
+export interface StatementVerification {
+  statement: InTotoStatement;
+  signed: boolean;                  // Read from a DSSE envelope
+  signatureValid: boolean;          // False when unsigned or no key was given to check with
+  chainValid: boolean;
+  valid: boolean;
+  keyId?: string;
+  errors: string[];
+}
+
+/**
+ * An intent as an IntentStore keeps it
+ */
+export interface StoredIntent {
+  id: string;
+  goal: string;
+  definition?: any;                 // What it was declared from, e.g. an intent file; enough to rebuild it
+  plan: IntentPlan;
+  status: IntentStatus;             // Of the latest run
+  runs: string[];                   // Run ids, oldest first
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * One execution of a stored intent, with its full result and evidence
+ */
+export interface StoredRun {
+  id: string;
+  intentId: string;
+  goal: string;
+  status: IntentStatus;
+  success: boolean;
+  startedAt: string;
+  finishedAt: string;
+  result: IntentExecutionResult;    // Dates in it read back as ISO strings
+}
+
+export interface IntentQuery {
+  id?: string;                      // Intent id
+  goal?: string;                    // Case-insensitive substring
+  status?: IntentStatus;
+  since?: Date | string;            // Intents by last update, runs by start
+  until?: Date | string;
+  limit?: number;
+}
+
+/**
+ * Where intents and their runs are persisted; queries return the newest first
+ */
+export interface IntentStore {
+  saveIntent(intent: StoredIntent): Promise<void>;
+  getIntent(id: string): Promise<StoredIntent | undefined>;
+  findIntents(query?: IntentQuery): Promise<StoredIntent[]>;
+  saveRun(run: StoredRun): Promise<void>;
+  getRun(id: string): Promise<StoredRun | undefined>;
+  findRuns(query?: IntentQuery): Promise<StoredRun[]>;
+  saveCheckpoint(checkpoint: IntentCheckpoint): Promise<void>;
+  getCheckpoint(runId: string): Promise<IntentCheckpoint | undefined>;
+}
+
+export interface ExecuteOptions {
+  dryRun?: boolean;
+  signal?: AbortSignal;
+  onCheckpoint?: (checkpoint: IntentCheckpoint) => void | Promise<void>;  // Awaited after each completed step and when the run ends
+}
+
+export interface ResumeOptions extends ExecuteOptions {
+  reverify?: boolean;               // Re-run the verification (not the action) of steps already proven; those that fail run again in full
+}
+
+/**
+ * What a run had proven so far; enough to resume it from the step that failed
+ */
+export interface IntentCheckpoint {
+  runId: string;
+  intentId: string;
+  goal: string;
+  status: IntentStatus;             // 'running' until the run ends
+  failedStep?: string;
+  failureReason?: string;
+  steps: CheckpointStep[];          // Proven, in completion order; steps that were rolled back are left out
+  logHead: string;                  // Of the run's verification log when the checkpoint was taken
+  snapshot?: WorkspaceSnapshot;     // Taken before the run, so a resumed run diffs from the same baseline
+  resumedFrom?: string;             // Run id
+  startedAt: string;
+  updatedAt: string;
+}
+
+export interface CheckpointStep {
+  name: string;
+  definitionHash: string;           // Of what it verifies and expects; a step changed since is run again
+  result?: VerificationResult;
+  duration?: number;
 }
 
 export interface IntentOptions {
   parallel?: boolean;
+  concurrency?: number;
+  rollbackOnFailure?: boolean;
+  rollbackOnCancel?: boolean;
   stopOnFailure?: boolean;
   verbose?: boolean;
   dryRun?: boolean;
   maxRetries?: number;
+  retryDelay?: number;
+  backoff?: BackoffStrategy;
   timeout?: number;
+  workspace?: WorkspaceOptions;   // Snapshot the workspace around the run; implied by change expectations
+  id?: string;                    // Reuse an id, e.g. when rebuilding a stored intent
+}
+/**
+ * The watch section of intentproof.config.json: which intents to verify again when which files change
+ */
+export interface WatchConfig {
+  watch: Record<string, string | string[]>;  // Glob → intent file(s); both relative to the config file
+  debounce?: number;                         // Milliseconds of quiet before re-running; default 300
+  ignore?: string[];                         // Globs never watched, on top of .gitignore
+}
+
+export type WatchStatus = 'pending' | 'running' | 'passed' | 'failed' | 'cancelled' | 'error';
+
+/**
+ * Where one watched intent file stands
+ */
+export interface WatchedIntent {
+  file: string;                     // Relative to the watch root
+  patterns: string[];               // Globs that re-run it, besides the file itself
+  status: WatchStatus;
+  goals: string[];                  // A module may declare several intents
+  step?: string;                    // Running now
+  failedStep?: string;
+  failureReason?: string;
+  duration?: number;
+  runIds: string[];                 // Of the latest run, one per intent
+  trigger?: string[];               // Changed paths that caused the latest run
+  runs: number;
+  updatedAt: string;
+}
+/**
+ * Builds a report from intent runs. attachReporter feeds it an intent's events; one reporter can
+ * follow several intents and renders them all into one document.
+ */
+export interface Reporter {
+  readonly name: string;
+  readonly extension: string;       // Of the file it is written to, e.g. '.xml'
+  onStart(intent: { id: string; goal: string }, runId?: string): void;
+  onStep(intentId: string, step: ReportedStep): void;
+  onWarning(intentId: string, message: string): void;
+  onResult(result: IntentExecutionResult): void;
+  render(): string;
+}
+
+export interface ReportedStep {
+  name: string;                     // Sub-intent steps are named "Parent › Child"
+  status: 'completed' | 'failed' | 'skipped' | 'resumed';
+  duration?: number;
+  reason?: string;
+}
+
+export interface ReporterOptions {
+  source?: string;                  // The intent file; findings are located there when nothing closer is known
 }
\ No newline at end of file
@@ -3,13 +3,26 @@
  * These handle the actual verification of AI claims against reality
  */
 
-import { VerificationResult, VerificationCommand, VerificationFunction } from '../types';
-import { execSync } from 'child_process';
+import {
+  VerificationResult,
+  VerificationCommand,
+  VerificationFile,
+  VerificationFunction,
+  VerificationState,
+  VerifyOptions,
+  Expectation,
+  EvidenceRecord
+} from '../types';
+import { CancelledError, TimeoutError } from '../errors';
+import { abortable, cancellationReason, withTimeout } from '../timing';
+import { CommandOutput, runCommand } from '../executor';
+import { evaluateExpectation, parseExpectation } from '../expectation';
+import { commandRecord, fileRecord } from '../evidence';
 import * as fs from 'fs';
 import * as path from 'path';
 
 export abstract class BaseVerifier {
-  abstract verify(input: any, expected?: any): Promise<VerificationResult>;
+  abstract verify(input: any, expected?: any, options?: VerifyOptions): Promise<VerificationResult>;
   
   protected createResult(success: boolean, message: string, actual?: any, expected?: any): VerificationResult {
     return {
@@ -21,100 +34,158 @@ export abstract class BaseVerifier {
       evidence: []
     };
   }
+  
+  protected createTimeoutResult(error: TimeoutError, expected?: any): VerificationResult {
+    return {
+      ...this.createResult(false, error.message, undefined, expected),
+      timedOut: true
+    };
+  }
+  
+  protected createCancelledResult(error: CancelledError, expected?: any): VerificationResult {
+    return {
+      ...this.createResult(false, error.message, undefined, expected),
+      cancelled: true
+    };
+  }
+  
+  /**
+   * Run a check with a list to gather evidence records into, attached to whichever result it returns
+   */
+  protected async recording(check: (records: EvidenceRecord[]) => Promise<VerificationResult>): Promise<VerificationResult> {
+    const records: EvidenceRecord[] = [];
+    const result = await check(records);
+    return { ...result, records: [...records, ...(result.records || [])] };
+  }
+}
+
+function lastLines(text: string, count: number): string {
+  const lines = text.split('\n');
+  return lines.length > count ? ['…', ...lines.slice(-count)].join('\n') : text;
 }
 
 export class CommandVerifier extends BaseVerifier {
-  async verify(command: string | VerificationCommand, expected?: string): Promise<VerificationResult> {
-    const cmd = typeof command === 'string' ? command : command.command;
-    const options = typeof command === 'string' ? {} : {
-      cwd: command.cwd,
-      env: { ...process.env, ...command.env }
-    };
+  async verify(command: string | VerificationCommand, expected?: string | number | boolean | Expectation, verifyOptions: VerifyOptions = {}): Promise<VerificationResult> {
+    const spec: VerificationCommand = typeof command === 'string' ? { type: 'command', command } : command;
     
+    let output: CommandOutput;
     try {
-      const output = execSync(cmd, {
-        encoding: 'utf-8',
-        ...options
-      }).trim();
-      
-      // No expectation - just check command succeeded
-      if (expected === undefined) {
-        return this.createResult(true, `Command executed successfully`, output);
-      }
-      
-      // Check various expectation formats
-      const result = this.checkExpectation(output, expected);
-      return this.createResult(
-        result.matches,
-        result.matches ? 'Output matches expectation' : 'Output does not match',
-        output,
-        expected
-      );
+      output = await runCommand(spec.command, {
+        cwd: spec.cwd,
+        env: spec.env ? { ...process.env, ...spec.env } : undefined,
+        shell: spec.shell,
+        args: spec.args,
+        maxOutput: spec.maxOutput,
+        timeout: verifyOptions.timeout,
+        signal: verifyOptions.signal,
+        onOutput: verifyOptions.onOutput
+      });
     } catch (error: any) {
-      // Check if failure was expected
-      if (expected === 'fails' || expected === 'error') {
-        return this.createResult(true, 'Command failed as expected', error.message, expected);
-      }
-      
-      return this.createResult(false, `Command failed: ${error.message}`, error.message, expected);
-    }
-  }
-  
-  private checkExpectation(output: string, expected: string): { matches: boolean } {
-    // Regex pattern
-    if (expected.startsWith('/') && expected.endsWith('/')) {
-      const pattern = new RegExp(expected.slice(1, -1));
-      return { matches: pattern.test(output) };
+      return this.createResult(false, `Command could not be started: ${error.message}`, error.message, expected);
     }
     
-    // Numeric comparisons
-    if (expected.match(/^[<>=]\d+$/)) {
-      const operator = expected[0];
-      const expectedNum = parseInt(expected.slice(1));
-      const actualNum = parseInt(output);
-      
-      if (isNaN(actualNum)) return { matches: false };
-      
-      switch (operator) {
-        case '>': return { matches: actualNum > expectedNum };
-        case '<': return { matches: actualNum < expectedNum };
-        case '=': return { matches: actualNum === expectedNum };
-        default: return { matches: false };
-      }
-    }
+    const details = {
+      records: [commandRecord(spec.command, output, { args: spec.args, cwd: spec.cwd, env: spec.env })],
+      stdout: output.stdout,
+      stderr: output.stderr,
+      exitCode: output.exitCode,
+      signal: output.signal,
+      truncated: output.truncated,
+      duration: output.duration
+    };
     
-    // Boolean expectations
-    if (expected === 'true' || expected === 'false') {
-      const expectBool = expected === 'true';
-      const actualBool = output === 'true' || output === '1' || output === 'yes';
-      return { matches: expectBool === actualBool };
+    // A timeout or cancellation is never the failure a 'fails' expectation is looking for
+    if (output.cancelled) {
+      return { ...this.createCancelledResult(cancellationReason(verifyOptions.signal!), expected), ...details };
+    }
+    if (output.timedOut) {
+      const error = new TimeoutError(`Command timed out after ${verifyOptions.timeout}ms: ${spec.command}`, verifyOptions.timeout!);
+      return { ...this.createTimeoutResult(error, expected), ...details };
     }
     
-    // Exit code expectation
-    if (expected === 'exit 0' || expected === 'success') {
-      return { matches: true }; // We got here, so command succeeded
+    // No expectation - just check command succeeded
+    if (expected === undefined) {
+      if (output.exitCode === 0) {
+        return { ...this.createResult(true, `Command executed successfully`, output.stdout.trim()), ...details };
+      }
+      return { ...this.createResult(false, this.describeExit(spec.command, output), output.exitCode, expected), ...details };
     }
     
-    // Contains check
-    if (expected.startsWith('contains:')) {
-      const searchStr = expected.slice(9);
-      return { matches: output.includes(searchStr) };
+    const expectation = parseExpectation(expected);
+    const outcome = evaluateExpectation(expectation, output);
+    
+    if (outcome.passed) {
+      const message = output.exitCode === 0 ? 'Output matches expectation' : 'Command failed as expected';
+      return { ...this.createResult(true, message, output.stdout.trim(), expected), ...details };
     }
     
-    // Exact match
-    return { matches: output.includes(expected) };
+    // When the exit code was the problem, the tail of the output usually says why
+    const message = output.exitCode === 0
+      ? `Expectation not met: ${outcome.message}`
+      : `Expectation not met: ${outcome.message}\n${this.describeExit(spec.command, output)}`;
+    return {
+      ...this.createResult(false, message, output.stdout.trim(), expected),
+      ...details,
+      evidence: outcome.failures
+    };
+  }
+  
+  private describeExit(command: string, output: CommandOutput): string {
+    const reason = output.exitCode === null ? `was killed by ${output.signal}` : `exited with code ${output.exitCode}`;
+    const excerpt = lastLines(output.stderr.trim() || output.stdout.trim(), 20);
+    return `Command ${reason}: ${command}${excerpt ? '\n' + excerpt : ''}`;
   }
 }
 
+interface FileChecks {
+  exists?: boolean;
+  contains?: string | string[];
+  matches?: RegExp;
+  size?: { min?: number; max?: number };
+  modified?: { after?: Date; before?: Date };
+}
+
 export class FileVerifier extends BaseVerifier {
-  async verify(filePath: string, checks?: {
-    exists?: boolean;
-    contains?: string | string[];
-    matches?: RegExp;
-    size?: { min?: number; max?: number };
-    modified?: { after?: Date; before?: Date };
-  }): Promise<VerificationResult> {
-    const exists = fs.existsSync(filePath);
+  async verify(target: string | VerificationFile, checks?: FileChecks, options: VerifyOptions = {}): Promise<VerificationResult> {
+    if (typeof target !== 'string') {
+      let matches: RegExp | undefined;
+      try {
+        matches = typeof target.matches === 'string' ? new RegExp(target.matches, target.flags) : target.matches;
+      } catch (error: any) {
+        return this.createResult(false, `Invalid pattern for matches: ${error.message}`, undefined, target.matches);
+      }
+      
+      const { after, before } = target.modified || {};
+      return this.verify(path.resolve(target.cwd || process.cwd(), target.path), {
+        exists: target.exists,
+        contains: target.contains,
+        matches,
+        size: target.size,
+        modified: target.modified && {
+          after: after !== undefined ? new Date(after) : undefined,
+          before: before !== undefined ? new Date(before) : undefined
+        }
+      }, options);
+    }
+    
+    try {
+      const check = this.recording(async records => this.checkFile(target, checks, records));
+      return await withTimeout(abortable(check, options.signal), options.timeout, 'File check');
+    } catch (error: any) {
+      if (error instanceof TimeoutError) {
+        return this.createTimeoutResult(error);
+      }
+      if (error instanceof CancelledError) {
+        return this.createCancelledResult(error);
+      }
+      return this.createResult(false, `File check failed: ${error.message}`);
+    }
+  }
+  
+  private checkFile(filePath: string, checks: FileChecks | undefined, records: EvidenceRecord[]): VerificationResult {
+    const record = fileRecord(filePath);
+    records.push(record);
+    const exists = record.exists;
     
     // Check existence
     if (checks?.exists !== undefined) {
@@ -136,7 +207,13 @@ export class FileVerifier extends BaseVerifier {
     }
     
     const stats = fs.statSync(filePath);
-    const evidence: string[] = [`File size: ${stats.size} bytes`];
+    const evidence: string[] = [
+      `File size: ${stats.size} bytes`,
+      `Modified: ${stats.mtime.toISOString()}`
+    ];
+    if (record.hash) {
+      evidence.push(`SHA-256: ${record.hash}`);
+    }
     
     // Size checks
     if (checks?.size) {
@@ -197,24 +274,46 @@ export class FileVerifier extends BaseVerifier {
 }
 
 export class FunctionVerifier extends BaseVerifier {
-  async verify(fn: VerificationFunction, expected: any = true): Promise<VerificationResult> {
+  async verify(fn: VerificationFunction, expected: any = true, options: VerifyOptions = {}): Promise<VerificationResult> {
+    const timestamp = new Date();
+    const record = (outcome: { returned?: any; error?: string }): EvidenceRecord[] => [{
+      kind: 'function',
+      ...(fn.name ? { name: fn.name } : {}),
+      ...outcome,
+      duration: Date.now() - timestamp.getTime(),
+      timestamp
+    }];
+    
     try {
-      const result = await fn();
+      const result = await withTimeout(abortable(Promise.resolve().then(fn), options.signal), options.timeout, 'Verification function');
       const success = expected === undefined ? Boolean(result) : result === expected;
       
-      return this.createResult(
-        success,
-        success ? 'Function verification passed' : 'Function verification failed',
-        result,
-        expected
-      );
+      return {
+        ...this.createResult(
+          success,
+          success ? 'Function verification passed' : 'Function verification failed',
+          result,
+          expected
+        ),
+        records: record({ returned: result })
+      };
     } catch (error: any) {
-      return this.createResult(
-        false,
-        `Function threw error: ${error.message}`,
-        error.message,
-        expected
-      );
+      if (error instanceof TimeoutError) {
+        return { ...this.createTimeoutResult(error, expected), records: record({ error: error.message }) };
+      }
+      if (error instanceof CancelledError) {
+        return { ...this.createCancelledResult(error, expected), records: record({ error: error.message }) };
+      }
+      
+      return {
+        ...this.createResult(
+          false,
+          `Function threw error: ${error.message}`,
+          error.message,
+          expected
+        ),
+        records: record({ error: error.message })
+      };
     }
   }
 }
@@ -226,7 +325,13 @@ export class StateVerifier extends BaseVerifier {
     this.snapshots.set(key, JSON.parse(JSON.stringify(value)));
   }
   
-  async verify(key: string, expected?: any): Promise<VerificationResult> {
+  async verify(target: string | VerificationState, expected?: any, options: VerifyOptions = {}): Promise<VerificationResult> {
+    if (typeof target !== 'string') {
+      const spec = target;
+      return this.recording(records => this.verifySpec(spec, expected, options, records));
+    }
+    
+    const key = target;
     if (!this.snapshots.has(key)) {
       return this.createResult(false, `No snapshot found for key: ${key}`);
     }
@@ -246,6 +351,83 @@ export class StateVerifier extends BaseVerifier {
     );
   }
   
+  private async verifySpec(spec: VerificationState, expected: any, options: VerifyOptions, records: EvidenceRecord[]): Promise<VerificationResult> {
+    if (spec.command !== undefined || spec.file !== undefined) {
+      const captured = await this.capture(spec, options, records);
+      if (captured) {
+        return captured;
+      }
+    }
+    
+    const equals = spec.equals !== undefined ? spec.equals : expected;
+    const result = await this.verify(spec.key, equals);
+    if (!result.success) {
+      return result;
+    }
+    
+    for (const [other, same] of [[spec.sameAs, true], [spec.differsFrom, false]] as const) {
+      if (other === undefined) continue;
+      if (!this.snapshots.has(other)) {
+        return this.createResult(false, `No snapshot found for key: ${other}`);
+      }
+      
+      const comparison = this.diff(other, spec.key);
+      if (comparison.success !== same) {
+        const message = same ? `State "${spec.key}" differs from "${other}"` : `State "${spec.key}" is unchanged from "${other}"`;
+        return { ...comparison, success: false, message };
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Take the snapshot described by a state spec; returns a result only when capturing fails
+   */
+  private async capture(spec: VerificationState, options: VerifyOptions, records: EvidenceRecord[]): Promise<VerificationResult | undefined> {
+    const cwd = path.resolve(spec.cwd || process.cwd());
+    let raw: string;
+    
+    if (spec.command !== undefined) {
+      let output: CommandOutput;
+      try {
+        output = await runCommand(spec.command, { cwd, timeout: options.timeout, signal: options.signal });
+      } catch (error: any) {
+        return this.createResult(false, `Command could not be started: ${error.message}`);
+      }
+      records.push(commandRecord(spec.command, output, { cwd }));
+      
+      if (output.cancelled) {
+        return this.createCancelledResult(cancellationReason(options.signal!));
+      }
+      if (output.timedOut) {
+        return this.createTimeoutResult(new TimeoutError(`Command timed out after ${options.timeout}ms: ${spec.command}`, options.timeout!));
+      }
+      if (output.exitCode !== 0) {
+        const excerpt = lastLines(output.stderr.trim() || output.stdout.trim(), 20);
+        return this.createResult(false, `Could not capture state "${spec.key}": ${spec.command} exited with code ${output.exitCode}${excerpt ? '\n' + excerpt : ''}`);
+      }
+      raw = output.stdout;
+    } else {
+      const filePath = path.resolve(cwd, spec.file!);
+      try {
+        raw = fs.readFileSync(filePath, 'utf-8');
+        records.push(fileRecord(filePath, raw));
+      } catch (error: any) {
+        return this.createResult(false, `Could not capture state "${spec.key}": ${error.message}`);
+      }
+    }
+    
+    let value: any;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      value = raw.trim();
+    }
+    this.snapshot(spec.key, value);
+    return undefined;
+  }
+  
   diff(key1: string, key2: string): VerificationResult {
     if (!this.snapshots.has(key1) || !this.snapshots.has(key2)) {
       return this.createResult(false, 'Missing snapshots for comparison');
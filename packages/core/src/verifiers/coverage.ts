@@ -0,0 +1,405 @@
+/**
+ * Coverage Verifier
+ * Proves code is exercised by tests, from istanbul or lcov coverage output
+ */
+
+import { CoverageThreshold, EvidenceRecord, VerificationCoverage, VerificationResult, VerifyOptions } from '../types';
+import { BaseVerifier } from './base';
+import { CancelledError, TimeoutError } from '../errors';
+import { cancellationReason } from '../timing';
+import { runCommand } from '../executor';
+import { matchesGlob } from '../glob';
+import { commandRecord, fileRecord } from '../evidence';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type CoverageMetric = 'lines' | 'branches' | 'functions' | 'statements';
+
+export interface CoverageCount {
+  covered: number;
+  total: number;
+}
+
+export interface FunctionCoverage {
+  name: string;
+  start: number;
+  end: number;
+  hits: number;
+}
+
+export interface FileCoverage {
+  path: string;                               // Relative to the report's cwd when inside it
+  totals: Record<CoverageMetric, CoverageCount>;
+  lines?: Map<number, number>;                // Line -> hits; absent in summary reports
+  branches?: Array<{ line: number; hits: number }>;
+  functions?: FunctionCoverage[];
+}
+
+export interface CoverageReport {
+  format: 'summary' | 'istanbul' | 'lcov';
+  files: FileCoverage[];
+}
+
+const METRICS: CoverageMetric[] = ['lines', 'branches', 'functions', 'statements'];
+const MAX_RANGES = 20;
+
+export class CoverageVerifier extends BaseVerifier {
+  async verify(spec: VerificationCoverage, expected?: any, options: VerifyOptions = {}): Promise<VerificationResult> {
+    const cwd = path.resolve(spec.cwd || process.cwd());
+    const failures: string[] = [];
+    const evidence: string[] = [];
+    const records: EvidenceRecord[] = [];
+    
+    try {
+      const report = readCoverageReport(path.resolve(cwd, spec.report), cwd);
+      records.push(fileRecord(path.resolve(cwd, spec.report)));
+      const overall = sumTotals(report.files);
+      evidence.push(`Report: ${spec.report} (${report.format}), ${report.files.length} files: ${describeTotals(overall)}`);
+      
+      for (const threshold of spec.thresholds || []) {
+        failures.push(...checkThreshold(report, threshold, evidence));
+      }
+      
+      if (spec.baseline) {
+        const baseline = readCoverageReport(path.resolve(cwd, spec.baseline), cwd);
+        records.push(fileRecord(path.resolve(cwd, spec.baseline)));
+        const changed = spec.changedSince ? await changedFiles(spec.changedSince, cwd, options, records) : undefined;
+        failures.push(...compareReports(baseline, report, spec.files, changed, evidence));
+      }
+    } catch (error: any) {
+      if (error instanceof TimeoutError) {
+        return { ...this.createTimeoutResult(error, expected), evidence, records };
+      }
+      if (error instanceof CancelledError) {
+        return { ...this.createCancelledResult(error, expected), evidence, records };
+      }
+      return { ...this.createResult(false, error.message, undefined, expected), evidence, records };
+    }
+    
+    return {
+      ...this.createResult(
+        failures.length === 0,
+        failures.length === 0 ? 'Coverage thresholds met' : `Coverage check failed: ${failures.join('; ')}`,
+        undefined,
+        expected
+      ),
+      evidence,
+      records
+    };
+  }
+}
+
+/**
+ * Read a coverage-summary.json, coverage-final.json or lcov.info report
+ */
+export function readCoverageReport(reportPath: string, cwd: string = process.cwd()): CoverageReport {
+  let content: string;
+  try {
+    content = fs.readFileSync(reportPath, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Could not read coverage report ${reportPath}: ${error.message}`);
+  }
+  
+  const relative = (file: string) => {
+    const absolute = path.resolve(cwd, file);
+    const inside = path.relative(cwd, absolute);
+    return (inside.startsWith('..') ? absolute : inside).replace(/\\/g, '/');
+  };
+  
+  if (!content.trim().startsWith('{')) {
+    return { format: 'lcov', files: parseLcov(content, relative) };
+  }
+  
+  const data = JSON.parse(content);
+  const entries = Object.entries<any>(data).filter(([key]) => key !== 'total');
+  const isSummary = entries.every(([, value]) => value.lines && typeof value.lines.pct === 'number');
+  
+  return isSummary
+    ? { format: 'summary', files: entries.map(([file, value]) => ({ path: relative(file), totals: summaryTotals(value) })) }
+    : { format: 'istanbul', files: entries.map(([file, value]) => istanbulFile(relative(value.path || file), value)) };
+}
+
+function summaryTotals(value: any): Record<CoverageMetric, CoverageCount> {
+  const totals = {} as Record<CoverageMetric, CoverageCount>;
+  for (const metric of METRICS) {
+    totals[metric] = { covered: value[metric]?.covered ?? 0, total: value[metric]?.total ?? 0 };
+  }
+  return totals;
+}
+
+/**
+ * One file of coverage-final.json; line hits come from the statements starting on each line
+ */
+function istanbulFile(filePath: string, data: any): FileCoverage {
+  const lines = new Map<number, number>();
+  for (const [id, statement] of Object.entries<any>(data.statementMap || {})) {
+    const line = statement.start.line;
+    lines.set(line, Math.max(lines.get(line) ?? 0, data.s[id] ?? 0));
+  }
+  
+  const branches: FileCoverage['branches'] = [];
+  for (const [id, branch] of Object.entries<any>(data.branchMap || {})) {
+    const line = branch.loc?.start.line ?? branch.line;
+    for (const hits of data.b[id] || []) {
+      branches.push({ line, hits });
+    }
+  }
+  
+  const functions = Object.entries<any>(data.fnMap || {}).map(([id, fn]): FunctionCoverage => ({
+    name: fn.name,
+    start: (fn.loc || fn.decl).start.line,
+    end: (fn.loc || fn.decl).end.line,
+    hits: data.f[id] ?? 0
+  }));
+  
+  const statements = Object.values<number>(data.s || {});
+  return {
+    path: filePath,
+    lines,
+    branches,
+    functions,
+    totals: {
+      lines: count([...lines.values()]),
+      branches: count(branches.map(branch => branch.hits)),
+      functions: count(functions.map(fn => fn.hits)),
+      statements: count(statements)
+    }
+  };
+}
+
+/**
+ * lcov only records where functions start; each is taken to end where the next begins
+ */
+function parseLcov(content: string, relative: (file: string) => string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: { path: string; lines: Map<number, number>; branches: Array<{ line: number; hits: number }>; functions: FunctionCoverage[] } | undefined;
+  
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    const separator = line.indexOf(':');
+    const key = separator === -1 ? line : line.slice(0, separator);
+    const value = line.slice(separator + 1);
+    const fields = value.split(',');
+    
+    if (key === 'SF') {
+      current = { path: relative(value), lines: new Map(), branches: [], functions: [] };
+    } else if (!current) {
+      continue;
+    } else if (key === 'DA') {
+      current.lines.set(Number(fields[0]), Number(fields[1]));
+    } else if (key === 'FN') {
+      // FN:<start>,<name> or FN:<start>,<end>,<name>
+      const start = Number(fields[0]);
+      const end = fields.length > 2 ? Number(fields[1]) : NaN;
+      current.functions.push({ name: fields.slice(fields.length > 2 ? 2 : 1).join(','), start, end, hits: 0 });
+    } else if (key === 'FNDA') {
+      const name = fields.slice(1).join(',');
+      const fn = current.functions.find(candidate => candidate.name === name);
+      if (fn) fn.hits = Number(fields[0]);
+    } else if (key === 'BRDA') {
+      current.branches.push({ line: Number(fields[0]), hits: fields[3] === '-' ? 0 : Number(fields[3]) });
+    } else if (key === 'end_of_record') {
+      const lastLine = Math.max(0, ...current.lines.keys());
+      const starts = current.functions.map(fn => fn.start).sort((a, b) => a - b);
+      for (const fn of current.functions) {
+        if (isNaN(fn.end)) {
+          const next = starts.find(start => start > fn.start);
+          fn.end = next !== undefined ? next - 1 : lastLine;
+        }
+      }
+      
+      files.push({
+        path: current.path,
+        lines: current.lines,
+        branches: current.branches,
+        functions: current.functions,
+        totals: {
+          lines: count([...current.lines.values()]),
+          branches: count(current.branches.map(branch => branch.hits)),
+          functions: count(current.functions.map(fn => fn.hits)),
+          statements: count([...current.lines.values()])
+        }
+      });
+      current = undefined;
+    }
+  }
+  
+  return files;
+}
+
+function checkThreshold(report: CoverageReport, threshold: CoverageThreshold, evidence: string[]): string[] {
+  const files = threshold.file ? report.files.filter(file => matchesGlob(file.path, threshold.file!)) : report.files;
+  const label = [threshold.file, threshold.function && `${threshold.function}()`].filter(Boolean).join(' ') || 'total';
+  
+  if (threshold.file && files.length === 0) {
+    return [`${label}: no file in the report matches`];
+  }
+  
+  if (threshold.function) {
+    return checkFunctionThreshold(files, threshold, label, evidence);
+  }
+  
+  if (!threshold.file) {
+    return belowThreshold(sumTotals(files), threshold, label);
+  }
+  
+  const failures: string[] = [];
+  for (const file of files) {
+    const below = belowThreshold(file.totals, threshold, file.path);
+    if (below.length > 0) {
+      failures.push(...below);
+      evidence.push(`${file.path}: ${describeTotals(file.totals)}${uncoveredRanges(file.lines)}`);
+    }
+  }
+  return failures;
+}
+
+function checkFunctionThreshold(files: FileCoverage[], threshold: CoverageThreshold, label: string, evidence: string[]): string[] {
+  if (files.every(file => !file.functions)) {
+    return [`${label}: per-function coverage needs coverage-final.json or lcov.info`];
+  }
+  
+  const matches = files.flatMap(file => (file.functions || [])
+    .filter(fn => fn.name === threshold.function)
+    .map(fn => ({ file, fn })));
+  if (matches.length === 0) {
+    return [`${label}: function not found in the report`];
+  }
+  
+  const failures: string[] = [];
+  for (const { file, fn } of matches) {
+    const where = `${file.path}:${fn.start} ${fn.name}()`;
+    const inRange = (line: number) => line >= fn.start && line <= fn.end;
+    const lines = new Map([...(file.lines || new Map<number, number>())].filter(([line]) => inRange(line)));
+    const totals: Record<CoverageMetric, CoverageCount> = {
+      lines: count([...lines.values()]),
+      branches: count((file.branches || []).filter(branch => inRange(branch.line)).map(branch => branch.hits)),
+      functions: count([fn.hits]),
+      statements: count([...lines.values()])
+    };
+    
+    const below = belowThreshold(totals, threshold, where);
+    if (fn.hits === 0) {
+      below.unshift(`${where}: never called`);
+    }
+    
+    evidence.push(`${where}: called ${fn.hits} time(s), ${describeTotals(totals)}${uncoveredRanges(lines)}`);
+    failures.push(...below);
+  }
+  return failures;
+}
+
+function belowThreshold(totals: Record<CoverageMetric, CoverageCount>, threshold: CoverageThreshold, label: string): string[] {
+  return METRICS
+    .filter(metric => threshold[metric] !== undefined && percent(totals[metric]) < threshold[metric]!)
+    .map(metric => `${label}: ${metric} ${formatPercent(totals[metric])} < ${threshold[metric]}%`);
+}
+
+function compareReports(
+  baseline: CoverageReport,
+  current: CoverageReport,
+  globs: string[] | undefined,
+  changed: Set<string> | undefined,
+  evidence: string[]
+): string[] {
+  const failures: string[] = [];
+  const now = new Map(current.files.map(file => [file.path, file]));
+  const inScope = (file: string) => (!globs || matchesGlob(file, globs)) && (!changed || changed.has(file));
+  let compared = 0;
+  
+  for (const before of baseline.files.filter(file => inScope(file.path))) {
+    const after = now.get(before.path);
+    if (!after) {
+      failures.push(`${before.path}: no longer in the coverage report`);
+      continue;
+    }
+    compared++;
+    
+    for (const metric of ['lines', 'branches'] as const) {
+      const was = percent(before.totals[metric]);
+      const is = percent(after.totals[metric]);
+      if (is < was - 0.005) {
+        failures.push(`${after.path}: ${metric} coverage dropped from ${was.toFixed(2)}% to ${is.toFixed(2)}%`);
+        evidence.push(`${after.path}: ${describeTotals(after.totals)}${uncoveredRanges(after.lines)}`);
+      }
+    }
+  }
+  
+  evidence.push(`Compared ${compared} file(s) against the baseline`);
+  return failures;
+}
+
+async function changedFiles(ref: string, cwd: string, options: VerifyOptions, records: EvidenceRecord[]): Promise<Set<string>> {
+  const files = new Set<string>();
+  
+  for (const args of [['diff', '--name-only', '--relative', ref], ['ls-files', '--others', '--exclude-standard']]) {
+    const output = await runCommand('git', { args, shell: false, cwd, timeout: options.timeout, signal: options.signal })
+      .catch((error: Error) => {
+        throw new Error(`git could not be started: ${error.message}`);
+      });
+    records.push(commandRecord('git', output, { args, cwd }));
+    
+    if (output.cancelled) {
+      throw cancellationReason(options.signal!);
+    }
+    if (output.timedOut) {
+      throw new TimeoutError(`git ${args[0]} timed out after ${options.timeout}ms`, options.timeout!);
+    }
+    if (output.exitCode !== 0) {
+      throw new Error(`git ${args.join(' ')} failed: ${output.stderr.trim()}`);
+    }
+    output.stdout.split('\n').filter(Boolean).forEach(file => files.add(file));
+  }
+  
+  return files;
+}
+
+function count(hits: number[]): CoverageCount {
+  return { covered: hits.filter(hit => hit > 0).length, total: hits.length };
+}
+
+function sumTotals(files: FileCoverage[]): Record<CoverageMetric, CoverageCount> {
+  const totals = {} as Record<CoverageMetric, CoverageCount>;
+  for (const metric of METRICS) {
+    totals[metric] = files.reduce(
+      (sum, file) => ({ covered: sum.covered + file.totals[metric].covered, total: sum.total + file.totals[metric].total }),
+      { covered: 0, total: 0 }
+    );
+  }
+  return totals;
+}
+
+function percent(counts: CoverageCount): number {
+  return counts.total === 0 ? 100 : (counts.covered / counts.total) * 100;
+}
+
+function formatPercent(counts: CoverageCount): string {
+  return `${Number(percent(counts).toFixed(2))}% (${counts.covered}/${counts.total})`;
+}
+
+function describeTotals(totals: Record<CoverageMetric, CoverageCount>): string {
+  return METRICS.map(metric => `${metric} ${formatPercent(totals[metric])}`).join(', ');
+}
+
+/**
+ * Uncovered lines as compact ranges, e.g. "; uncovered lines 12-15, 20"
+ */
+function uncoveredRanges(lines?: Map<number, number>): string {
+  if (!lines) return '';
+  
+  // Lines that are not executable do not interrupt a range
+  const executable = [...lines].sort(([a], [b]) => a - b);
+  const ranges: string[] = [];
+  for (let i = 0; i < executable.length; i++) {
+    if (executable[i][1] > 0) continue;
+    
+    const start = executable[i][0];
+    while (i + 1 < executable.length && executable[i + 1][1] === 0) i++;
+    const end = executable[i][0];
+    ranges.push(start === end ? `${start}` : `${start}-${end}`);
+  }
+  
+  if (ranges.length === 0) return '';
+  const shown = ranges.length > MAX_RANGES ? [...ranges.slice(0, MAX_RANGES), '…'] : ranges;
+  return `; uncovered lines ${shown.join(', ')}`;
+}
\ No newline at end of file
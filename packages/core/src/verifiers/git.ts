@@ -0,0 +1,378 @@
+/**
+ * Git Verifier
+ * Checks claims about version control: what was committed, what changed and what was left behind
+ */
+
+import { EvidenceRecord, VerificationResult, VerificationGit, VerifyOptions } from '../types';
+import { BaseVerifier } from './base';
+import { CancelledError, TimeoutError } from '../errors';
+import { cancellationReason } from '../timing';
+import { runCommand } from '../executor';
+import { checkRange } from '../expectation';
+import { matchesGlob } from '../glob';
+import { commandRecord } from '../evidence';
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface ChangedFile {
+  path: string;
+  added: number;
+  removed: number;
+  untracked?: boolean;
+}
+
+interface DiffHunk {
+  file: string;
+  header: string;
+  lines: string[];
+}
+
+const MAX_LISTED = 50;
+const MAX_HUNKS = 10;
+const MAX_HUNK_LINES = 40;
+const MAX_UNTRACKED_SIZE = 1024 * 1024;
+
+class GitError extends Error {}
+
+interface GitPatterns {
+  message?: RegExp;
+  author?: RegExp;
+  diff?: RegExp;
+}
+
+export class GitVerifier extends BaseVerifier {
+  async verify(spec: VerificationGit, expected?: any, options: VerifyOptions = {}): Promise<VerificationResult> {
+    const cwd = path.resolve(spec.cwd || process.cwd());
+    const deadline = options.timeout !== undefined ? Date.now() + options.timeout : undefined;
+    const records: EvidenceRecord[] = [];
+    const git = (...args: string[]) => this.git(args, cwd, options, records, deadline);
+    const base = spec.base || 'HEAD';
+    const failures: string[] = [];
+    const evidence: string[] = [];
+    
+    try {
+      const patterns = compilePatterns(spec);
+      
+      if (spec.commit) {
+        failures.push(...await this.checkCommits(spec, patterns, spec.base || await this.upstream(git), git, evidence));
+      }
+      
+      if (spec.changedPaths || spec.lines || spec.diff) {
+        const from = (await git('merge-base', base, spec.head || 'HEAD')).trim();
+        const diffArgs = spec.head ? [from, spec.head] : [from];
+        const root = (await git('rev-parse', '--show-toplevel')).trim();
+        evidence.push(`Range: ${base} (${from.slice(0, 7)})..${spec.head || 'working tree'}`);
+        
+        if (spec.changedPaths || spec.lines) {
+          const changed = await this.changedFiles(diffArgs, !spec.head, root, git);
+          evidence.push(...describeChanges(changed));
+          failures.push(...checkChangedPaths(changed, spec.changedPaths || {}));
+          failures.push(...checkLineCounts(changed, spec.lines || []));
+        }
+        
+        if (spec.diff) {
+          const hunks = parsePatch(await git('diff', '--no-color', '--no-ext-diff', '--no-renames', '-U3', ...diffArgs));
+          if (!spec.head) {
+            const untracked = await untrackedFiles(git);
+            hunks.push(...untracked.map(file => untrackedHunk(root, file)).filter((hunk): hunk is DiffHunk => Boolean(hunk)));
+          }
+          failures.push(...checkDiff(hunks, spec.diff, patterns.diff, evidence));
+        }
+      }
+      
+      if (spec.clean !== undefined) {
+        const status = (await git('status', '--porcelain')).split('\n').filter(Boolean);
+        if (spec.clean && status.length > 0) {
+          failures.push(`clean: working tree has ${status.length} uncommitted change(s)`);
+          evidence.push(...status.slice(0, MAX_LISTED).map(line => `Uncommitted: ${line}`));
+        } else if (!spec.clean && status.length === 0) {
+          failures.push('clean: expected uncommitted changes, but the working tree is clean');
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof TimeoutError) {
+        return { ...this.createTimeoutResult(error, expected), evidence, records };
+      }
+      if (error instanceof CancelledError) {
+        return { ...this.createCancelledResult(error, expected), evidence, records };
+      }
+      if (error instanceof GitError) {
+        return { ...this.createResult(false, error.message, undefined, expected), evidence, records };
+      }
+      throw error;
+    }
+    
+    return {
+      ...this.createResult(
+        failures.length === 0,
+        failures.length === 0 ? `Git checks passed in ${cwd}` : `Git checks failed: ${failures.join('; ')}`,
+        undefined,
+        expected
+      ),
+      evidence,
+      records
+    };
+  }
+  
+  private async checkCommits(
+    spec: VerificationGit,
+    patterns: GitPatterns,
+    base: string,
+    git: (...args: string[]) => Promise<string>,
+    evidence: string[]
+  ): Promise<string[]> {
+    const { message, author } = spec.commit!;
+    const log = await git('log', '--format=%H%x1f%an <%ae>%x1f%B%x1e', `${base}..${spec.head || 'HEAD'}`);
+    const commits = log.split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+      const [hash, by, body] = record.split('\x1f');
+      return { hash, author: by, message: body.trim() };
+    });
+    
+    const match = commits.find(commit =>
+      (!patterns.message || patterns.message.test(commit.message)) &&
+      (!patterns.author || patterns.author.test(commit.author)));
+    
+    if (match) {
+      evidence.push(`Commit ${match.hash.slice(0, 7)} by ${match.author}: ${match.message.split('\n')[0]}`);
+      return [];
+    }
+    
+    const wanted = [message && `message /${message}/`, author && `author /${author}/`].filter(Boolean).join(' and ');
+    return [`commit: none of ${commits.length} commit(s) since ${base} matches ${wanted}`];
+  }
+  
+  // Commits are counted from the upstream branch when no base is given, as HEAD..HEAD is always empty
+  private async upstream(git: (...args: string[]) => Promise<string>): Promise<string> {
+    try {
+      return (await git('rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}')).trim();
+    } catch (error) {
+      if (error instanceof GitError) {
+        throw new GitError('commit: no base given and the branch has no upstream; set "base" to the branch it started from');
+      }
+      throw error;
+    }
+  }
+  
+  // Paths come back relative to the repository root, whatever the working directory
+  private async changedFiles(
+    diffArgs: string[],
+    includeUntracked: boolean,
+    root: string,
+    git: (...args: string[]) => Promise<string>
+  ): Promise<ChangedFile[]> {
+    const numstat = await git('diff', '--numstat', '--no-renames', ...diffArgs);
+    const changed: ChangedFile[] = numstat.split('\n').filter(Boolean).map(line => {
+      const [added, removed, ...file] = line.split('\t');
+      // Binary files report '-' for both counts
+      return { path: file.join('\t'), added: Number(added) || 0, removed: Number(removed) || 0 };
+    });
+    
+    if (includeUntracked) {
+      for (const file of await untrackedFiles(git)) {
+        changed.push({ path: file, added: untrackedHunk(root, file)?.lines.length ?? 0, removed: 0, untracked: true });
+      }
+    }
+    
+    return changed;
+  }
+  
+  private async git(args: string[], cwd: string, options: VerifyOptions, records: EvidenceRecord[], deadline?: number): Promise<string> {
+    const timeout = deadline !== undefined ? Math.max(0, deadline - Date.now()) : undefined;
+    const gitArgs = ['-c', 'core.quotepath=off', ...args];
+    const output = await runCommand('git', {
+      args: gitArgs,
+      shell: false,
+      cwd,
+      timeout,
+      signal: options.signal
+    }).catch((error: Error) => {
+      throw new GitError(`git could not be started: ${error.message}`);
+    });
+    records.push(commandRecord('git', output, { args: gitArgs, cwd }));
+    
+    if (output.cancelled) {
+      throw cancellationReason(options.signal!);
+    }
+    if (output.timedOut) {
+      throw new TimeoutError(`git ${args[0]} timed out after ${options.timeout}ms`, options.timeout!);
+    }
+    if (output.exitCode !== 0) {
+      throw new GitError(`git ${args.join(' ')} failed: ${output.stderr.trim() || `exit code ${output.exitCode}`}`);
+    }
+    
+    return output.stdout;
+  }
+}
+
+function describeChanges(changed: ChangedFile[]): string[] {
+  const added = changed.reduce((sum, file) => sum + file.added, 0);
+  const removed = changed.reduce((sum, file) => sum + file.removed, 0);
+  const lines = changed.slice(0, MAX_LISTED).map(file =>
+    `Changed: ${file.path} (+${file.added} -${file.removed})${file.untracked ? ' untracked' : ''}`);
+  
+  if (changed.length > MAX_LISTED) {
+    lines.push(`… and ${changed.length - MAX_LISTED} more`);
+  }
+  return [`${changed.length} file(s) changed, +${added} -${removed}`, ...lines];
+}
+
+function checkChangedPaths(changed: ChangedFile[], rules: NonNullable<VerificationGit['changedPaths']>): string[] {
+  const failures: string[] = [];
+  const paths = changed.map(file => file.path);
+  
+  for (const pattern of rules.must || []) {
+    if (!paths.some(file => matchesGlob(file, pattern))) {
+      failures.push(`changedPaths.must: nothing matching "${pattern}" changed`);
+    }
+  }
+  
+  for (const pattern of rules.mustNot || []) {
+    const offending = paths.filter(file => matchesGlob(file, pattern));
+    if (offending.length > 0) {
+      failures.push(`changedPaths.mustNot: "${pattern}" matched ${listPaths(offending)}`);
+    }
+  }
+  
+  if (rules.only) {
+    const outside = paths.filter(file => !matchesGlob(file, rules.only!));
+    if (outside.length > 0) {
+      failures.push(`changedPaths.only: changed outside ${rules.only.join(', ')}: ${listPaths(outside)}`);
+    }
+  }
+  
+  return failures;
+}
+
+function checkLineCounts(changed: ChangedFile[], rules: NonNullable<VerificationGit['lines']>): string[] {
+  const failures: string[] = [];
+  
+  for (const rule of rules) {
+    const files = changed.filter(file => matchesGlob(file.path, rule.path));
+    if (files.length === 0) {
+      failures.push(`lines ${rule.path}: no changed file matches`);
+      continue;
+    }
+    
+    for (const file of files) {
+      const added = rule.added && checkRange(file.added, rule.added);
+      const removed = rule.removed && checkRange(file.removed, rule.removed);
+      if (added) failures.push(`lines ${file.path} added: ${added}`);
+      if (removed) failures.push(`lines ${file.path} removed: ${removed}`);
+    }
+  }
+  
+  return failures;
+}
+
+/**
+ * Compile the spec's regular expressions before running git, so a bad one fails the check up front
+ */
+function compilePatterns(spec: VerificationGit): GitPatterns {
+  const compile = (field: string, source: string | undefined, flags?: string): RegExp | undefined => {
+    if (source === undefined) return undefined;
+    try {
+      return new RegExp(source, flags);
+    } catch (error: any) {
+      throw new GitError(`Invalid pattern for ${field}: ${error.message}`);
+    }
+  };
+  
+  return {
+    message: compile('commit.message', spec.commit?.message, 'm'),
+    author: compile('commit.author', spec.commit?.author, 'i'),
+    diff: compile('diff.matches', spec.diff?.matches)
+  };
+}
+
+function checkDiff(hunks: DiffHunk[], rules: NonNullable<VerificationGit['diff']>, pattern: RegExp | undefined, evidence: string[]): string[] {
+  const failures: string[] = [];
+  const shown = new Set<DiffHunk>();
+  
+  const find = (prefix: '+' | '-', test: (line: string) => boolean) =>
+    hunks.filter(hunk => hunk.lines.some(line => line.startsWith(prefix) && test(line.slice(1))));
+  
+  const expectations: Array<[string, '+' | '-', (line: string) => boolean]> = [
+    ...toArray(rules.added).map((term): [string, '+', (line: string) => boolean] =>
+      [`diff.added: "${term}" not found in added lines`, '+', line => line.includes(term)]),
+    ...toArray(rules.removed).map((term): [string, '-', (line: string) => boolean] =>
+      [`diff.removed: "${term}" not found in removed lines`, '-', line => line.includes(term)])
+  ];
+  if (pattern) {
+    expectations.push([`diff.matches: no added line matches /${rules.matches}/`, '+', line => pattern.test(line)]);
+  }
+  
+  for (const [failure, prefix, test] of expectations) {
+    const matching = find(prefix, test);
+    if (matching.length === 0) {
+      failures.push(failure);
+    }
+    matching.forEach(hunk => shown.add(hunk));
+  }
+  
+  for (const hunk of [...shown].slice(0, MAX_HUNKS)) {
+    const lines = hunk.lines.length > MAX_HUNK_LINES ? [...hunk.lines.slice(0, MAX_HUNK_LINES), '…'] : hunk.lines;
+    evidence.push([`${hunk.file} ${hunk.header}`, ...lines].join('\n'));
+  }
+  
+  return failures;
+}
+
+/**
+ * Split a unified diff into hunks, remembering which file each belongs to
+ */
+function parsePatch(patch: string): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let file = '';
+  let current: DiffHunk | undefined;
+  
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      current = undefined;
+    } else if (!current && line.startsWith('--- ')) {
+      file = line.slice(4).replace(/^a\//, '');
+    } else if (!current && line.startsWith('+++ ') && line !== '+++ /dev/null') {
+      file = line.slice(4).replace(/^b\//, '');
+    } else if (line.startsWith('@@')) {
+      current = { file, header: line, lines: [] };
+      hunks.push(current);
+    } else if (current && /^[ +\-\\]/.test(line)) {
+      current.lines.push(line);
+    }
+  }
+  
+  return hunks;
+}
+
+/**
+ * Untracked files in the whole repository, relative to its root like the paths `git diff` prints
+ */
+async function untrackedFiles(git: (...args: string[]) => Promise<string>): Promise<string[]> {
+  return (await git('ls-files', '--others', '--exclude-standard', '--full-name', '-z', ':(top)')).split('\0').filter(Boolean);
+}
+
+/**
+ * An untracked text file as a hunk of added lines
+ */
+function untrackedHunk(root: string, file: string): DiffHunk | undefined {
+  try {
+    const fullPath = path.join(root, file);
+    if (fs.statSync(fullPath).size > MAX_UNTRACKED_SIZE) return undefined;
+    
+    const content = fs.readFileSync(fullPath, 'utf-8');
+    if (content.includes('\0')) return undefined;
+    
+    const lines = content.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return { file, header: `@@ -0,0 +1,${lines.length} @@ (untracked)`, lines: lines.map(line => `+${line}`) };
+  } catch {
+    return undefined;
+  }
+}
+
+function listPaths(paths: string[]): string {
+  return paths.length > 10 ? `${paths.slice(0, 10).join(', ')} and ${paths.length - 10} more` : paths.join(', ');
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
\ No newline at end of file
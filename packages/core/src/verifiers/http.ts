@@ -0,0 +1,240 @@
+/**
+ * HTTP Verifier
+ * Checks that an endpoint really answers the way a claim says it does
+ */
+
+import { VerificationResult, VerificationHttp, VerifyOptions, NumericRange, HttpEvidence } from '../types';
+import { BaseVerifier } from './base';
+import { CancelledError, TimeoutError } from '../errors';
+import { abortable, sleep, withTimeout } from '../timing';
+import { checkRange, checkText } from '../expectation';
+import { excerpt, REDACTED, secretMatcher } from '../evidence';
+
+interface PreparedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+interface HttpExchange {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  duration: number;
+}
+
+const NOT_READY = [502, 503, 504];
+const BODY_EXCERPT = 2000;
+
+export class HttpVerifier extends BaseVerifier {
+  async verify(spec: VerificationHttp, expected?: any, options: VerifyOptions = {}): Promise<VerificationResult> {
+    const request = prepareRequest(spec);
+    const redact = secretMatcher(spec.redact);
+    const evidence = describeRequest(request, redact);
+    const label = `HTTP ${request.method} ${redactUrl(request.url, redact)}`;
+    const progress = { attempts: 0 };
+    const timestamp = new Date();
+    const record = (outcome: Partial<HttpEvidence>): HttpEvidence[] => [{
+      kind: 'http',
+      method: request.method,
+      url: redactUrl(request.url, redact),
+      attempts: progress.attempts,
+      ...outcome,
+      timestamp
+    }];
+    
+    // Aborting this also stops any in-flight request or ready-wait once we are done
+    const controller = new AbortController();
+    let exchange: HttpExchange;
+    try {
+      exchange = await withTimeout(abortable(this.send(request, spec, controller.signal, progress), options.signal), options.timeout, label);
+    } catch (error: any) {
+      if (error instanceof TimeoutError) {
+        return { ...this.createTimeoutResult(error, expected), evidence, records: record({ error: error.message }) };
+      }
+      if (error instanceof CancelledError) {
+        return { ...this.createCancelledResult(error, expected), evidence, records: record({ error: error.message }) };
+      }
+      
+      const reason = error.cause?.message || error.message;
+      const attempts = progress.attempts > 1 ? ` (after ${progress.attempts} attempts)` : '';
+      return { ...this.createResult(false, `${label} failed: ${reason}${attempts}`, undefined, expected), evidence, records: record({ error: reason }) };
+    } finally {
+      controller.abort();
+    }
+    
+    evidence.push(...describeResponse(exchange, progress.attempts, redact));
+    
+    const status = spec.status ?? (typeof expected === 'number' ? expected : { gte: 200, lt: 300 });
+    const failures = [
+      ...checkStatus(exchange.status, status),
+      ...checkHeaders(exchange.headers, spec.responseHeaders || {}),
+      ...(spec.responseBody ? checkText(exchange.body, spec.responseBody, 'body') : [])
+    ];
+    
+    if (spec.maxResponseTime !== undefined && exchange.duration > spec.maxResponseTime) {
+      failures.push(`responseTime: expected ≤ ${spec.maxResponseTime}ms, took ${exchange.duration}ms`);
+    }
+    
+    const summary = `${label} → ${exchange.status} in ${exchange.duration}ms`;
+    return {
+      ...this.createResult(
+        failures.length === 0,
+        failures.length === 0 ? summary : `${summary}: ${failures.join('; ')}`,
+        exchange.status,
+        status
+      ),
+      duration: exchange.duration,
+      evidence,
+      records: record({ status: exchange.status, body: excerpt(redactBody(exchange.body, redact, Infinity)), duration: exchange.duration })
+    };
+  }
+  
+  /**
+   * Send the request, retrying while the service is not ready yet
+   */
+  private async send(
+    request: PreparedRequest,
+    spec: VerificationHttp,
+    signal: AbortSignal,
+    progress: { attempts: number }
+  ): Promise<HttpExchange> {
+    const readyUntil = spec.ready ? Date.now() + (spec.ready.timeout ?? 30000) : 0;
+    
+    while (true) {
+      progress.attempts++;
+      const started = Date.now();
+      
+      try {
+        const response = await fetch(request.url, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+          signal
+        });
+        const body = await response.text();
+        const exchange = {
+          status: response.status,
+          statusText: response.statusText,
+          headers: Object.fromEntries(response.headers),
+          body,
+          duration: Date.now() - started
+        };
+        
+        if (!NOT_READY.includes(exchange.status) || Date.now() >= readyUntil) {
+          return exchange;
+        }
+      } catch (error) {
+        if (signal.aborted || Date.now() >= readyUntil) {
+          throw error;
+        }
+      }
+      
+      await sleep(spec.ready?.interval ?? 500, signal);
+    }
+  }
+}
+
+function prepareRequest(spec: VerificationHttp): PreparedRequest {
+  const headers: Record<string, string> = { ...spec.headers };
+  let body: string | undefined;
+  
+  if (typeof spec.body === 'string') {
+    body = spec.body;
+  } else if (spec.body !== undefined) {
+    body = JSON.stringify(spec.body);
+    if (!Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      headers['content-type'] = 'application/json';
+    }
+  }
+  
+  return { method: (spec.method || 'GET').toUpperCase(), url: spec.url, headers, body };
+}
+
+function checkStatus(actual: number, expected: number | number[] | NumericRange): string[] {
+  if (typeof expected === 'number' || Array.isArray(expected)) {
+    const allowed = Array.isArray(expected) ? expected : [expected];
+    return allowed.includes(actual) ? [] : [`status: expected ${allowed.join(' or ')}, got ${actual}`];
+  }
+  
+  const failure = checkRange(actual, expected);
+  return failure ? [`status: ${failure}`] : [];
+}
+
+function checkHeaders(headers: Record<string, string>, expected: NonNullable<VerificationHttp['responseHeaders']>): string[] {
+  const failures: string[] = [];
+  
+  for (const [name, matcher] of Object.entries(expected)) {
+    const value = headers[name.toLowerCase()];
+    const label = `header ${name}`;
+    
+    if (typeof matcher === 'boolean') {
+      if ((value !== undefined) !== matcher) {
+        failures.push(`${label}: expected to be ${matcher ? 'present' : 'absent'}`);
+      }
+    } else if (value === undefined) {
+      failures.push(`${label}: missing`);
+    } else if (typeof matcher === 'string') {
+      if (value !== matcher) {
+        failures.push(`${label}: expected "${matcher}", got "${value}"`);
+      }
+    } else {
+      failures.push(...checkText(value, matcher, label));
+    }
+  }
+  
+  return failures;
+}
+
+/**
+ * Hide passwords and secret-looking query parameters in a URL
+ */
+export function redactUrl(url: string, isSecret: (name: string) => boolean = secretMatcher()): string {
+  try {
+    const parsed = new URL(url);
+    if (parsed.password) {
+      parsed.password = REDACTED;
+    }
+    for (const name of [...parsed.searchParams.keys()]) {
+      if (isSecret(name)) {
+        parsed.searchParams.set(name, REDACTED);
+      }
+    }
+    return parsed.toString().split(encodeURIComponent(REDACTED)).join(REDACTED);
+  } catch {
+    return url;
+  }
+}
+
+function redactHeaders(headers: Record<string, string>, isSecret: (name: string) => boolean): string[] {
+  return Object.entries(headers).map(([name, value]) => `${name}: ${isSecret(name) ? REDACTED : value}`);
+}
+
+function redactBody(body: string, isSecret: (name: string) => boolean, limit: number = BODY_EXCERPT): string {
+  let text = body;
+  try {
+    text = JSON.stringify(JSON.parse(body), (key, value) => key && isSecret(key) ? REDACTED : value);
+  } catch {
+    // Not JSON; shown as sent
+  }
+  return text.length > limit ? text.slice(0, limit) + '…' : text;
+}
+
+function describeRequest(request: PreparedRequest, isSecret: (name: string) => boolean): string[] {
+  return [
+    `→ ${request.method} ${redactUrl(request.url, isSecret)}`,
+    ...redactHeaders(request.headers, isSecret).map(line => `→ ${line}`),
+    ...(request.body !== undefined ? [`→ ${redactBody(request.body, isSecret)}`] : [])
+  ];
+}
+
+function describeResponse(exchange: HttpExchange, attempts: number, isSecret: (name: string) => boolean): string[] {
+  const retried = attempts > 1 ? ` after ${attempts} attempts` : '';
+  return [
+    `← ${exchange.status} ${exchange.statusText} in ${exchange.duration}ms${retried}`,
+    ...redactHeaders(exchange.headers, isSecret).map(line => `← ${line}`),
+    ...(exchange.body ? [`← ${redactBody(exchange.body, isSecret)}`] : [])
+  ];
+}
\ No newline at end of file
@@ -0,0 +1,391 @@
+/**
+ * Source Verifier
+ * Checks structural claims about TypeScript code with the compiler API, not grep
+ */
+
+import { EvidenceRecord, SourceExport, SourceSignature, VerificationResult, VerificationSource, VerifyOptions } from '../types';
+import { BaseVerifier } from './base';
+import { cancellationReason } from '../timing';
+import { TimeoutError } from '../errors';
+import { matchesGlob } from '../glob';
+import { fileRecord } from '../evidence';
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const DEFAULT_FILES = ['**/*.{ts,tsx,mts,cts}'];
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'coverage']);
+const MAX_LOCATIONS = 20;
+
+const DEFAULT_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  esModuleInterop: true,
+  skipLibCheck: true,
+  allowJs: true,
+  noEmit: true
+};
+
+interface Analysis {
+  cwd: string;
+  configPath?: string;
+  program: ts.Program;
+  checker: ts.TypeChecker;
+  files: ts.SourceFile[];
+}
+
+export class SourceVerifier extends BaseVerifier {
+  async verify(spec: VerificationSource, expected?: any, options: VerifyOptions = {}): Promise<VerificationResult> {
+    // The compiler runs synchronously, so cancellation is only noticed before it starts, and a timeout
+    // only once it finishes: a check that overran its time fails then instead of passing late
+    if (options.signal?.aborted) {
+      return this.createCancelledResult(cancellationReason(options.signal), expected);
+    }
+    const started = Date.now();
+    const overran = () => options.timeout !== undefined && Date.now() - started >= options.timeout;
+    const timedOut = () => this.createTimeoutResult(new TimeoutError(`Source checks timed out after ${options.timeout}ms`, options.timeout!), expected);
+    
+    let analysis: Analysis;
+    try {
+      analysis = analyse(spec);
+    } catch (error: any) {
+      return this.createResult(false, `Could not load sources: ${error.message}`, undefined, expected);
+    }
+    if (overran()) {
+      return timedOut();
+    }
+    
+    const failures: string[] = [];
+    const evidence: string[] = [`Analysed ${analysis.files.length} file(s) in ${analysis.cwd}`];
+    const records: EvidenceRecord[] = [
+      ...(analysis.configPath ? [fileRecord(analysis.configPath)] : []),
+      ...analysis.files.map(file => fileRecord(file.fileName, file.text))
+    ];
+    
+    for (const assertion of spec.exports || []) {
+      failures.push(...checkExport(analysis, assertion, evidence));
+    }
+    for (const assertion of spec.signatures || []) {
+      failures.push(...checkSignature(analysis, assertion, evidence));
+    }
+    for (const assertion of spec.implements || []) {
+      failures.push(...checkImplements(analysis, assertion, evidence));
+    }
+    for (const callee of spec.noCalls || []) {
+      failures.push(...checkNoCalls(analysis, callee, evidence));
+    }
+    if (spec.typechecks) {
+      failures.push(...checkTypes(analysis, evidence));
+    }
+    if (overran()) {
+      return { ...timedOut(), evidence, records };
+    }
+    
+    return {
+      ...this.createResult(
+        failures.length === 0,
+        failures.length === 0 ? 'Source checks passed' : `Source checks failed: ${failures.join('; ')}`,
+        undefined,
+        expected
+      ),
+      evidence,
+      records
+    };
+  }
+}
+
+function analyse(spec: VerificationSource): Analysis {
+  const cwd = path.resolve(spec.cwd || process.cwd());
+  const configPath = spec.tsconfig
+    ? path.resolve(cwd, spec.tsconfig)
+    : fs.existsSync(path.join(cwd, 'tsconfig.json')) && !spec.files ? path.join(cwd, 'tsconfig.json') : undefined;
+  
+  let rootNames: string[];
+  let compilerOptions = DEFAULT_OPTIONS;
+  
+  if (configPath) {
+    const config = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (config.error) {
+      throw new Error(ts.flattenDiagnosticMessageText(config.error.messageText, '\n'));
+    }
+    const parsed = ts.parseJsonConfigFileContent(config.config, ts.sys, path.dirname(configPath));
+    compilerOptions = { ...parsed.options, noEmit: true };
+    rootNames = spec.files
+      ? parsed.fileNames.filter(file => matchesGlob(relativePath(cwd, file), spec.files!))
+      : parsed.fileNames;
+  } else {
+    rootNames = walk(cwd, cwd).filter(file => matchesGlob(file, spec.files || DEFAULT_FILES)).map(file => path.join(cwd, file));
+  }
+  
+  const program = ts.createProgram(rootNames, compilerOptions);
+  const roots = new Set(rootNames.map(file => path.resolve(file)));
+  return {
+    cwd,
+    configPath,
+    program,
+    checker: program.getTypeChecker(),
+    files: program.getSourceFiles().filter(file => roots.has(path.resolve(file.fileName)))
+  };
+}
+
+function checkExport(analysis: Analysis, assertion: SourceExport, evidence: string[]): string[] {
+  const label = `export ${assertion.name} from ${assertion.file}`;
+  const sourceFile = findFile(analysis, assertion.file);
+  if (!sourceFile) {
+    return [`${label}: file not found`];
+  }
+  
+  const moduleSymbol = analysis.checker.getSymbolAtLocation(sourceFile);
+  const exported = moduleSymbol ? analysis.checker.getExportsOfModule(moduleSymbol) : [];
+  const symbol = exported.find(candidate => candidate.name === assertion.name);
+  
+  if (assertion.exists === false) {
+    if (!symbol) return [];
+    evidence.push(...symbolLocations(analysis, symbol).map(location => `Still exported: ${location}`));
+    return [`${label}: still exported`];
+  }
+  
+  if (!symbol) {
+    return [`${label}: not exported`];
+  }
+  
+  const kind = symbolKind(analysis.checker, symbol);
+  evidence.push(...symbolLocations(analysis, symbol).map(location => `Exported ${kind}: ${location}`));
+  if (assertion.kind && assertion.kind !== kind) {
+    return [`${label}: is a ${kind}, not a ${assertion.kind}`];
+  }
+  return [];
+}
+
+function checkSignature(analysis: Analysis, assertion: SourceSignature, evidence: string[]): string[] {
+  const { checker } = analysis;
+  const label = `signature of ${assertion.name}`;
+  const declarations = findFunctions(analysis, assertion.name, assertion.file);
+  if (declarations.length === 0) {
+    return [`${label}: function not found`];
+  }
+  
+  const failures: string[] = [];
+  for (const declaration of declarations) {
+    const signature = checker.getSignatureFromDeclaration(declaration);
+    if (!signature) continue;
+    
+    const where = location(analysis, declaration);
+    const parameters = signature.getParameters().map(parameter => ({
+      name: parameter.name,
+      type: checker.typeToString(checker.getTypeOfSymbolAtLocation(parameter, declaration))
+    }));
+    const returns = checker.typeToString(signature.getReturnType());
+    const actual = `(${parameters.map(parameter => `${parameter.name}: ${parameter.type}`).join(', ')}) => ${returns}`;
+    evidence.push(`${where} ${assertion.name}${actual}`);
+    
+    if (assertion.parameters) {
+      const matches = assertion.parameters.length === parameters.length && assertion.parameters.every((wanted, index) => {
+        const given = wanted.includes(':') ? `${parameters[index].name}: ${parameters[index].type}` : parameters[index].type;
+        return normalizeType(wanted) === normalizeType(given);
+      });
+      if (!matches) {
+        failures.push(`${label} at ${where}: expected parameters (${assertion.parameters.join(', ')}), got ${actual}`);
+      }
+    }
+    if (assertion.returns !== undefined && normalizeType(assertion.returns) !== normalizeType(returns)) {
+      failures.push(`${label} at ${where}: expected return type ${assertion.returns}, got ${returns}`);
+    }
+  }
+  
+  return failures;
+}
+
+function checkImplements(
+  analysis: Analysis,
+  assertion: NonNullable<VerificationSource['implements']>[number],
+  evidence: string[]
+): string[] {
+  const label = `${assertion.class} implements ${assertion.interface}`;
+  const classes: ts.ClassDeclaration[] = [];
+  
+  for (const sourceFile of filesMatching(analysis, assertion.file)) {
+    visit(sourceFile, node => {
+      if (ts.isClassDeclaration(node) && node.name?.text === assertion.class) {
+        classes.push(node);
+      }
+    });
+  }
+  
+  if (classes.length === 0) {
+    return [`${label}: class not found`];
+  }
+  
+  const failures: string[] = [];
+  for (const declaration of classes) {
+    const clause = findImplementsClause(analysis.checker, declaration, assertion.interface, new Set());
+    if (clause) {
+      evidence.push(`${location(analysis, clause)} ${assertion.class} implements ${clause.getText()}`);
+    } else {
+      failures.push(`${label}: not declared at ${location(analysis, declaration)}`);
+    }
+  }
+  return failures;
+}
+
+/**
+ * The implements clause naming the interface, on the class or one of its base classes
+ */
+function findImplementsClause(
+  checker: ts.TypeChecker,
+  declaration: ts.ClassLikeDeclaration,
+  interfaceName: string,
+  seen: Set<ts.Node>
+): ts.ExpressionWithTypeArguments | undefined {
+  if (seen.has(declaration)) return undefined;
+  seen.add(declaration);
+  
+  for (const clause of declaration.heritageClauses || []) {
+    for (const type of clause.types) {
+      if (clause.token === ts.SyntaxKind.ImplementsKeyword) {
+        const symbol = checker.getTypeAtLocation(type.expression).getSymbol() || checker.getSymbolAtLocation(type.expression);
+        if (symbol?.name === interfaceName || type.expression.getText() === interfaceName) {
+          return type;
+        }
+      } else {
+        const base = checker.getTypeAtLocation(type.expression).getSymbol()?.declarations?.find(ts.isClassLike);
+        const inherited = base && findImplementsClause(checker, base, interfaceName, seen);
+        if (inherited) return inherited;
+      }
+    }
+  }
+  return undefined;
+}
+
+function checkNoCalls(analysis: Analysis, callee: string, evidence: string[]): string[] {
+  const wanted = callee.replace(/\s+/g, '').replace(/\(\)$/, '');
+  const found: string[] = [];
+  
+  for (const sourceFile of analysis.files) {
+    visit(sourceFile, node => {
+      if (!ts.isCallExpression(node) && !ts.isNewExpression(node)) return;
+      
+      const text = node.expression.getText(sourceFile).replace(/\s+/g, '').replace(/\?\./g, '.');
+      const name = ts.isPropertyAccessExpression(node.expression) ? node.expression.name.text : text;
+      if (text === wanted || text.endsWith(`.${wanted}`) || (!wanted.includes('.') && name === wanted)) {
+        found.push(`${location(analysis, node)} ${node.getText(sourceFile).split('\n')[0]}`);
+      }
+    });
+  }
+  
+  if (found.length === 0) return [];
+  evidence.push(...found.slice(0, MAX_LOCATIONS).map(call => `Call: ${call}`));
+  return [`noCalls: ${callee} is called ${found.length} time(s)`];
+}
+
+function checkTypes(analysis: Analysis, evidence: string[]): string[] {
+  const diagnostics = [
+    ...analysis.program.getOptionsDiagnostics(),
+    ...analysis.files.flatMap(file => [
+      ...analysis.program.getSyntacticDiagnostics(file),
+      ...analysis.program.getSemanticDiagnostics(file)
+    ])
+  ].filter(diagnostic => diagnostic.category === ts.DiagnosticCategory.Error);
+  
+  if (diagnostics.length === 0) {
+    evidence.push('Typecheck: 0 errors');
+    return [];
+  }
+  
+  evidence.push(...diagnostics.slice(0, MAX_LOCATIONS).map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, ' ');
+    const where = diagnostic.file && diagnostic.start !== undefined ? `${location(analysis, diagnostic.file, diagnostic.start)} ` : '';
+    return `${where}TS${diagnostic.code}: ${message}`;
+  }));
+  return [`typechecks: ${diagnostics.length} error(s)`];
+}
+
+/**
+ * Function-like declarations named `name`, or `Class.method`
+ */
+function findFunctions(analysis: Analysis, name: string, file?: string): ts.SignatureDeclaration[] {
+  const [owner, member] = name.includes('.') ? name.split('.', 2) : [undefined, name];
+  const found: ts.SignatureDeclaration[] = [];
+  
+  for (const sourceFile of filesMatching(analysis, file)) {
+    visit(sourceFile, node => {
+      if (owner) {
+        if ((ts.isMethodDeclaration(node) || ts.isMethodSignature(node)) && node.name.getText(sourceFile) === member) {
+          const parent = node.parent;
+          if ((ts.isClassLike(parent) || ts.isInterfaceDeclaration(parent)) && parent.name?.text === owner) {
+            found.push(node);
+          }
+        }
+      } else if (ts.isFunctionDeclaration(node) && node.name?.text === member) {
+        found.push(node);
+      } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === member &&
+        node.initializer && (ts.isArrowFunction(node.initializer) || ts.isFunctionExpression(node.initializer))) {
+        found.push(node.initializer);
+      }
+    });
+  }
+  
+  return found;
+}
+
+function filesMatching(analysis: Analysis, file?: string): ts.SourceFile[] {
+  if (!file) return analysis.files;
+  const sourceFile = findFile(analysis, file);
+  return sourceFile ? [sourceFile] : [];
+}
+
+function findFile(analysis: Analysis, file: string): ts.SourceFile | undefined {
+  const wanted = path.resolve(analysis.cwd, file);
+  return analysis.program.getSourceFiles().find(candidate => path.resolve(candidate.fileName) === wanted);
+}
+
+function symbolKind(checker: ts.TypeChecker, symbol: ts.Symbol): NonNullable<SourceExport['kind']> {
+  const flags = (symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol).flags;
+  if (flags & ts.SymbolFlags.Function) return 'function';
+  if (flags & ts.SymbolFlags.Class) return 'class';
+  if (flags & ts.SymbolFlags.Interface) return 'interface';
+  if (flags & ts.SymbolFlags.Enum) return 'enum';
+  if (flags & ts.SymbolFlags.TypeAlias) return 'type';
+  return 'variable';
+}
+
+function symbolLocations(analysis: Analysis, symbol: ts.Symbol): string[] {
+  const target = symbol.flags & ts.SymbolFlags.Alias ? analysis.checker.getAliasedSymbol(symbol) : symbol;
+  return (target.declarations || []).map(declaration => location(analysis, declaration));
+}
+
+function location(analysis: Analysis, node: ts.Node | ts.SourceFile, position?: number): string {
+  const sourceFile = ts.isSourceFile(node) ? node : node.getSourceFile();
+  const start = position ?? node.getStart(sourceFile);
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(start);
+  return `${relativePath(analysis.cwd, sourceFile.fileName)}:${line + 1}:${character + 1}`;
+}
+
+function visit(node: ts.Node, callback: (node: ts.Node) => void): void {
+  callback(node);
+  ts.forEachChild(node, child => visit(child, callback));
+}
+
+function walk(root: string, directory: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+    
+    const fullPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walk(root, fullPath));
+    } else if (!entry.name.endsWith('.d.ts')) {
+      files.push(relativePath(root, fullPath));
+    }
+  }
+  return files;
+}
+
+function relativePath(cwd: string, file: string): string {
+  return path.relative(cwd, file).replace(/\\/g, '/');
+}
+
+function normalizeType(type: string): string {
+  return type.replace(/\s+/g, '').replace(/;(?=})/g, '');
+}
\ No newline at end of file
@@ -0,0 +1,406 @@
+/**
+ * Test Report Verifier
+ * Proves that specific tests exist and passed, from the report the test runner wrote
+ */
+
+import { EvidenceRecord, VerificationResult, VerificationTests, VerifyOptions } from '../types';
+import { BaseVerifier } from './base';
+import { TimeoutError } from '../errors';
+import { cancellationReason } from '../timing';
+import { runCommand } from '../executor';
+import { commandRecord, fileRecord } from '../evidence';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type TestReportFormat = 'junit' | 'tap' | 'json';
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestCaseResult {
+  name: string;
+  suite: string;        // Enclosing suites joined with ' › '; empty at the top level
+  file?: string;
+  status: TestStatus;
+  focused?: boolean;    // Reported as .only / focused
+  message?: string;     // First line of the failure
+}
+
+export interface TestReport {
+  format: TestReportFormat;
+  tests: TestCaseResult[];
+}
+
+const MAX_LISTED = 20;
+const ONLY_CALL = /\b(?:it|test|describe|suite|context)\.only\s*\(/;
+
+export class TestReportVerifier extends BaseVerifier {
+  async verify(spec: VerificationTests, expected?: any, options: VerifyOptions = {}): Promise<VerificationResult> {
+    return this.recording(records => this.check(spec, expected, options, records));
+  }
+  
+  private async check(spec: VerificationTests, expected: any, options: VerifyOptions, records: EvidenceRecord[]): Promise<VerificationResult> {
+    const cwd = path.resolve(spec.cwd || process.cwd());
+    const reportPath = path.resolve(cwd, spec.report);
+    const evidence: string[] = [];
+    
+    const invalid = invalidNamePattern(spec);
+    if (invalid) {
+      return this.createResult(false, invalid, undefined, expected);
+    }
+    
+    if (spec.command) {
+      const started = Date.now();
+      const output = await runCommand(spec.command, {
+        cwd,
+        timeout: options.timeout,
+        signal: options.signal,
+        onOutput: options.onOutput
+      }).catch(error => error as Error);
+      
+      if (output instanceof Error) {
+        return this.createResult(false, `Command could not be started: ${output.message}`, undefined, expected);
+      }
+      records.push(commandRecord(spec.command, output, { cwd }));
+      if (output.cancelled) {
+        return this.createCancelledResult(cancellationReason(options.signal!), expected);
+      }
+      if (output.timedOut) {
+        return this.createTimeoutResult(new TimeoutError(`Command timed out after ${options.timeout}ms: ${spec.command}`, options.timeout!), expected);
+      }
+      
+      evidence.push(`Ran: ${spec.command} (exit code ${output.exitCode}, ${output.duration}ms)`);
+      // A report left over from an earlier run proves nothing about this one
+      if (fs.existsSync(reportPath) && fs.statSync(reportPath).mtimeMs < started - 1000) {
+        return { ...this.createResult(false, `Test report was not updated by the command: ${reportPath}`, undefined, expected), evidence };
+      }
+    }
+    
+    let report: TestReport;
+    try {
+      const content = fs.readFileSync(reportPath, 'utf-8');
+      records.push(fileRecord(reportPath, content));
+      report = parseTestReport(content, spec.format);
+    } catch (error: any) {
+      return { ...this.createResult(false, `Could not read test report ${reportPath}: ${error.message}`, undefined, expected), evidence };
+    }
+    
+    const counts = countTests(report.tests);
+    evidence.push(`Report: ${reportPath} (${report.format}): ${counts.passed} passed, ${counts.failed} failed, ${counts.skipped} skipped`);
+    
+    const failures: string[] = [];
+    const minTests = spec.minTests ?? 1;
+    if (counts.passed + counts.failed < minTests) {
+      failures.push(`minTests: expected at least ${minTests} test(s) to run, got ${counts.passed + counts.failed}`);
+    }
+    
+    let failed = report.tests.filter(test => test.status === 'failed');
+    if (spec.baseline) {
+      try {
+        const baselinePath = path.resolve(cwd, spec.baseline);
+        const content = fs.readFileSync(baselinePath, 'utf-8');
+        records.push(fileRecord(baselinePath, content));
+        const baseline = parseTestReport(content);
+        const knownFailures = new Set(baseline.tests.filter(test => test.status === 'failed').map(fullName));
+        evidence.push(`Baseline: ${spec.baseline}: ${knownFailures.size} failing before`);
+        failed = failed.filter(test => !knownFailures.has(fullName(test)));
+      } catch (error: any) {
+        failures.push(`baseline: could not read ${spec.baseline}: ${error.message}`);
+      }
+    }
+    if (failed.length > 0) {
+      failures.push(`${spec.baseline ? 'new failures' : 'failed'}: ${listTests(failed)}`);
+      evidence.push(...failed.slice(0, MAX_LISTED).map(test => `Failed: ${fullName(test)}${test.message ? ` (${test.message})` : ''}`));
+    }
+    
+    for (const name of spec.tests || []) {
+      const matching = report.tests.filter(test => matchesName(name, [test.name, fullName(test)]));
+      if (matching.length === 0) {
+        failures.push(`tests: "${name}" not found`);
+      } else if (matching.some(test => test.status !== 'passed')) {
+        failures.push(`tests: "${name}" did not pass (${matching.map(test => test.status).join(', ')})`);
+      } else {
+        evidence.push(...matching.map(test => `Passed: ${fullName(test)}`));
+      }
+    }
+    
+    for (const name of spec.suites || []) {
+      const matching = report.tests.filter(test => inSuite(test, name));
+      const notPassing = matching.filter(test => test.status !== 'passed');
+      if (matching.length === 0) {
+        failures.push(`suites: "${name}" not found`);
+      } else if (notPassing.length > 0) {
+        failures.push(`suites: "${name}" has ${notPassing.length} test(s) not passing: ${listTests(notPassing)}`);
+      } else {
+        evidence.push(`Suite passed: ${name} (${matching.length} tests)`);
+      }
+    }
+    
+    if (spec.noSkipped) {
+      const skipped = report.tests.filter(test => test.status === 'skipped');
+      if (skipped.length > 0) {
+        failures.push(`noSkipped: ${skipped.length} test(s) skipped: ${listTests(skipped)}`);
+      }
+    }
+    
+    if (spec.noOnly) {
+      const focused = report.tests.filter(test => test.focused).map(fullName);
+      const calls = findOnlyCalls(report.tests, cwd);
+      if (focused.length > 0 || calls.length > 0) {
+        failures.push(`noOnly: focused tests found (${[...focused, ...calls].slice(0, 10).join(', ')})`);
+        evidence.push(...calls.map(call => `.only at ${call}`));
+      }
+    }
+    
+    const summary = `${counts.passed} passed, ${counts.failed} failed, ${counts.skipped} skipped`;
+    return {
+      ...this.createResult(
+        failures.length === 0,
+        failures.length === 0 ? `Test report verified: ${summary}` : `Test report check failed: ${failures.join('; ')}`,
+        counts,
+        expected
+      ),
+      evidence
+    };
+  }
+}
+
+/**
+ * Parse a JUnit XML, TAP or vitest/jest JSON test report
+ */
+export function parseTestReport(content: string, format?: TestReportFormat): TestReport {
+  const text = content.trim();
+  const detected = format || (text.startsWith('{') ? 'json' : text.startsWith('<') ? 'junit' : 'tap');
+  
+  switch (detected) {
+    case 'json': return { format: detected, tests: parseJsonReport(text) };
+    case 'junit': return { format: detected, tests: parseJUnit(text) };
+    default: return { format: 'tap', tests: parseTap(text) };
+  }
+}
+
+/**
+ * vitest and jest share this shape: testResults[].assertionResults[]
+ */
+function parseJsonReport(text: string): TestCaseResult[] {
+  const data = JSON.parse(text);
+  if (!Array.isArray(data.testResults)) {
+    throw new Error('not a vitest/jest JSON report (no testResults)');
+  }
+  
+  const tests: TestCaseResult[] = [];
+  for (const file of data.testResults) {
+    const filePath: string | undefined = file.name || file.testFilePath;
+    const assertions: any[] = file.assertionResults || file.testResults || [];
+    
+    // A file that failed to load has no assertions, only a message
+    if (assertions.length === 0 && file.status === 'failed') {
+      tests.push({ name: '(file failed to run)', suite: filePath || '', file: filePath, status: 'failed', message: firstLine(file.message || file.failureMessage) });
+    }
+    
+    for (const assertion of assertions) {
+      tests.push({
+        name: assertion.title,
+        suite: (assertion.ancestorTitles || []).join(' › '),
+        file: filePath,
+        status: assertion.status === 'passed' || assertion.status === 'focused' ? 'passed'
+          : assertion.status === 'failed' ? 'failed' : 'skipped',
+        focused: assertion.status === 'focused' || assertion.mode === 'only' || undefined,
+        message: firstLine((assertion.failureMessages || [])[0])
+      });
+    }
+  }
+  
+  return tests;
+}
+
+function parseJUnit(text: string): TestCaseResult[] {
+  const xml = text.replace(/<!--[\s\S]*?-->/g, '').replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '');
+  const tag = /<(\/?)([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const tests: TestCaseResult[] = [];
+  const suites: Array<{ name: string; file?: string }> = [];
+  let current: TestCaseResult | undefined;
+  let match: RegExpExecArray | null;
+  
+  while ((match = tag.exec(xml))) {
+    const [, closing, name, rawAttributes, selfClosing] = match;
+    const attributes = parseAttributes(rawAttributes);
+    
+    if (name === 'testsuite') {
+      if (closing) {
+        suites.pop();
+      } else if (!selfClosing) {
+        // Nested suites belong to the file of the suite around them unless they name their own
+        const file = attributes.file || attributes.filepath || suites[suites.length - 1]?.file;
+        suites.push({ name: attributes.name || '', file });
+      }
+    } else if (name === 'testcase') {
+      if (closing) {
+        current = undefined;
+      } else {
+        const suite = suites[suites.length - 1];
+        current = {
+          name: attributes.name || '',
+          suite: suites.map(entry => entry.name).filter(Boolean).join(' › '),
+          file: attributes.file || suite?.file,
+          status: 'passed'
+        };
+        tests.push(current);
+        if (selfClosing) current = undefined;
+      }
+    } else if (current && !closing && (name === 'failure' || name === 'error')) {
+      current.status = 'failed';
+      current.message = firstLine(attributes.message || attributes.type);
+    } else if (current && !closing && name === 'skipped') {
+      current.status = 'skipped';
+    }
+  }
+  
+  if (tests.length === 0 && !/<testsuites?\b/.test(xml)) {
+    throw new Error('not a JUnit XML report');
+  }
+  return tests;
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, , value] of raw.matchAll(/([\w:.-]+)\s*=\s*(["'])([\s\S]*?)\2/g)) {
+    attributes[name] = decodeEntities(value);
+  }
+  return attributes;
+}
+
+function decodeEntities(value: string): string {
+  const named: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+    }
+    return named[code] ?? entity;
+  });
+}
+
+/**
+ * TAP, including indented subtests: a test point whose subtests precede it is a suite
+ */
+function parseTap(text: string): TestCaseResult[] {
+  const levels: TestCaseResult[][] = [];
+  const point = /^(\s*)(not )?ok\b\s*(?:\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+)[^\n]*)?$/i;
+  let sawPlanOrPoint = false;
+  let inDiagnostics = false;
+  
+  for (const line of text.split('\n')) {
+    // YAML diagnostic blocks between --- and ...
+    if (/^\s*---\s*$/.test(line)) {
+      inDiagnostics = true;
+    } else if (/^\s*\.\.\.\s*$/.test(line)) {
+      inDiagnostics = false;
+    }
+    if (inDiagnostics) continue;
+    
+    if (/^\s*\d+\.\.\d+/.test(line) || /^TAP version/i.test(line)) {
+      sawPlanOrPoint = true;
+    }
+    
+    const match = line.match(point);
+    if (!match) continue;
+    sawPlanOrPoint = true;
+    
+    const [, indent, notOk, name, directive] = match;
+    const depth = Math.floor(indent.replace(/\t/g, '    ').length / 4);
+    const children = levels[depth + 1] || [];
+    levels[depth + 1] = [];
+    levels[depth] = levels[depth] || [];
+    
+    if (children.length > 0) {
+      for (const child of children) {
+        child.suite = child.suite ? `${name} › ${child.suite}` : name;
+      }
+      levels[depth].push(...children);
+      continue;
+    }
+    
+    const skip = directive && /^(skip|todo)$/i.test(directive);
+    levels[depth].push({
+      name,
+      suite: '',
+      status: skip ? 'skipped' : notOk ? 'failed' : 'passed'
+    });
+  }
+  
+  if (!sawPlanOrPoint) {
+    throw new Error('not a TAP report');
+  }
+  return levels.flat();
+}
+
+function countTests(tests: TestCaseResult[]): Record<TestStatus, number> {
+  const counts = { passed: 0, failed: 0, skipped: 0 };
+  tests.forEach(test => counts[test.status]++);
+  return counts;
+}
+
+function fullName(test: TestCaseResult): string {
+  return test.suite ? `${test.suite} › ${test.name}` : test.name;
+}
+
+function isNamePattern(name: string): boolean {
+  return name.length > 1 && name.startsWith('/') && name.endsWith('/');
+}
+
+/**
+ * Describe the first /regex/ test or suite name that does not compile, so it fails the check before anything runs
+ */
+function invalidNamePattern(spec: VerificationTests): string | undefined {
+  for (const [field, names] of [['tests', spec.tests], ['suites', spec.suites]] as const) {
+    for (const name of (names || []).filter(isNamePattern)) {
+      try {
+        new RegExp(name.slice(1, -1));
+      } catch (error: any) {
+        return `Invalid pattern for ${field}: ${error.message}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+function matchesName(pattern: string, candidates: string[]): boolean {
+  if (isNamePattern(pattern)) {
+    const regex = new RegExp(pattern.slice(1, -1));
+    return candidates.some(candidate => regex.test(candidate));
+  }
+  return candidates.includes(pattern);
+}
+
+function inSuite(test: TestCaseResult, name: string): boolean {
+  return matchesName(name, [test.suite, ...test.suite.split(' › ')]) ||
+    (test.file !== undefined && (test.file === name || test.file.endsWith(`/${name}`)));
+}
+
+/**
+ * Look for .only( in the test files the report names
+ */
+function findOnlyCalls(tests: TestCaseResult[], cwd: string): string[] {
+  const calls: string[] = [];
+  const files = new Set(tests.map(test => test.file).filter((file): file is string => Boolean(file)));
+  
+  for (const file of files) {
+    const fullPath = path.resolve(cwd, file);
+    if (!fs.existsSync(fullPath)) continue;
+    
+    fs.readFileSync(fullPath, 'utf-8').split('\n').forEach((line, index) => {
+      if (ONLY_CALL.test(line)) {
+        calls.push(`${path.relative(cwd, fullPath)}:${index + 1}`);
+      }
+    });
+  }
+  
+  return calls;
+}
+
+function listTests(tests: TestCaseResult[]): string {
+  const names = tests.slice(0, 10).map(fullName);
+  return tests.length > 10 ? `${names.join(', ')} and ${tests.length - 10} more` : names.join(', ');
+}
+
+function firstLine(text?: string): string | undefined {
+  return text ? text.trim().split('\n')[0] : undefined;
+}
\ No newline at end of file
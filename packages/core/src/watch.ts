@@ -0,0 +1,354 @@
+/**
+ * Watch Mode
+ * Re-verify intents as the files they cover change, so an agent editing in real time is
+ * checked while it works rather than when it claims to be done
+ */
+
+import { IntentExecutionResult, WatchConfig, WatchedIntent } from './types';
+import { Intent } from './intent';
+import { LoadedIntent, loadIntents } from './definition';
+import { matchesGlob } from './glob';
+import { IgnoreRule, SKIPPED_DIRS, isIgnored, readIgnoreRules } from './workspace';
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const DEFAULT_WATCH_CONFIG = 'intentproof.config.json';
+
+const DEFAULT_DEBOUNCE = 300;
+const UNWATCHED_DIRS = new Set(['node_modules']);
+
+interface WatchedDirectory {
+  watcher: fs.FSWatcher;
+  rules: IgnoreRule[];
+  recursive: boolean;
+}
+
+interface ActiveRun {
+  file: string;
+  intent?: Intent;
+  superseded: boolean;
+}
+
+/**
+ * Read and check a watch config. Intent files and globs in it are relative to the config's directory.
+ */
+export function loadWatchConfig(file: string = DEFAULT_WATCH_CONFIG): WatchConfig {
+  const filePath = path.resolve(file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Watch config not found: ${filePath}`);
+  }
+  
+  const config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  const watch = config?.watch;
+  if (!watch || typeof watch !== 'object' || Array.isArray(watch) || Object.keys(watch).length === 0) {
+    throw new Error(`${file}: "watch" must map globs to intent files, e.g. { "src/**/*.ts": "intent.json" }`);
+  }
+  for (const [pattern, intents] of Object.entries(watch)) {
+    if (typeof intents !== 'string' && !(Array.isArray(intents) && intents.every(intent => typeof intent === 'string'))) {
+      throw new Error(`${file}: watch["${pattern}"] must be an intent file or a list of them`);
+    }
+  }
+  if (config.debounce !== undefined && !(typeof config.debounce === 'number' && config.debounce >= 0)) {
+    throw new Error(`${file}: "debounce" must be a number of milliseconds`);
+  }
+  if (config.ignore !== undefined && !(Array.isArray(config.ignore) && config.ignore.every((glob: any) => typeof glob === 'string'))) {
+    throw new Error(`${file}: "ignore" must be a list of globs`);
+  }
+  
+  return { watch, debounce: config.debounce, ignore: config.ignore };
+}
+
+/**
+ * Watches the files a config maps to intents and re-runs the affected intents, one at a time, after
+ * changes settle. A change that affects the intent being run cancels it and queues it again.
+ *
+ * Events: 'status' (WatchedIntent) whenever one changes, 'change' ({ paths, files }) for each settled
+ * batch of changes, 'result' ({ file, intent, result, definition }) after every intent run, and 'warning' (string).
+ */
+export class IntentWatcher extends EventEmitter {
+  public readonly root: string;
+  private config: WatchConfig;
+  private intents = new Map<string, WatchedIntent>();
+  private directories = new Map<string, WatchedDirectory>();
+  private changed = new Set<string>();
+  private pending = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private active?: ActiveRun;
+  private draining?: Promise<void>;
+  private stopped = false;
+  
+  constructor(config: WatchConfig, root: string = process.cwd()) {
+    super();
+    this.config = config;
+    this.root = path.resolve(root);
+    
+    for (const [pattern, files] of Object.entries(config.watch)) {
+      for (const file of Array.isArray(files) ? files : [files]) {
+        const relative = toRelative(this.root, path.resolve(this.root, file));
+        const watched = this.intents.get(relative);
+        if (watched) {
+          watched.patterns.push(pattern);
+        } else {
+          this.intents.set(relative, { file: relative, patterns: [pattern], status: 'pending', goals: [], runIds: [], runs: 0, updatedAt: new Date().toISOString() });
+        }
+      }
+    }
+  }
+  
+  /**
+   * Every watched intent file, in config order
+   */
+  get statuses(): WatchedIntent[] {
+    return [...this.intents.values()].map(watched => ({ ...watched }));
+  }
+  
+  /**
+   * Start watching, and verify every intent once to know where each stands
+   */
+  async start(): Promise<void> {
+    const trees = new Set<string>();
+    for (const watched of this.intents.values()) {
+      watched.patterns.forEach(pattern => trees.add(globBase(pattern)));
+    }
+    
+    for (const tree of trees) {
+      if (fs.existsSync(path.join(this.root, tree))) {
+        await this.watchDirectory(tree, true);
+      } else {
+        this.emit('warning', `${tree} does not exist; changes under it are not watched`);
+      }
+    }
+    // Intent files are watched too, so editing one runs it again
+    for (const file of this.intents.keys()) {
+      const directory = path.posix.dirname(file) === '.' ? '' : path.posix.dirname(file);
+      if (!this.directories.has(directory)) {
+        await this.watchDirectory(directory, false);
+      }
+    }
+    
+    this.schedule([...this.intents.keys()]);
+  }
+  
+  /**
+   * Stop watching and cancel the run in progress
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    for (const { watcher } of this.directories.values()) {
+      watcher.close();
+    }
+    this.directories.clear();
+    this.pending.clear();
+    
+    if (this.active) {
+      this.active.superseded = true;
+      this.active.intent?.cancel('Watch stopped');
+    }
+    await this.draining;
+  }
+  
+  /**
+   * Report changed paths (relative to the root), as the file watcher does; runs follow once they settle
+   */
+  notify(paths: string[]): void {
+    if (this.stopped) return;
+    
+    paths.forEach(changed => this.changed.add(changed));
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.settle(), this.config.debounce ?? DEFAULT_DEBOUNCE);
+  }
+  
+  private settle(): void {
+    const paths = [...this.changed].sort();
+    this.changed.clear();
+    
+    const files = [...this.intents.values()]
+      .filter(watched => paths.some(changed => changed === watched.file || matchesGlob(changed, watched.patterns)))
+      .map(watched => watched.file);
+    this.emit('change', { paths, files });
+    
+    for (const file of files) {
+      this.intents.get(file)!.trigger = paths.filter(changed => changed === file || matchesGlob(changed, this.intents.get(file)!.patterns));
+    }
+    this.schedule(files);
+  }
+  
+  private schedule(files: string[]): void {
+    for (const file of files) {
+      this.pending.add(file);
+      if (this.active?.file === file) {
+        this.active.superseded = true;
+        this.active.intent?.cancel('Superseded by newer changes');
+      } else {
+        this.update(file, { status: 'pending', step: undefined });
+      }
+    }
+    
+    if (!this.draining && this.pending.size > 0) {
+      this.draining = this.drain()
+        .catch(error => { this.emit('warning', `Watch runs stopped: ${error.message}`); })
+        .finally(() => {
+          this.draining = undefined;
+        });
+    }
+  }
+  
+  private async drain(): Promise<void> {
+    while (!this.stopped && this.pending.size > 0) {
+      const file = [...this.intents.keys()].find(candidate => this.pending.has(candidate))!;
+      this.pending.delete(file);
+      await this.run(file);
+    }
+  }
+  
+  private async run(file: string): Promise<void> {
+    const active: ActiveRun = { file, superseded: false };
+    this.active = active;
+    const started = Date.now();
+    this.update(file, { status: 'running', step: undefined, failedStep: undefined, failureReason: undefined, runIds: [] });
+    
+    // A file that does not load, or an intent that throws instead of failing, is an error for that file alone
+    const results: IntentExecutionResult[] = [];
+    try {
+      const loaded: LoadedIntent[] = await loadIntents(path.join(this.root, file));
+      this.update(file, { goals: loaded.map(({ intent }) => intent.goal) });
+      
+      for (const { intent, definition } of loaded) {
+        if (active.superseded) break;
+        
+        active.intent = intent;
+        intent.on('step:start', ({ step }) => this.update(file, { step }));
+        const result = await intent.execute();
+        results.push(result);
+        this.emit('result', { file, intent, result, definition });
+        if (!result.success) break;
+      }
+    } catch (error: any) {
+      this.update(file, {
+        status: 'error',
+        step: undefined,
+        failureReason: error.message,
+        duration: Date.now() - started,
+        runIds: results.map(result => result.runId).filter(Boolean) as string[],
+        runs: this.intents.get(file)!.runs + 1
+      });
+      return;
+    } finally {
+      this.active = undefined;
+    }
+    
+    const failed = results.find(result => !result.success);
+    this.update(file, {
+      status: active.superseded || failed?.status === 'cancelled' ? 'cancelled' : failed ? 'failed' : 'passed',
+      step: undefined,
+      failedStep: failed?.failedStep,
+      failureReason: failed?.failureReason,
+      duration: Date.now() - started,
+      runIds: results.map(result => result.runId).filter(Boolean) as string[],
+      runs: this.intents.get(file)!.runs + 1
+    });
+  }
+  
+  private update(file: string, changes: Partial<WatchedIntent>): void {
+    const watched = { ...this.intents.get(file)!, ...changes, updatedAt: new Date().toISOString() };
+    this.intents.set(file, watched);
+    this.emit('status', { ...watched });
+  }
+  
+  // Watch one directory, and with `recursive` every directory below it, skipping ignored ones
+  private async watchDirectory(directory: string, recursive: boolean): Promise<void> {
+    const existing = this.directories.get(directory);
+    if (this.stopped || (existing && (existing.recursive || !recursive))) {
+      return;
+    }
+    existing?.watcher.close();
+    
+    const parent = directory.includes('/') ? directory.slice(0, directory.lastIndexOf('/')) : '';
+    const inherited = directory ? this.directories.get(parent)?.rules ?? await this.ancestorRules(directory) : [];
+    const rules = [...inherited, ...(await readIgnoreRules(this.root, directory))];
+    
+    let watcher: fs.FSWatcher;
+    try {
+      watcher = fs.watch(path.join(this.root, directory), (_event, name) => name && this.onEvent(directory, name.toString()));
+    } catch (error: any) {
+      this.emit('warning', `Cannot watch ${directory || '.'}: ${error.message}`);
+      return;
+    }
+    watcher.on('error', () => {
+      watcher.close();
+      this.directories.delete(directory);
+    });
+    this.directories.set(directory, { watcher, rules, recursive });
+    
+    if (recursive) {
+      const entries = await fs.promises.readdir(path.join(this.root, directory), { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const relative = directory ? `${directory}/${entry.name}` : entry.name;
+        if (entry.isDirectory() && !this.skipped(relative, rules, true)) {
+          await this.watchDirectory(relative, true);
+        }
+      }
+    }
+  }
+  
+  private onEvent(directory: string, name: string): void {
+    const watched = this.directories.get(directory);
+    const relative = directory ? `${directory}/${name}` : name;
+    if (!watched) return;
+    
+    let isDirectory = false;
+    try {
+      isDirectory = fs.statSync(path.join(this.root, relative)).isDirectory();
+    } catch {
+      // Deleted; a deletion is a change like any other
+    }
+    if (this.skipped(relative, watched.rules, isDirectory)) {
+      return;
+    }
+    
+    if (isDirectory) {
+      if (watched.recursive) {
+        this.watchDirectory(relative, true).catch(error => this.emit('warning', `Cannot watch ${relative}: ${error.message}`));
+      }
+      return;
+    }
+    this.notify([relative]);
+  }
+  
+  private skipped(relative: string, rules: IgnoreRule[], isDirectory: boolean): boolean {
+    const name = relative.slice(relative.lastIndexOf('/') + 1);
+    return (isDirectory && (SKIPPED_DIRS.has(name) || UNWATCHED_DIRS.has(name))) ||
+      isIgnored(rules, relative, isDirectory) ||
+      matchesGlob(isDirectory ? `${relative}/` : relative, this.config.ignore || []);
+  }
+  
+  // .gitignore rules from the directories above one that is watched on its own
+  private async ancestorRules(directory: string): Promise<IgnoreRule[]> {
+    const rules: IgnoreRule[] = [];
+    const segments = directory.split('/');
+    for (let depth = 0; depth < segments.length; depth++) {
+      rules.push(...(await readIgnoreRules(this.root, segments.slice(0, depth).join('/'))));
+    }
+    return rules;
+  }
+}
+
+/**
+ * The directory a glob can match under: everything before its first wildcard
+ */
+function globBase(pattern: string): string {
+  const normalized = pattern.replace(/\\/g, '/').replace(/^\.\//, '');
+  if (!normalized.includes('/')) {
+    return '';  // A bare name matches at any depth
+  }
+  
+  const segments = normalized.split('/');
+  const wildcard = segments.findIndex(segment => /[*?[{]/.test(segment));
+  return (wildcard === -1 ? segments.slice(0, -1) : segments.slice(0, wildcard)).join('/');
+}
+
+function toRelative(root: string, filePath: string): string {
+  return path.relative(root, filePath).split(path.sep).join('/');
+}
\ No newline at end of file
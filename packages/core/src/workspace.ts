@@ -0,0 +1,381 @@
+/**
+ * Workspace Snapshots
+ * Hash every file before and after an intent runs, so claims about edits can be
+ * checked against what actually changed on disk
+ */
+
+import {
+  ChangeCount,
+  ChangeScope,
+  VerificationResult,
+  WorkspaceChange,
+  WorkspaceChangeExpectation,
+  WorkspaceChangeSet,
+  WorkspaceEvidence,
+  WorkspaceFile,
+  WorkspaceOptions,
+  WorkspaceSnapshot
+} from './types';
+import { globToRegExp, matchesGlob } from './glob';
+import { checkRange } from './expectation';
+import { canonicalJson, sha256 } from './attestation';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+const MAX_LISTED = 20;
+const MAX_LINE_HASHED_SIZE = 1024 * 1024;
+export const SKIPPED_DIRS = new Set(['.git', '.intentproof']);  // Version control, and IntentProof's own store and keys
+
+export interface IgnoreRule {
+  base: string;        // Directory of the .gitignore, relative to the root ('' for the root)
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Hash the files under a root. Paths are relative and '/'-separated.
+ */
+export async function snapshotWorkspace(options: WorkspaceOptions = {}): Promise<WorkspaceSnapshot> {
+  const root = path.resolve(options.root || process.cwd());
+  const files: Record<string, WorkspaceFile> = {};
+  const timestamp = new Date();
+  
+  const visit = async (directory: string, inherited: IgnoreRule[]): Promise<void> => {
+    const rules = options.gitignore === false ? inherited : [...inherited, ...(await readIgnoreRules(root, directory))];
+    const entries = await fs.promises.readdir(path.join(root, directory), { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+    
+    for (const entry of entries) {
+      const relative = directory ? `${directory}/${entry.name}` : entry.name;
+      
+      if (entry.isDirectory()) {
+        if (SKIPPED_DIRS.has(entry.name) || isIgnored(rules, relative, true) || matchesGlob(`${relative}/`, options.exclude || [])) {
+          continue;
+        }
+        await visit(relative, rules);
+      } else if (entry.isFile() || entry.isSymbolicLink()) {
+        if (isIgnored(rules, relative, false) || !isSelected(relative, options)) {
+          continue;
+        }
+        files[relative] = await hashFile(path.join(root, relative), entry.isSymbolicLink(), options.lines);
+      }
+    }
+  };
+  
+  await visit('', []);
+  return { root, files, timestamp };
+}
+
+/**
+ * Compare two snapshots of the same root
+ */
+export function diffSnapshots(before: WorkspaceSnapshot, after: WorkspaceSnapshot): WorkspaceChangeSet {
+  const changes: WorkspaceChangeSet = {
+    root: after.root,
+    added: [],
+    modified: [],
+    deleted: [],
+    unchanged: 0,
+    before: before.timestamp,
+    after: after.timestamp,
+    beforeHash: snapshotHash(before),
+    afterHash: snapshotHash(after)
+  };
+  
+  for (const [filePath, file] of Object.entries(after.files)) {
+    const previous = before.files[filePath];
+    if (!previous) {
+      changes.added.push({ path: filePath, change: 'added', size: file.size, hash: file.hash, ...countLines(undefined, file) });
+    } else if (previous.hash !== file.hash) {
+      changes.modified.push({
+        path: filePath,
+        change: 'modified',
+        size: file.size,
+        hash: file.hash,
+        previousSize: previous.size,
+        previousHash: previous.hash,
+        ...countLines(previous, file)
+      });
+    } else {
+      changes.unchanged++;
+    }
+  }
+  
+  for (const [filePath, previous] of Object.entries(before.files)) {
+    if (!after.files[filePath]) {
+      changes.deleted.push({
+        path: filePath,
+        change: 'deleted',
+        previousSize: previous.size,
+        previousHash: previous.hash,
+        ...countLines(previous, undefined)
+      });
+    }
+  }
+  
+  return changes;
+}
+
+/**
+ * Hash identifying a snapshot's content: its paths, sizes and file hashes
+ */
+export function snapshotHash(snapshot: WorkspaceSnapshot): string {
+  const files = Object.fromEntries(Object.entries(snapshot.files).map(([filePath, file]) => [filePath, { size: file.size, hash: file.hash }]));
+  return sha256(canonicalJson(files));
+}
+
+/**
+ * Every change in a change set, in added, modified, deleted order
+ */
+export function listChanges(changes: WorkspaceChangeSet): WorkspaceChange[] {
+  return [...changes.added, ...changes.modified, ...changes.deleted];
+}
+
+/**
+ * Check a change set against an expectation; every key present must hold
+ */
+export function checkChanges(changes: WorkspaceChangeSet, expectation: WorkspaceChangeExpectation): VerificationResult {
+  const failures: string[] = [];
+  const all = listChanges(changes);
+  const evidence = [
+    `${changes.added.length} added, ${changes.modified.length} modified, ${changes.deleted.length} deleted, ${changes.unchanged} unchanged under ${changes.root}`,
+    ...all.slice(0, MAX_LISTED).map(describeChange),
+    ...(all.length > MAX_LISTED ? [`... and ${all.length - MAX_LISTED} more`] : [])
+  ];
+  
+  const kinds: Array<['added' | 'modified' | 'deleted' | 'changed', WorkspaceChange[]]> = [
+    ['added', changes.added],
+    ['modified', changes.modified],
+    ['deleted', changes.deleted],
+    ['changed', all]
+  ];
+  for (const [kind, candidates] of kinds) {
+    for (const entry of expectation[kind] || []) {
+      const { path: pattern, count } = toChangeCount(entry);
+      const matched = candidates.filter(change => matchesGlob(change.path, pattern));
+      const failure = checkRange(matched.length, count);
+      if (failure) {
+        failures.push(`${kind} ${pattern}: ${failure}`);
+      }
+    }
+  }
+  
+  if (expectation.only) {
+    const outside = all.filter(change => !matchesGlob(change.path, expectation.only!));
+    if (outside.length > 0) {
+      failures.push(`only ${expectation.only.join(', ')}: ${outside.length} change(s) outside (${summarize(outside)})`);
+    }
+  }
+  
+  if (expectation.unchanged) {
+    const touched = all.filter(change => matchesGlob(change.path, expectation.unchanged!));
+    if (touched.length > 0) {
+      failures.push(`unchanged ${expectation.unchanged.join(', ')}: ${touched.length} change(s) (${summarize(touched)})`);
+    }
+  }
+  
+  const label = expectation.name ? `${expectation.name}: ` : '';
+  return {
+    success: failures.length === 0,
+    message: failures.length === 0
+      ? `${label}Workspace changes match (${all.length} file(s) changed)`
+      : `${label}Workspace changes do not match: ${failures.join('; ')}`,
+    actual: { added: changes.added.length, modified: changes.modified.length, deleted: changes.deleted.length },
+    expected: expectation,
+    evidence: failures.length === 0 ? evidence : [...failures, ...evidence],
+    records: [workspaceRecord(changes)],
+    timestamp: new Date()
+  };
+}
+
+/**
+ * Check a change set against a declared scope: where changes may happen and how
+ * many. Line budgets only count files whose lines were hashed (text files up to 1MB).
+ */
+export function checkScope(changes: WorkspaceChangeSet, scope: ChangeScope): VerificationResult {
+  const failures: string[] = [];
+  const evidence: string[] = [];
+  const all = listChanges(changes);
+  
+  if (scope.allowed) {
+    const outside = all.filter(change => !matchesGlob(change.path, scope.allowed!));
+    if (outside.length > 0) {
+      failures.push(`${outside.length} file(s) changed outside ${scope.allowed.join(', ')} (${summarize(outside)})`);
+      evidence.push(...outside.slice(0, MAX_LISTED).map(change => `Out of scope: ${describeChange(change)}`));
+    }
+  }
+  
+  if (scope.maxFiles !== undefined && all.length > scope.maxFiles) {
+    failures.push(`${all.length} files changed, budget is ${scope.maxFiles}`);
+  }
+  
+  if (scope.maxLines !== undefined) {
+    const counted = all.filter(change => change.linesAdded !== undefined || change.linesRemoved !== undefined);
+    const lines = counted.reduce((sum, change) => sum + (change.linesAdded || 0) + (change.linesRemoved || 0), 0);
+    if (lines > scope.maxLines) {
+      const largest = [...counted].sort((a, b) => lineCount(b) - lineCount(a)).slice(0, 5);
+      failures.push(`${lines} lines changed, budget is ${scope.maxLines} (largest: ${largest.map(change => `${change.path} ${lineCount(change)}`).join(', ')})`);
+    }
+    evidence.push(`${lines} line(s) changed across ${counted.length} text file(s)`);
+  }
+  
+  evidence.unshift(`${all.length} file(s) changed under ${changes.root}`);
+  
+  return {
+    success: failures.length === 0,
+    message: failures.length === 0
+      ? `Changes within scope (${all.length} file(s))`
+      : `Out of scope: ${failures.join('; ')}`,
+    actual: all.map(change => change.path),
+    expected: scope,
+    evidence,
+    records: [workspaceRecord(changes)],
+    timestamp: new Date()
+  };
+}
+
+function workspaceRecord(changes: WorkspaceChangeSet): WorkspaceEvidence {
+  return {
+    kind: 'workspace',
+    root: changes.root,
+    added: changes.added.length,
+    modified: changes.modified.length,
+    deleted: changes.deleted.length,
+    unchanged: changes.unchanged,
+    timestamp: changes.after
+  };
+}
+
+function lineCount(change: WorkspaceChange): number {
+  return (change.linesAdded || 0) + (change.linesRemoved || 0);
+}
+
+/**
+ * Lines added and removed, comparing the lines of both versions as multisets, so
+ * moving a line within a file does not count
+ */
+function countLines(before: WorkspaceFile | undefined, after: WorkspaceFile | undefined): Pick<WorkspaceChange, 'linesAdded' | 'linesRemoved'> {
+  if ((before && !before.lines) || (after && !after.lines)) {
+    return {};
+  }
+  
+  const remaining = new Map<string, number>();
+  for (const line of before?.lines || []) {
+    remaining.set(line, (remaining.get(line) || 0) + 1);
+  }
+  
+  let linesAdded = 0;
+  for (const line of after?.lines || []) {
+    const count = remaining.get(line) || 0;
+    if (count > 0) {
+      remaining.set(line, count - 1);
+    } else {
+      linesAdded++;
+    }
+  }
+  
+  let linesRemoved = 0;
+  for (const count of remaining.values()) {
+    linesRemoved += count;
+  }
+  
+  return { linesAdded, linesRemoved };
+}
+
+function toChangeCount(entry: string | ChangeCount): Required<ChangeCount> {
+  return typeof entry === 'string' ? { path: entry, count: { gte: 1 } } : { path: entry.path, count: entry.count || { gte: 1 } };
+}
+
+function describeChange(change: WorkspaceChange): string {
+  switch (change.change) {
+    case 'added':
+      return `+ ${change.path} (${change.size} bytes, sha256 ${change.hash!.slice(0, 12)})`;
+    case 'deleted':
+      return `- ${change.path} (was ${change.previousSize} bytes)`;
+    default:
+      return `~ ${change.path} (${change.previousSize} → ${change.size} bytes, sha256 ${change.hash!.slice(0, 12)})`;
+  }
+}
+
+function summarize(changes: WorkspaceChange[]): string {
+  const listed = changes.slice(0, 5).map(change => `${change.change} ${change.path}`).join(', ');
+  return changes.length > 5 ? `${listed}, ...` : listed;
+}
+
+function isSelected(relative: string, options: WorkspaceOptions): boolean {
+  if (options.include && !matchesGlob(relative, options.include)) return false;
+  return !matchesGlob(relative, options.exclude || []);
+}
+
+async function hashFile(fullPath: string, symlink: boolean, lines?: boolean): Promise<WorkspaceFile> {
+  // A symlink is recorded by its target, not followed
+  const content = symlink ? Buffer.from(await fs.promises.readlink(fullPath)) : await fs.promises.readFile(fullPath);
+  const file: WorkspaceFile = { size: content.length, hash: crypto.createHash('sha256').update(content).digest('hex') };
+  
+  if (lines && !symlink && content.length <= MAX_LINE_HASHED_SIZE && !content.includes(0)) {
+    const text = content.toString('utf-8');
+    file.lines = text === '' ? [] : text.replace(/\r?\n$/, '').split(/\r?\n/)
+      .map(line => crypto.createHash('sha1').update(line).digest('base64').slice(0, 12));
+  }
+  
+  return file;
+}
+
+/**
+ * Parse the .gitignore in a directory, if there is one
+ */
+export async function readIgnoreRules(root: string, directory: string): Promise<IgnoreRule[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path.join(root, directory, '.gitignore'), 'utf-8');
+  } catch {
+    return [];
+  }
+  
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+    
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, '$1');
+    
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) continue;
+    
+    rules.push({
+      base: directory,
+      pattern: globToRegExp(line, { anchored }),
+      negated,
+      directoryOnly
+    });
+  }
+  
+  return rules;
+}
+
+/**
+ * Apply rules in order, parent directories first; the last match wins
+ */
+export function isIgnored(rules: IgnoreRule[], relative: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    
+    const local = rule.base ? relative.slice(rule.base.length + 1) : relative;
+    if (rule.pattern.test(local)) {
+      ignored = !rule.negated;
+    }
+  }
+  
+  return ignored;
+}
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  canonicalJson,
+  chainLogEntry,
+  createReceipt,
+  generateSigningKeys,
+  GENESIS_HASH,
+  keyId,
+  logHead,
+  RECEIPT_TYPE,
+  verifyLogChain,
+  verifyReceipt
+} from '../src/attestation';
+import { Intent } from '../src/intent';
+import { AttestationReceipt, IntentExecutionResult, IntentPlan, VerificationResult } from '../src/types';
+
+function entry(source: string, success = true): VerificationResult {
+  return { success, message: `${source} checked`, source, timestamp: new Date('2026-01-01T00:00:00Z') };
+}
+
+function chain(entries: VerificationResult[]): VerificationResult[] {
+  entries.forEach((logged, index) => chainLogEntry(logged, entries[index - 1]));
+  return entries;
+}
+
+function copy(receipt: AttestationReceipt): AttestationReceipt {
+  return JSON.parse(JSON.stringify(receipt));
+}
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ z: 1, y: 2 }], c: undefined } })).toBe('{"a":{"d":[{"y":2,"z":1}]},"b":1}');
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+});
+
+describe('verification log chain', () => {
+  it('links each entry to the one before it', () => {
+    const log = chain([entry('preconditions'), entry('Build'), entry('postconditions')]);
+    
+    expect(log[0].previousHash).toBe(GENESIS_HASH);
+    expect(log[1].previousHash).toBe(log[0].hash);
+    expect(logHead(log)).toBe(log[2].hash);
+    expect(logHead([])).toBe(GENESIS_HASH);
+    expect(verifyLogChain(log)).toEqual([]);
+  });
+  
+  it('detects edited, removed, reordered and unchained entries', () => {
+    const edited = chain([entry('preconditions'), entry('Build')]);
+    edited[1].success = false;
+    expect(verifyLogChain(edited)).toEqual(['log[1] (Build): content does not match its hash']);
+    
+    const log = chain([entry('preconditions'), entry('Build'), entry('Test')]);
+    expect(verifyLogChain([log[0], log[2]])).toEqual(['log[1] (Test): does not follow the previous entry']);
+    expect(verifyLogChain([log[1], log[0], log[2]])).toEqual([
+      'log[0] (Build): does not follow the previous entry',
+      'log[1] (preconditions): does not follow the previous entry',
+      'log[2] (Test): does not follow the previous entry'
+    ]);
+    expect(verifyLogChain([entry('Build')])).toEqual(['log[0] (Build): not hash-chained']);
+  });
+});
+
+describe('receipts', () => {
+  let keys: { privateKey: string; publicKey: string };
+  let plan: IntentPlan;
+  let result: IntentExecutionResult;
+  
+  beforeAll(async () => {
+    keys = generateSigningKeys();
+    const intent = new Intent('Publish the package')
+      .step('Build', { verify: () => true })
+      .step('Publish', { verify: { type: 'command', command: 'node -e ""', env: { NPM_TOKEN: 'npm_abc' } }, dependencies: ['Build'] });
+    plan = intent.plan();
+    result = await intent.execute();
+  });
+  
+  it('signs a run that verifies offline with its own key or a trusted one', () => {
+    const receipt = createReceipt(plan, result, keys.privateKey);
+    
+    expect(result.success).toBe(true);
+    expect(receipt.payload).toMatchObject({
+      type: RECEIPT_TYPE,
+      intent: { id: result.intentId, goal: 'Publish the package' },
+      result: { success: true, status: 'completed', steps: [{ name: 'Build', status: 'completed' }, { name: 'Publish', status: 'completed' }] },
+      logHead: logHead(result.verificationLog)
+    });
+    expect(receipt.keyId).toBe(keyId(keys.publicKey));
+    
+    expect(verifyReceipt(copy(receipt))).toEqual({ valid: true, signatureValid: true, chainValid: true, trusted: false, keyId: receipt.keyId, errors: [] });
+    expect(verifyReceipt(copy(receipt), keys.publicKey)).toMatchObject({ valid: true, trusted: true });
+  });
+  
+  it('hides secret environment values in the signed definition', () => {
+    const receipt = createReceipt(plan, result, keys.privateKey);
+    
+    expect(JSON.stringify(receipt.payload.intent.definition)).not.toContain('npm_abc');
+    expect(verifyReceipt(copy(receipt)).valid).toBe(true);
+  });
+  
+  it('signs the declared definition when one is given', () => {
+    const declared = { goal: 'Publish the package', steps: [{ name: 'Build', verify: 'npm run build', env: { API_KEY: 'k' } }] };
+    const receipt = createReceipt(plan, result, keys.privateKey, declared);
+    
+    expect(receipt.payload.intent.definition).toEqual({ ...declared, steps: [{ ...declared.steps[0], env: { API_KEY: '[REDACTED]' } }] });
+    expect(verifyReceipt(copy(receipt)).valid).toBe(true);
+  });
+  
+  it('fails when the result is edited after signing', () => {
+    const receipt = copy(createReceipt(plan, result, keys.privateKey));
+    receipt.payload.result.success = false;
+    
+    expect(verifyReceipt(receipt)).toMatchObject({
+      valid: false,
+      signatureValid: false,
+      chainValid: true,
+      errors: ['Signature does not match the receipt contents']
+    });
+  });
+  
+  it('catches an edited log entry and a dropped last entry', () => {
+    const edited = copy(createReceipt(plan, result, keys.privateKey));
+    edited.payload.log[0].message = 'forged';
+    expect(verifyReceipt(edited).errors).toContain('log[0] (Build): content does not match its hash');
+    
+    const truncated = copy(createReceipt(plan, result, keys.privateKey));
+    truncated.payload.log.pop();
+    expect(verifyReceipt(truncated)).toMatchObject({ chainValid: false, signatureValid: false });
+    expect(verifyReceipt(truncated).errors).toContain('Log head does not match the last entry');
+  });
+  
+  it('fails when the definition no longer matches its hash', () => {
+    const receipt = copy(createReceipt(plan, result, keys.privateKey));
+    receipt.payload.intent.definition = { goal: 'Something else' };
+    
+    expect(verifyReceipt(receipt).errors).toContain('Intent definition does not match its hash');
+  });
+  
+  it('does not trust a receipt signed by another key', () => {
+    const other = generateSigningKeys();
+    const receipt = createReceipt(plan, result, other.privateKey);
+    
+    const verification = verifyReceipt(copy(receipt), keys.publicKey);
+    expect(verification).toMatchObject({ valid: false, trusted: false, signatureValid: false });
+    expect(verification.errors).toContain(`Signed by key ${keyId(other.publicKey)}, not the trusted key ${keyId(keys.publicKey)}`);
+  });
+  
+  it('reports an unreadable key', () => {
+    const receipt = copy(createReceipt(plan, result, keys.privateKey));
+    receipt.publicKey = 'not a key';
+    
+    expect(verifyReceipt(receipt).errors[0]).toMatch(/^Unreadable key or signature: /);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { getEventListeners } from 'events';
+import { Intent } from '../src/intent';
+import { CancelledError } from '../src/errors';
+import { abortable, sleep } from '../src/timing';
+
+describe('abortable', () => {
+  it('rejects with the reason the signal aborts with', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new CancelledError('stop')), 5);
+    const error = await abortable(sleep(500), controller.signal).catch(caught => caught);
+    
+    expect(error).toBeInstanceOf(CancelledError);
+    expect(error.message).toBe('stop');
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+  
+  it('rejects at once when the signal has already aborted', async () => {
+    await expect(sleep(500, AbortSignal.abort('gone'))).rejects.toThrow(new CancelledError('gone'));
+  });
+});
+
+describe('cancellation', () => {
+  // Slow first, then a step that notes whether it ran
+  function slowIntent(options = {}) {
+    const ran: string[] = [];
+    const intent = new Intent('Long job', options)
+      .step('Slow', { action: () => sleep(200), verify: () => true, rollback: async () => { ran.push('undo Slow'); } })
+      .step('After', { action: async () => { ran.push('After'); }, verify: () => true });
+    return { intent, ran };
+  }
+  
+  it('stops a run through cancel() and skips the remaining steps', async () => {
+    const { intent, ran } = slowIntent();
+    const skipped: Array<{ step: string; reason: string }> = [];
+    const cancelled: any[] = [];
+    intent.on('step:skipped', event => skipped.push(event));
+    intent.on('cancelled', event => cancelled.push(event));
+    setTimeout(() => intent.cancel('operator stopped it'), 20);
+    const started = Date.now();
+    const result = await intent.execute();
+    
+    expect(Date.now() - started).toBeLessThan(150);
+    expect(result).toMatchObject({ success: false, status: 'cancelled', failureReason: 'operator stopped it' });
+    expect(skipped).toEqual([{ step: 'Slow', reason: 'cancelled' }, { step: 'After', reason: 'cancelled' }]);
+    expect(cancelled).toEqual([{ step: 'Slow', reason: 'operator stopped it' }]);
+    expect(ran).toEqual([]);
+  });
+  
+  it('stops a run when the caller\'s signal aborts, and lets go of the signal after', async () => {
+    const { intent } = slowIntent();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new CancelledError('deploy window closed')), 20);
+    const result = await intent.execute({ signal: controller.signal });
+    
+    expect(result).toMatchObject({ status: 'cancelled', failureReason: 'deploy window closed' });
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+  
+  it('lets go of a signal that never aborts', async () => {
+    const controller = new AbortController();
+    await new Intent('Quick').step('Only', { verify: () => true }).execute({ signal: controller.signal });
+    
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+  
+  it('runs nothing when the signal has already aborted', async () => {
+    const { intent, ran } = slowIntent();
+    const result = await intent.execute({ signal: AbortSignal.abort(new CancelledError('too late')) });
+    
+    expect(result).toMatchObject({ status: 'cancelled', failureReason: 'too late' });
+    expect(ran).toEqual([]);
+  });
+  
+  it('rolls back completed steps only when rollbackOnCancel is set', async () => {
+    const cancelAfterFirst = (intent: Intent) => intent.on('step:complete', () => intent.cancel());
+    
+    const kept = slowIntent();
+    cancelAfterFirst(kept.intent);
+    expect((await kept.intent.execute()).status).toBe('cancelled');
+    expect(kept.ran).toEqual([]);
+    
+    const undone = slowIntent({ rollbackOnCancel: true });
+    cancelAfterFirst(undone.intent);
+    expect((await undone.intent.execute()).status).toBe('cancelled');
+    expect(undone.ran).toEqual(['undo Slow']);
+  });
+  
+  it('kills a command the cancelled step was running', async () => {
+    const intent = new Intent('Command').step('Sleep', { verify: 'sleep 5' });
+    setTimeout(() => intent.cancel(), 100);
+    const started = Date.now();
+    const result = await intent.execute();
+    
+    expect(result.status).toBe('cancelled');
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+  
+  it('ignores cancel() when nothing is running', () => {
+    const { intent } = slowIntent();
+    
+    expect(() => intent.cancel()).not.toThrow();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CoverageVerifier, readCoverageReport } from '../src/verifiers/coverage';
+import { VerificationCoverage } from '../src/types';
+
+// src/limit.ts: check() on lines 1-5 is covered, reset() on lines 7-10 never runs
+const LCOV = [
+  'TN:',
+  'SF:src/limit.ts',
+  'FN:1,check',
+  'FN:7,reset',
+  'FNDA:4,check',
+  'FNDA:0,reset',
+  'DA:2,4',
+  'DA:3,4',
+  'DA:4,1',
+  'DA:8,0',
+  'DA:9,0',
+  'BRDA:3,0,0,1',
+  'BRDA:3,0,1,-',
+  'end_of_record',
+  'SF:src/util.ts',
+  'DA:1,1',
+  'end_of_record',
+  ''
+].join('\n');
+
+function istanbul(filePath: string, hits: { s: number[]; f: number; b: number[] }) {
+  return {
+    [filePath]: {
+      path: filePath,
+      statementMap: {
+        0: { start: { line: 2, column: 0 }, end: { line: 2, column: 9 } },
+        1: { start: { line: 3, column: 0 }, end: { line: 3, column: 9 } },
+        2: { start: { line: 4, column: 0 }, end: { line: 4, column: 9 } }
+      },
+      s: { 0: hits.s[0], 1: hits.s[1], 2: hits.s[2] },
+      fnMap: { 0: { name: 'check', decl: { start: { line: 1 }, end: { line: 1 } }, loc: { start: { line: 1 }, end: { line: 5 } } } },
+      f: { 0: hits.f },
+      branchMap: { 0: { loc: { start: { line: 3 } }, type: 'if', locations: [] } },
+      b: { 0: hits.b }
+    }
+  };
+}
+
+let dir: string;
+const verifier = new CoverageVerifier();
+
+function write(file: string, content: string | object): void {
+  fs.writeFileSync(path.join(dir, file), typeof content === 'string' ? content : JSON.stringify(content));
+}
+
+function check(spec: Omit<VerificationCoverage, 'type'>) {
+  return verifier.verify({ type: 'coverage', cwd: dir, ...spec });
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-coverage-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('readCoverageReport', () => {
+  it('reads lcov, ending each function where the next begins', () => {
+    write('lcov.info', LCOV);
+    const report = readCoverageReport(path.join(dir, 'lcov.info'), dir);
+    const [limit, util] = report.files;
+    
+    expect(report.format).toBe('lcov');
+    expect(limit.path).toBe('src/limit.ts');
+    expect(limit.totals).toEqual({
+      lines: { covered: 3, total: 5 },
+      branches: { covered: 1, total: 2 },
+      functions: { covered: 1, total: 2 },
+      statements: { covered: 3, total: 5 }
+    });
+    expect(limit.functions).toEqual([
+      { name: 'check', start: 1, end: 6, hits: 4 },
+      { name: 'reset', start: 7, end: 9, hits: 0 }
+    ]);
+    expect(util.totals.lines).toEqual({ covered: 1, total: 1 });
+  });
+  
+  it('reads istanbul coverage-final.json, with paths relative to the working directory', () => {
+    write('coverage-final.json', istanbul(path.join(dir, 'src/limit.ts'), { s: [1, 0, 2], f: 1, b: [1, 0] }));
+    const report = readCoverageReport(path.join(dir, 'coverage-final.json'), dir);
+    
+    expect(report.format).toBe('istanbul');
+    expect(report.files[0].path).toBe('src/limit.ts');
+    expect(report.files[0].totals).toEqual({
+      lines: { covered: 2, total: 3 },
+      branches: { covered: 1, total: 2 },
+      functions: { covered: 1, total: 1 },
+      statements: { covered: 2, total: 3 }
+    });
+  });
+  
+  it('reads istanbul coverage-summary.json', () => {
+    const metric = (covered: number, total: number) => ({ covered, total, pct: total ? (covered / total) * 100 : 100 });
+    write('coverage-summary.json', {
+      total: { lines: metric(9, 10) },
+      'src/a.ts': { lines: metric(9, 10), branches: metric(1, 2), functions: metric(1, 1), statements: metric(9, 10) }
+    });
+    const report = readCoverageReport(path.join(dir, 'coverage-summary.json'), dir);
+    
+    expect(report.format).toBe('summary');
+    expect(report.files).toEqual([{ path: 'src/a.ts', totals: { lines: { covered: 9, total: 10 }, branches: { covered: 1, total: 2 }, functions: { covered: 1, total: 1 }, statements: { covered: 9, total: 10 } } }]);
+  });
+  
+  it('explains a report that cannot be read', () => {
+    expect(() => readCoverageReport(path.join(dir, 'missing.info'))).toThrow(/^Could not read coverage report .*missing\.info: ENOENT/);
+  });
+});
+
+describe('CoverageVerifier', () => {
+  beforeEach(() => {
+    write('lcov.info', LCOV);
+  });
+  
+  it('checks total and per-file thresholds', async () => {
+    const passing = await check({ report: 'lcov.info', thresholds: [{ lines: 60 }, { file: 'src/util.ts', lines: 100 }] });
+    expect(passing.success).toBe(true);
+    expect(passing.evidence![0]).toBe('Report: lcov.info (lcov), 2 files: lines 66.67% (4/6), branches 50% (1/2), functions 50% (1/2), statements 66.67% (4/6)');
+    
+    const failing = await check({ report: 'lcov.info', thresholds: [{ lines: 80, branches: 50 }, { file: 'src/*.ts', lines: 70 }, { file: 'lib/**', lines: 1 }] });
+    expect(failing.message).toBe('Coverage check failed: total: lines 66.67% (4/6) < 80%; src/limit.ts: lines 60% (3/5) < 70%; lib/**: no file in the report matches');
+    expect(failing.evidence).toContain('src/limit.ts: lines 60% (3/5), branches 50% (1/2), functions 50% (1/2), statements 60% (3/5); uncovered lines 8-9');
+  });
+  
+  it('checks a single function', async () => {
+    expect((await check({ report: 'lcov.info', thresholds: [{ function: 'check', lines: 100 }] })).success).toBe(true);
+    
+    const result = await check({ report: 'lcov.info', thresholds: [{ function: 'reset', lines: 50 }, { function: 'gone' }] });
+    expect(result.message).toBe('Coverage check failed: src/limit.ts:7 reset(): never called; src/limit.ts:7 reset(): lines 0% (0/2) < 50%; gone(): function not found in the report');
+  });
+  
+  it('needs line data for per-function thresholds', async () => {
+    write('coverage-summary.json', { 'src/a.ts': { lines: { covered: 1, total: 1, pct: 100 } } });
+    const result = await check({ report: 'coverage-summary.json', thresholds: [{ function: 'a', lines: 1 }] });
+    
+    expect(result.message).toBe('Coverage check failed: a(): per-function coverage needs coverage-final.json or lcov.info');
+  });
+  
+  it('fails when coverage dropped against the baseline', async () => {
+    write('baseline.json', istanbul(path.join(dir, 'src/limit.ts'), { s: [1, 1, 1], f: 1, b: [1, 1] }));
+    write('current.json', istanbul(path.join(dir, 'src/limit.ts'), { s: [1, 0, 1], f: 1, b: [1, 1] }));
+    
+    const dropped = await check({ report: 'current.json', baseline: 'baseline.json' });
+    expect(dropped.message).toBe('Coverage check failed: src/limit.ts: lines coverage dropped from 100.00% to 66.67%');
+    expect(dropped.evidence).toContain('Compared 1 file(s) against the baseline');
+    
+    expect((await check({ report: 'current.json', baseline: 'baseline.json', files: ['lib/**'] })).success).toBe(true);
+    expect((await check({ report: 'baseline.json', baseline: 'current.json' })).success).toBe(true);
+  });
+  
+  it('fails when a file left the report since the baseline', async () => {
+    write('baseline.json', istanbul(path.join(dir, 'src/gone.ts'), { s: [1, 1, 1], f: 1, b: [] }));
+    const result = await check({ report: 'lcov.info', baseline: 'baseline.json' });
+    
+    expect(result.message).toBe('Coverage check failed: src/gone.ts: no longer in the coverage report');
+  });
+  
+  it('fails when the report is missing', async () => {
+    const result = await check({ report: 'nope.info', thresholds: [{ lines: 1 }] });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/^Could not read coverage report/);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,397 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import Ajv from 'ajv';
+import { createIntent, intentSchema, loadIntent, loadIntents, parseIntentDefinition, validateDefinition } from '../src/definition';
+import { IntentValidationError } from '../src/errors';
+import { createRequire } from 'module';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Every kind of value the schema describes, valid throughout
+const FULL_DEFINITION = {
+  $schema: './intent.schema.json',
+  goal: 'Ship the feature',
+  options: {
+    parallel: true,
+    concurrency: 2,
+    rollbackOnFailure: true,
+    stopOnFailure: false,
+    maxRetries: 1,
+    retryDelay: 10,
+    backoff: 'linear',
+    timeout: 1000,
+    workspace: { root: '.', include: ['src/**'], exclude: ['dist/'], gitignore: true, lines: true },
+    id: 'feature'
+  },
+  preconditions: ['test -d src', { name: 'Node', check: { type: 'command', command: 'node', args: ['-v'], env: { CI: '1' } }, expect: 'exit 0', critical: false }],
+  invariants: [{ type: 'file', path: 'package.json', exists: true, contains: ['"name"'], size: { min: 1 }, modified: { after: '2020-01-01' } }],
+  steps: [
+    { name: 'Build', verify: 'npm run build', expect: { exitCode: { lte: 0 }, stdout: { contains: 'ok', json: [{ path: '$.ok', equals: true, length: { gte: 0 } }] }, not: { stderr: { empty: false } } }, timeout: 100, retries: 2, backoff: 'fixed' },
+    { name: 'State', dependencies: ['Build'], verify: { type: 'state', key: 'version', command: 'git rev-parse HEAD', equals: { any: ['thing'] } } },
+    { name: 'Health', verify: { type: 'http', url: 'http://localhost/health', method: 'POST', headers: { Accept: 'application/json' }, body: { ping: true }, status: [200, 204], responseHeaders: { 'x-ok': true, etag: { matches: '^W/' } }, maxResponseTime: 500, ready: { timeout: 100, interval: 10 }, redact: ['session'] } },
+    { name: 'Git', verify: { type: 'git', base: 'main', commit: { message: 'fix' }, changedPaths: { must: ['src/**'], only: ['src/'] }, lines: [{ path: 'src/a.ts', added: { gte: 1 } }], clean: false, diff: { added: ['x'], matches: 'y' } } },
+    { name: 'Tests', verify: { type: 'tests', report: 'junit.xml', format: 'junit', minTests: 1, tests: ['adds'], noSkipped: true } },
+    { name: 'Coverage', verify: { type: 'coverage', report: 'lcov.info', thresholds: [{ file: 'src/**', lines: 80 }], files: ['src/**'] } },
+    { name: 'Source', verify: { type: 'source', exports: [{ file: 'src/a.ts', name: 'a', kind: 'function' }], signatures: [{ name: 'a', parameters: ['string'], returns: 'void' }], implements: [{ class: 'A', interface: 'B' }], noCalls: ['eval'], typechecks: true } }
+  ],
+  intents: [{ goal: 'Child', dependencies: ['Build'], steps: [{ name: 'Inner', verify: 'true', expect: true }], intents: [] }],
+  postconditions: [{ check: 'npm test', expect: 0 }],
+  changes: [{ name: 'Touched src', added: ['src/*.ts', { path: 'src/b.ts', count: { eq: 1 } }], only: ['src/'], unchanged: ['package-lock.json'] }],
+  scope: { allowed: ['src/'], maxFiles: 10, maxLines: 500, severity: 'warning' }
+};
+
+const REPLACEMENTS = [null, 'text', -1, 1.5, true, [], {}, [{ zzz: 1 }], { zzz: 1 }];
+
+const ajv = new Ajv({ strict: false, allErrors: true });
+const schemaValidate = ajv.compile(intentSchema());
+
+/**
+ * The definition with the value at `path` replaced, or removed when `replacement` is omitted
+ */
+function mutate(definition: any, path: Array<string | number>, ...replacement: any[]): any {
+  const copy = JSON.parse(JSON.stringify(definition));
+  const parent = path.slice(0, -1).reduce((value, key) => value[key], copy);
+  const key = path[path.length - 1];
+  if (replacement.length > 0) {
+    parent[key] = replacement[0];
+  } else if (Array.isArray(parent)) {
+    parent.splice(key as number, 1);
+  } else {
+    delete parent[key];
+  }
+  return copy;
+}
+
+function paths(value: any, at: Array<string | number> = []): Array<Array<string | number>> {
+  if (value === null || typeof value !== 'object') return [];
+  const keys: Array<string | number> = Array.isArray(value) ? value.map((_, index) => index) : Object.keys(value);
+  return keys.flatMap(key => [[...at, key], ...paths(value[key], [...at, key])]);
+}
+
+function objects(value: any, at: Array<string | number> = []): Array<Array<string | number>> {
+  if (value === null || typeof value !== 'object') return [];
+  const nested = (Array.isArray(value) ? value.map((_, index) => index) : Object.keys(value))
+    .flatMap(key => objects(value[key], [...at, key]));
+  return Array.isArray(value) ? nested : [at, ...nested];
+}
+
+function issuesFor(text: string, file = 'intent.json') {
+  try {
+    parseIntentDefinition(text, file);
+  } catch (error) {
+    if (error instanceof IntentValidationError) return error.issues;
+    throw error;
+  }
+  return [];
+}
+
+describe('validateDefinition', () => {
+  it('uses only the schema keywords it implements', () => {
+    const supported = new Set(['$schema', 'title', 'description', 'type', 'properties', '$ref', 'items', 'required', 'additionalProperties', 'definitions', 'anyOf', 'minimum', 'const', 'enum']);
+    const used = new Set<string>();
+    const walk = (node: any, inProperties = false): void => {
+      if (Array.isArray(node)) return node.forEach(child => walk(child));
+      if (!node || typeof node !== 'object') return;
+      for (const [key, child] of Object.entries(node)) {
+        if (!inProperties) used.add(key);
+        walk(child, !inProperties && (key === 'properties' || key === 'definitions'));
+      }
+    };
+    walk(intentSchema());
+    
+    expect([...used].filter(keyword => !supported.has(keyword))).toEqual([]);
+  });
+  
+  it('accepts a definition that uses every part of the schema', () => {
+    expect(schemaValidate(FULL_DEFINITION)).toBe(true);
+    expect(validateDefinition(FULL_DEFINITION)).toEqual([]);
+  });
+  
+  it('agrees with a reference validator on every value replaced or removed', () => {
+    const disagreements: string[] = [];
+    const check = (definition: any, change: string) => {
+      const expected = schemaValidate(definition) as boolean;
+      const actual = validateDefinition(definition).length === 0;
+      if (expected !== actual) {
+        disagreements.push(`${change}: reference ${expected ? 'accepts' : 'rejects'}, validateDefinition ${actual ? 'accepts' : 'rejects'}`);
+      }
+    };
+    
+    let cases = 0;
+    for (const path of paths(FULL_DEFINITION)) {
+      check(mutate(FULL_DEFINITION, path), `remove ${path.join('.')}`);
+      cases++;
+      for (const replacement of REPLACEMENTS) {
+        check(mutate(FULL_DEFINITION, path, replacement), `${path.join('.')} = ${JSON.stringify(replacement)}`);
+        cases++;
+      }
+    }
+    for (const path of objects(FULL_DEFINITION)) {
+      check(mutate(FULL_DEFINITION, [...path, 'zzz'], 1), `add ${[...path, 'zzz'].join('.')}`);
+      cases++;
+    }
+    
+    expect(cases).toBeGreaterThan(2000);
+    expect(disagreements).toEqual([]);
+  });
+  
+  it('reports missing and unknown properties with suggestions', () => {
+    expect(validateDefinition({ steps: [] })).toEqual([{ path: '$', message: 'missing required property "goal"' }]);
+    expect(validateDefinition({ goal: 'x', step: [] })).toEqual([{ path: '$.step', message: 'unknown property "step" (did you mean "steps"?)' }]);
+  });
+  
+  it('reports against the verification kind that was meant', () => {
+    expect(validateDefinition({ goal: 'x', steps: [{ name: 'a', verify: { type: 'file' } }] }))
+      .toEqual([{ path: '$.steps[0].verify', message: 'missing required property "path"' }]);
+    expect(validateDefinition({ goal: 'x', steps: [{ name: 'a', verify: { type: 'ftp', url: 'x' } }] }))
+      .toEqual([{ path: '$.steps[0].verify.type', message: 'unknown type "ftp"; expected one of: command, file, state, http, git, tests, coverage, source' }]);
+    expect(validateDefinition({ goal: 'x', options: { concurrency: 0, backoff: 'random' } })).toEqual([
+      { path: '$.options.concurrency', message: 'must be at least 1' },
+      { path: '$.options.backoff', message: 'must be one of: "fixed", "linear", "exponential"' }
+    ]);
+  });
+  
+  it('skips properties that are undefined, as they are absent once serialized', () => {
+    expect(validateDefinition({ goal: 'x', options: undefined, steps: [{ name: 'a', verify: 'true', expect: undefined }] })).toEqual([]);
+  });
+});
+
+describe('parseIntentDefinition', () => {
+  it('locates schema problems in JSON text', () => {
+    const text = '{\n  "goal": "x",\n  "steps": [\n    { "name": "a", "verify": "true", "retries": -1 }\n  ]\n}';
+    
+    expect(issuesFor(text)).toEqual([{ path: '$.steps[0].retries', message: 'must be at least 0', line: 4, column: 49 }]);
+  });
+  
+  it('reports every problem at once, in the file', () => {
+    const text = '{ "goal": 1, "stepz": [] }';
+    let error: any;
+    try {
+      parseIntentDefinition(text, 'intent.json');
+    } catch (caught) {
+      error = caught;
+    }
+    
+    expect(error).toBeInstanceOf(IntentValidationError);
+    expect(error.issues).toHaveLength(2);
+    expect(error.message).toBe([
+      'Invalid intent in intent.json:',
+      '  intent.json:1:11 $.goal: must be a string',
+      '  intent.json:1:23 $.stepz: unknown property "stepz" (did you mean "steps"?)'
+    ].join('\n'));
+  });
+  
+  it('locates JSON syntax errors', () => {
+    expect(issuesFor('{\n  "goal": "x",\n  "steps": [1,]\n}')).toEqual([{ path: '$.steps[1]', message: 'Invalid JSON: unexpected "]"', line: 3, column: 15 }]);
+    expect(issuesFor('{ "goal": "x" ')).toEqual([{ path: '$', message: 'Invalid JSON: expected "," or "}", found end of input', line: 1, column: 15 }]);
+    expect(issuesFor('{ "goal": "a\tb" }')).toEqual([{ path: '$.goal', message: 'Invalid JSON: control character in string', line: 1, column: 13 }]);
+    expect(issuesFor('{ "goal": "x" } []')).toEqual([{ path: '$', message: 'Invalid JSON: unexpected "[" after the end of the document', line: 1, column: 17 }]);
+  });
+  
+  it('reads JSON the way JSON.parse does', () => {
+    const text = '﻿{ "goal": "caf\\u00e9 \\"x\\"", "options": { "timeout": 1.5e3, "parallel": false }, "steps": [] }';
+    
+    expect(parseIntentDefinition(text)).toEqual(JSON.parse(text.slice(1)));
+  });
+  
+  it('accepts already parsed values', () => {
+    expect(parseIntentDefinition({ goal: 'x' })).toEqual({ goal: 'x' });
+    expect(() => parseIntentDefinition({ goal: 'x', steps: {} })).toThrow('$.steps: must be an array');
+  });
+});
+
+describe('YAML definitions', () => {
+  it('reads YAML the way the JSON it stands for reads', () => {
+    const text = [
+      'goal: Ship the feature',
+      'options: { parallel: true, concurrency: 2 }',
+      'steps:',
+      '  - name: Build',
+      '    verify: |',
+      '      npm run build',
+      '    expect: &ok { exitCode: 0 }',
+      '  - name: "Test: unit"',
+      '    verify: npm test',
+      '    expect: *ok',
+      '    dependencies: [Build]',
+      '    retries: 2 # flaky on CI',
+      "  - { name: 'Lint', verify: npm run lint, timeout: 1.5e3 }"
+    ].join('\n');
+    
+    expect(parseIntentDefinition(text, 'intent.yaml')).toEqual({
+      goal: 'Ship the feature',
+      options: { parallel: true, concurrency: 2 },
+      steps: [
+        { name: 'Build', verify: 'npm run build\n', expect: { exitCode: 0 } },
+        { name: 'Test: unit', verify: 'npm test', expect: { exitCode: 0 }, dependencies: ['Build'], retries: 2 },
+        { name: 'Lint', verify: 'npm run lint', timeout: 1500 }
+      ]
+    });
+  });
+  
+  it('keeps YAML 1.1 booleans and dates as strings', () => {
+    const definition: any = parseIntentDefinition('goal: yes\nsteps:\n  - name: on\n    verify: "true"\n    expect: 2024-01-01\n', 'intent.yml');
+    
+    expect(definition.goal).toBe('yes');
+    expect(definition.steps[0]).toEqual({ name: 'on', verify: 'true', expect: '2024-01-01' });
+  });
+  
+  it('locates schema problems in YAML text', () => {
+    const text = 'goal: x\nsteps:\n  - name: a\n    verify: "true"\n    retries: -1\noptions:\n  timeout:\n';
+    
+    expect(issuesFor(text, 'intent.yaml')).toEqual([
+      { path: '$.steps[0].retries', message: 'must be at least 0', line: 5, column: 14 },
+      { path: '$.options.timeout', message: 'must be a number', line: 7, column: 11 }
+    ]);
+  });
+  
+  it('locates YAML syntax errors at the value being read', () => {
+    expect(issuesFor('goal: x\nsteps:\n  - name: "a\n', 'intent.yaml')).toEqual([
+      { path: '$.steps[0].name', message: 'Invalid YAML: Missing closing "quote', line: 4, column: 1 }
+    ]);
+    expect(issuesFor('goal: x\ngoal: y\n', 'intent.yaml')).toEqual([
+      { path: '$', message: 'Invalid YAML: Map keys must be unique', line: 2, column: 1 }
+    ]);
+    expect(issuesFor('goal: x\nsteps:\n\t- name: a\n', 'intent.yaml')[0]).toMatchObject({ line: 3, column: 1 });
+  });
+  
+  it('rejects files that hold more than one document', () => {
+    expect(issuesFor('goal: x\n---\ngoal: y\n', 'intent.yaml')).toEqual([
+      { path: '$', message: 'Invalid YAML: a file declares one intent, but this one holds several documents', line: 2, column: 1 }
+    ]);
+  });
+  
+  it('reads text as YAML by extension, or when asked to', () => {
+    expect(parseIntentDefinition('goal: x', 'intent.YML')).toEqual({ goal: 'x' });
+    expect(parseIntentDefinition('goal: x', undefined, 'yaml')).toEqual({ goal: 'x' });
+    expect(issuesFor('goal: x', 'intent.json')[0].message).toMatch(/^Invalid JSON/);
+  });
+});
+
+describe('createIntent', () => {
+  it('builds steps, contracts and sub-intents from a definition', () => {
+    const intent = createIntent(parseIntentDefinition(FULL_DEFINITION));
+    const plan = intent.plan();
+    
+    expect(intent.id).toBe('feature');
+    expect(plan.steps.map(step => step.name)).toEqual(['Build', 'State', 'Health', 'Git', 'Tests', 'Coverage', 'Source', 'Child']);
+    expect(plan.preconditions).toHaveLength(2);
+    expect(plan.invariants).toHaveLength(1);
+    expect(plan.postconditions).toHaveLength(1);
+    expect(plan.scope).toEqual(FULL_DEFINITION.scope);
+  });
+  
+  it('lets the definition override defaults', () => {
+    expect(createIntent({ goal: 'x', options: { id: 'own' } }, { id: 'default' }).id).toBe('own');
+    expect(createIntent({ goal: 'x' }, { id: 'default' }).id).toBe('default');
+  });
+});
+
+describe('loadIntents', () => {
+  const extensions = createRequire(__filename).extensions;
+  let dir: string;
+  
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-definition-'));
+  });
+  
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  it('compiles a TypeScript module only while loading it', async () => {
+    const file = path.join(dir, 'intent.ts');
+    fs.writeFileSync(file, [
+      'const goal: string = "Typed";',
+      'export default { goal, execute: async () => undefined, plan: () => undefined };'
+    ].join('\n'));
+    
+    expect(extensions['.ts']).toBeUndefined();
+    const [{ intent }] = await loadIntents(file);
+    expect(intent.goal).toBe('Typed');
+    expect(extensions['.ts']).toBeUndefined();
+  });
+  
+  it('leaves the .ts handler unregistered when the module fails to load', async () => {
+    const file = path.join(dir, 'broken.ts');
+    fs.writeFileSync(file, 'throw new Error("boom");');
+    
+    await expect(loadIntents(file)).rejects.toThrow('boom');
+    expect(extensions['.ts']).toBeUndefined();
+  });
+  
+  it('uses and keeps a .ts handler that is already registered', async () => {
+    const file = path.join(dir, 'intent.ts');
+    fs.writeFileSync(file, 'not TypeScript at all');
+    const handler = (module: any) => {
+      module.exports = { goal: 'Handled', execute: async () => undefined, plan: () => undefined };
+    };
+    extensions['.ts'] = handler;
+    try {
+      const [{ intent }] = await loadIntents(file);
+      expect(intent.goal).toBe('Handled');
+      expect(extensions['.ts']).toBe(handler);
+    } finally {
+      delete extensions['.ts'];
+    }
+  });
+  
+  it('gives intents read from a file an id stable across loads', async () => {
+    const file = path.join(dir, 'intent.yaml');
+    fs.writeFileSync(file, 'goal: Stable\n');
+    const [first] = await loadIntents(file);
+    const [second] = await loadIntents(file);
+    
+    expect(first.intent.id).toBe(second.intent.id);
+    expect(first.definition).toEqual({ goal: 'Stable' });
+  });
+  
+  it('reads a JSON file with defaults for what it leaves out', async () => {
+    const file = path.join(dir, 'intent.json');
+    fs.writeFileSync(file, JSON.stringify({ goal: 'Build', steps: [{ name: 'Compile', verify: 'tsc' }] }));
+    
+    const { intent, definition } = await loadIntent(file, { id: 'build' });
+    expect(intent.id).toBe('build');
+    expect(intent.plan().steps.map(step => step.name)).toEqual(['Compile']);
+    expect(definition).toEqual({ goal: 'Build', steps: [{ name: 'Compile', verify: 'tsc' }] });
+  });
+  
+  it('reports schema problems at their line in the file', async () => {
+    const file = path.join(dir, 'intent.json');
+    fs.writeFileSync(file, '{\n  "goal": "Build",\n  "steps": [{ "name": "Compile" }]\n}');
+    
+    const error = await loadIntents(file).catch(caught => caught);
+    expect(error).toBeInstanceOf(IntentValidationError);
+    expect(error.file).toBe(file);
+    expect(error.issues).toEqual([expect.objectContaining({ path: '$.steps[0]', line: 3 })]);
+    expect(error.message).toContain(`${file}:3:`);
+  });
+  
+  it('says when an intent file does not exist', async () => {
+    const file = path.join(dir, 'missing.json');
+    
+    await expect(loadIntents(file)).rejects.toThrow(`Intent file not found: ${file}`);
+    await expect(loadIntents(path.join(dir, 'missing.ts'))).rejects.toThrow(`Intent file not found: ${path.join(dir, 'missing.ts')}`);
+  });
+  
+  it('loads every intent a JavaScript module exports, telling repeated goals apart', async () => {
+    const file = path.join(dir, 'intents.js');
+    fs.writeFileSync(file, [
+      'const intent = goal => ({ goal, execute: async () => undefined, plan: () => undefined, identify(id) { this.id = id; } });',
+      'module.exports = [intent("Deploy"), intent("Deploy"), intent("Notify")];'
+    ].join('\n'));
+    
+    const ids = async () => (await loadIntents(file)).map(({ intent }) => intent.id);
+    const first = await ids();
+    expect(new Set(first).size).toBe(3);
+    expect(await ids()).toEqual(first);
+    await expect(loadIntent(file)).rejects.toThrow(`${file} declares 3 intents; expected one`);
+  });
+  
+  it('rejects modules that do not export intents', async () => {
+    const file = path.join(dir, 'intent.js');
+    fs.writeFileSync(file, 'module.exports = { goal: "Not an intent" };');
+    
+    await expect(loadIntents(file)).rejects.toThrow(`${file} must default-export an Intent or an array of intents`);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { commandRecord, excerpt, fileRecord, REDACTED, sanitizeEnv, secretMatcher } from '../src/evidence';
+import { FunctionVerifier } from '../src/verifiers/base';
+import { Intent } from '../src/intent';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-evidence-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('secret redaction', () => {
+  it('recognises secret-looking names and any extra names given', () => {
+    const isSecret = secretMatcher(['X-Tenant']);
+    
+    expect(['DB_PASSWORD', 'github_token', 'API-KEY', 'Authorization', 'session_id', 'x-tenant'].every(isSecret)).toBe(true);
+    expect(['PATH', 'NODE_ENV', 'HOME'].some(isSecret)).toBe(false);
+  });
+  
+  it('hides secret values in environment overrides and drops unset ones', () => {
+    expect(sanitizeEnv({ NODE_ENV: 'test', NPM_TOKEN: 'npm_abc', UNSET: undefined })).toEqual({ NODE_ENV: 'test', NPM_TOKEN: REDACTED });
+    expect(sanitizeEnv({ TENANT: 'acme' }, name => name === 'TENANT')).toEqual({ TENANT: REDACTED });
+  });
+});
+
+describe('excerpt', () => {
+  it('keeps short text and the head and tail of long text', () => {
+    expect(excerpt('short')).toBe('short');
+    
+    const text = 'a'.repeat(1024) + 'b'.repeat(1000) + 'c'.repeat(3072);
+    expect(excerpt(text)).toBe(`${'a'.repeat(1024)}\n… 1000 characters omitted …\n${'c'.repeat(3072)}`);
+  });
+});
+
+describe('commandRecord', () => {
+  it('records a finished command with its overrides redacted and long output cut', () => {
+    const record = commandRecord('npm', {
+      stdout: 'x'.repeat(5000),
+      stderr: '',
+      exitCode: 1,
+      signal: null,
+      truncated: true,
+      duration: 250,
+      timedOut: false,
+      cancelled: false
+    }, { args: ['publish'], cwd: dir, env: { NPM_TOKEN: 'npm_abc', CI: '1' } });
+    
+    expect(record).toMatchObject({
+      kind: 'command',
+      command: 'npm',
+      args: ['publish'],
+      cwd: dir,
+      env: { NPM_TOKEN: REDACTED, CI: '1' },
+      exitCode: 1,
+      truncated: true,
+      duration: 250
+    });
+    expect(record.stdout).toContain('characters omitted');
+    expect(record).not.toHaveProperty('timedOut');
+    expect(record).not.toHaveProperty('signal');
+    expect(Date.now() - record.timestamp.getTime()).toBeGreaterThanOrEqual(250);
+  });
+});
+
+describe('fileRecord', () => {
+  it('hashes a file as on disk, or as the content already read', () => {
+    const file = path.join(dir, 'config.json');
+    fs.writeFileSync(file, '{"rps":10}');
+    const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+    
+    expect(fileRecord(file)).toMatchObject({ kind: 'file', path: file, exists: true, size: 10, hash: sha256('{"rps":10}') });
+    expect(fileRecord(file, 'read earlier').hash).toBe(sha256('read earlier'));
+  });
+  
+  it('records missing files and directories without a hash', () => {
+    expect(fileRecord(path.join(dir, 'missing.json'))).toEqual({ kind: 'file', path: path.join(dir, 'missing.json'), exists: false, timestamp: expect.any(Date) });
+    expect(fileRecord(dir)).not.toHaveProperty('hash');
+  });
+});
+
+describe('function and step records', () => {
+  it('records what a verification function returned or threw', async () => {
+    const verifier = new FunctionVerifier();
+    const ready = () => true;
+    
+    expect((await verifier.verify(ready)).records).toEqual([expect.objectContaining({ kind: 'function', name: 'ready', returned: true })]);
+    expect((await verifier.verify(() => { throw new Error('no config'); })).records)
+      .toEqual([expect.objectContaining({ kind: 'function', error: 'no config' })]);
+  });
+  
+  it('logs a step that threw with its stack and an error record', async () => {
+    const result = await new Intent('Deploy')
+      .step('Build', { action: async () => { throw new Error('disk full'); }, verify: () => true })
+      .execute();
+    
+    expect(result.success).toBe(false);
+    const entry = result.verificationLog.find(logged => logged.source === 'Build')!;
+    expect(entry.message).toBe('Step execution error: disk full');
+    expect(entry.evidence?.[0]).toContain('Error: disk full');
+    expect(entry.records).toEqual([expect.objectContaining({ kind: 'function', name: 'Build', error: 'disk full' })]);
+  });
+  
+  it('carries the records of a sub-intent up to its step', async () => {
+    const result = await new Intent('Release')
+      .subIntent('Checks', child => child.step('Ready', { verify: function ready() { return true; } }))
+      .execute();
+    
+    const entry = result.verificationLog.find(logged => logged.source === 'Checks')!;
+    expect(entry.records).toEqual([expect.objectContaining({ kind: 'function', name: 'ready', returned: true })]);
+  });
+  
+  it('redacts command environment overrides in the plan', () => {
+    const plan = new Intent('Publish')
+      .step('Publish', { verify: { type: 'command', command: 'npm publish', env: { NPM_TOKEN: 'npm_abc', TAG: 'next' } } })
+      .plan();
+    
+    expect(plan.steps[0].verify.env).toEqual({ NPM_TOKEN: REDACTED, TAG: 'next' });
+  });
+});
\ No newline at end of file
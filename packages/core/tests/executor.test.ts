@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { runCommand, splitCommand } from '../src/executor';
+import { CommandVerifier } from '../src/verifiers/base';
+
+const node = (script: string) => `node -e "${script}"`;
+
+describe('runCommand', () => {
+  it('keeps stdout, stderr and the exit code apart', async () => {
+    const output = await runCommand(node("console.log('out'); console.error('err'); process.exit(3)"));
+    
+    expect(output).toMatchObject({ stdout: 'out\n', stderr: 'err\n', exitCode: 3, signal: null, timedOut: false, cancelled: false, truncated: false });
+  });
+  
+  it('streams output as it arrives', async () => {
+    const chunks: string[] = [];
+    await runCommand(node("console.log('a'); console.error('b')"), { onOutput: (stream, chunk) => chunks.push(`${stream}:${chunk.trim()}`) });
+    
+    expect(chunks.sort()).toEqual(['stderr:b', 'stdout:a']);
+  });
+  
+  it('runs without a shell, passing arguments as they are', async () => {
+    const output = await runCommand('node', { shell: false, args: ['-e', 'console.log(process.argv[1])', '$HOME; echo hi'] });
+    
+    expect(output.stdout).toBe('$HOME; echo hi\n');
+  });
+  
+  it('quotes arguments onto the command when it runs in a shell', async () => {
+    const output = await runCommand('node', { args: ['-e', 'console.log(process.argv[1])', "it's $HOME; echo hi"] });
+    
+    expect(output.stdout).toBe("it's $HOME; echo hi\n");
+  });
+  
+  it('kills the whole process tree on timeout', async () => {
+    const started = Date.now();
+    const output = await runCommand('sleep 5 & sleep 5; wait', { timeout: 100 });
+    
+    expect(output).toMatchObject({ timedOut: true, exitCode: null, signal: 'SIGKILL' });
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+  
+  it('stops when the signal aborts, or does not start when it already has', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+    
+    expect(await runCommand('sleep 5', { signal: controller.signal })).toMatchObject({ cancelled: true, exitCode: null });
+    expect(await runCommand('echo never', { signal: controller.signal })).toMatchObject({ cancelled: true, stdout: '' });
+  });
+  
+  it('keeps the tail of output past the limit', async () => {
+    const output = await runCommand(node("process.stdout.write('x'.repeat(100) + 'END')"), { maxOutput: 10 });
+    
+    expect(output.truncated).toBe(true);
+    expect(output.stdout.endsWith('END')).toBe(true);
+    expect(Buffer.byteLength(output.stdout)).toBeLessThanOrEqual(10);
+  });
+  
+  it('rejects only when the command cannot be started', async () => {
+    await expect(runCommand('no-such-binary-here', { shell: false })).rejects.toThrow(/ENOENT/);
+    expect((await runCommand('no-such-binary-here')).exitCode).toBe(127);
+  });
+});
+
+describe('splitCommand', () => {
+  it('splits on whitespace, honouring quotes and escapes', () => {
+    expect(splitCommand(`git  commit -m "fix: a \\"b\\"" 'it''s' a\\ b ""`)).toEqual(['git', 'commit', '-m', 'fix: a "b"', 'its', 'a b', '']);
+  });
+});
+
+describe('CommandVerifier', () => {
+  const verifier = new CommandVerifier();
+  
+  it('passes a command that exits with 0 and records it', async () => {
+    const result = await verifier.verify('echo ready');
+    
+    expect(result).toMatchObject({ success: true, message: 'Command executed successfully', actual: 'ready', stdout: 'ready\n', exitCode: 0 });
+    expect(result.records).toEqual([expect.objectContaining({ kind: 'command', command: 'echo ready', exitCode: 0 })]);
+  });
+  
+  it('explains a failing command with the tail of its output', async () => {
+    const result = await verifier.verify(node("console.error('no such table'); process.exit(1)"));
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toBe(`Command exited with code 1: ${node("console.error('no such table'); process.exit(1)")}\nno such table`);
+  });
+  
+  it('checks the output against an expectation', async () => {
+    expect((await verifier.verify('echo 42', '>40')).message).toBe('Output matches expectation');
+    expect((await verifier.verify('exit 2', 'fails')).message).toBe('Command failed as expected');
+    
+    const failed = await verifier.verify('echo 42', { stdout: { contains: 'ok' } });
+    expect(failed.message).toBe('Expectation not met: stdout.contains: "ok" not found');
+    expect(failed.evidence).toEqual(['stdout.contains: "ok" not found']);
+  });
+  
+  it('passes environment overrides and a working directory', async () => {
+    const result = await verifier.verify({ type: 'command', command: 'echo "$GREETING from $(pwd)"', cwd: '/', env: { GREETING: 'hello' } }, 'hello from /');
+    
+    expect(result.success).toBe(true);
+  });
+  
+  it('does not count a timeout as the failure a "fails" expectation wants', async () => {
+    const result = await verifier.verify('sleep 5', 'fails', { timeout: 50 });
+    
+    expect(result).toMatchObject({ success: false, timedOut: true, message: 'Command timed out after 50ms: sleep 5' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import { checkRange, evaluateExpectation, ExpectationSubject, parseExpectation, queryJsonPath } from '../src/expectation';
+import { Intent } from '../src/intent';
+
+function output(stdout: string, exitCode: number | null = 0, stderr = ''): ExpectationSubject {
+  return { stdout, stderr, exitCode };
+}
+
+describe('parseExpectation', () => {
+  it('reads success and failure words as exit codes', () => {
+    for (const word of ['', 'exit 0', 'success', 'pass', 'passes']) {
+      expect(parseExpectation(word)).toEqual({ exitCode: 0 });
+    }
+    expect(parseExpectation('fails')).toEqual({ exitCode: { ne: 0 } });
+    expect(parseExpectation('exit 3')).toEqual({ exitCode: 3 });
+    expect(parseExpectation(true)).toEqual({ exitCode: 0 });
+    expect(parseExpectation(false)).toEqual({ exitCode: { ne: 0 } });
+  });
+  
+  it('reads numbers and comparisons as numeric checks on the output', () => {
+    expect(parseExpectation(42)).toEqual({ stdout: { number: { eq: 42 } } });
+    expect(parseExpectation('42')).toEqual({ stdout: { number: { eq: 42 } } });
+    expect(parseExpectation('>-1.5')).toEqual({ stdout: { number: { gt: -1.5 } } });
+    expect(parseExpectation('<10')).toEqual({ stdout: { number: { lt: 10 } } });
+  });
+  
+  it('reads patterns, booleans and text as output matchers', () => {
+    expect(parseExpectation('/^v\\d+/')).toEqual({ stdout: { matches: '^v\\d+' } });
+    expect(parseExpectation('true')).toEqual({ stdout: { matches: '^(true|1|yes)$' } });
+    expect(parseExpectation('false')).toEqual({ not: { stdout: { matches: '^(true|1|yes)$' } } });
+    expect(parseExpectation('contains:exit 0')).toEqual({ stdout: { contains: 'exit 0' } });
+    expect(parseExpectation('ready')).toEqual({ stdout: { contains: 'ready' } });
+  });
+  
+  it('passes structured expectations through', () => {
+    const expectation = { stderr: { empty: true } };
+    
+    expect(parseExpectation(expectation)).toBe(expectation);
+  });
+});
+
+describe('evaluateExpectation', () => {
+  it('requires a zero exit code unless the expectation names one', () => {
+    expect(evaluateExpectation({ stdout: { contains: 'ok' } }, output('ok', 1)).failures).toEqual(['exitCode: expected = 0, got 1']);
+    expect(evaluateExpectation({ exitCode: 1, stdout: { contains: 'ok' } }, output('ok', 1)).passed).toBe(true);
+    expect(evaluateExpectation({ any: [{ exitCode: 2 }, { exitCode: 1 }] }, output('', 1)).passed).toBe(true);
+  });
+  
+  it('reports a process that was killed', () => {
+    expect(evaluateExpectation({}, output('', null)).message).toBe('exitCode: process was killed before exiting');
+  });
+  
+  it('checks text with every matcher', () => {
+    const subject = output('  3 passed\nall good\n', 0, 'warning: slow');
+    
+    expect(evaluateExpectation({
+      stdout: { contains: ['passed', 'good'], notContains: 'failed', matches: '^3 PASSED', flags: 'i', lines: { eq: 2 }, empty: false },
+      stderr: { equals: 'warning: slow' }
+    }, subject)).toEqual({ passed: true, failures: [], message: 'Expectation met' });
+    
+    expect(evaluateExpectation({ stdout: { contains: 'failed', notContains: 'good', equals: 'nope', empty: true } }, subject).failures).toEqual([
+      'stdout.equals: expected "nope", got "3 passed\\nall good"',
+      'stdout.contains: "failed" not found',
+      'stdout.notContains: "good" was found',
+      'stdout.empty: expected no output, got "3 passed\\nall good"'
+    ]);
+  });
+  
+  it('compares output as a number', () => {
+    expect(evaluateExpectation({ stdout: { number: { gte: 80, lt: 100 } } }, output('85.5\n')).passed).toBe(true);
+    expect(evaluateExpectation({ stdout: { number: { gte: 90 } } }, output('85.5')).failures).toEqual(['stdout.number: expected ≥ 90, got 85.5']);
+    expect(evaluateExpectation({ stdout: { number: { eq: 1 } } }, output('one')).failures).toEqual(['stdout.number: output "one" is not a number']);
+  });
+  
+  it('asserts on JSON output by path', () => {
+    const subject = output(JSON.stringify({ status: 'ok', results: [{ name: 'a', time: 12 }], tags: ['x', 'y'] }));
+    
+    expect(evaluateExpectation({
+      stdout: {
+        json: [
+          { path: '$.status', equals: 'ok' },
+          { path: '$.results[0].time', number: { lt: 50 } },
+          { path: '$.results[0].name', matches: '^a$' },
+          { path: '$.tags', length: { eq: 2 } },
+          { path: '$.error', exists: false }
+        ]
+      }
+    }, subject).passed).toBe(true);
+    
+    expect(evaluateExpectation({
+      stdout: { json: [{ path: '$.status', equals: 'failed' }, { path: '$.missing' }, { path: '$.status', number: { eq: 1 } }] }
+    }, subject).failures).toEqual([
+      'stdout.json $.status: expected "failed", got "ok"',
+      'stdout.json $.missing: not found',
+      'stdout.json $.status: "ok" is not a number'
+    ]);
+    expect(evaluateExpectation({ stdout: { json: { path: '$.a' } } }, output('not json')).failures).toEqual(['stdout.json: output is not valid JSON']);
+  });
+  
+  it('combines expectations with all, any and not, labelling where each failed', () => {
+    const subject = output('ready');
+    
+    expect(evaluateExpectation({ all: [{ stdout: { contains: 'ready' } }, { stderr: { empty: true } }] }, subject).passed).toBe(true);
+    expect(evaluateExpectation({ all: [{ stdout: { contains: 'ready' } }, { stdout: { contains: 'set' } }] }, subject).failures)
+      .toEqual(['all[1].stdout.contains: "set" not found']);
+    expect(evaluateExpectation({ any: [{ stdout: { contains: 'go' } }, { stdout: { contains: 'set' } }] }, subject).failures)
+      .toEqual(['any: none of 2 alternatives held (any[0].stdout.contains: "go" not found | any[1].stdout.contains: "set" not found)']);
+    expect(evaluateExpectation({ not: { stdout: { contains: 'ready' } } }, subject).failures)
+      .toEqual(['not: {"stdout":{"contains":"ready"}} held but should not have']);
+  });
+  
+  it('reports an invalid pattern instead of throwing', () => {
+    expect(evaluateExpectation({ stdout: { matches: '(' } }, output('x')).failures[0]).toMatch(/^stdout\.matches: invalid pattern/);
+    expect(evaluateExpectation({ stdout: { json: { path: '$.a', matches: '(' } } }, output('{"a":"x"}')).failures[0]).toMatch(/^stdout\.json \$\.a: invalid pattern/);
+  });
+});
+
+describe('queryJsonPath', () => {
+  it('follows keys, indexes and quoted keys', () => {
+    const data = { a: { 'b c': [null, { d: false }] } };
+    
+    expect(queryJsonPath(data, '$.a["b c"][1].d')).toEqual({ found: true, value: false });
+    expect(queryJsonPath(data, "a['b c'][0]")).toEqual({ found: true, value: null });
+    expect(queryJsonPath(data, '$')).toEqual({ found: true, value: data });
+    expect(queryJsonPath(data, '$.a.x.y')).toEqual({ found: false });
+  });
+  
+  it('rejects paths it cannot read', () => {
+    expect(() => queryJsonPath({}, '$..a')).toThrow('Invalid JSON path: $..a');
+  });
+});
+
+describe('checkRange', () => {
+  it('names every bound a number breaks', () => {
+    expect(checkRange(5, { gte: 1, lte: 10, ne: 4 })).toBeUndefined();
+    expect(checkRange(5, { gt: 5, lt: 3 })).toBe('expected > 5 and < 3, got 5');
+  });
+});
+
+describe('expectations on command steps', () => {
+  it('checks a command step against its expectation', async () => {
+    const result = await new Intent('Commands')
+      .step('Version', { verify: 'node -e "console.log(JSON.stringify({ major: 20 }))"', expect: { stdout: { json: { path: '$.major', number: { gte: 18 } } } } })
+      .step('Exit code', { verify: 'node -e "process.exit(3)"', expect: 'exit 3' })
+      .step('Stderr', { verify: 'node -e "console.error(\'boom\')"', expect: { stderr: { contains: 'boom' }, stdout: { empty: true } } })
+      .execute();
+    
+    expect(result.steps.map(step => [step.name, step.status, step.result?.message])).toEqual([
+      ['Version', 'completed', expect.any(String)],
+      ['Exit code', 'completed', expect.any(String)],
+      ['Stderr', 'completed', expect.any(String)]
+    ]);
+  });
+  
+  it('fails a command step with the reasons its expectation failed', async () => {
+    const result = await new Intent('Commands').step('Count', { verify: 'node -e "console.log(3)"', expect: '>5' }).execute();
+    
+    expect(result.success).toBe(false);
+    expect(result.failureReason).toContain('stdout.number: expected > 5, got 3');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitVerifier } from '../src/verifiers/git';
+import { VerificationGit } from '../src/types';
+import { Intent } from '../src/intent';
+
+let repo: string;
+const verifier = new GitVerifier();
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: repo, encoding: 'utf-8' });
+}
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true });
+  fs.writeFileSync(path.join(repo, file), content);
+}
+
+function commit(message: string): void {
+  git('add', '-A');
+  git('commit', '-q', '-m', message);
+}
+
+function check(spec: Omit<VerificationGit, 'type'>) {
+  return verifier.verify({ type: 'git', cwd: repo, ...spec });
+}
+
+beforeEach(() => {
+  repo = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-git-'));
+  git('init', '-q', '-b', 'main');
+  git('config', 'user.name', 'Ada');
+  git('config', 'user.email', 'ada@example.com');
+  git('config', 'commit.gpgsign', 'false');
+  write('src/app.ts', 'export const a = 1;\n');
+  write('README.md', '# App\n');
+  commit('Initial commit');
+});
+
+afterEach(() => {
+  fs.rmSync(repo, { recursive: true, force: true });
+});
+
+describe('GitVerifier commits', () => {
+  beforeEach(() => {
+    git('checkout', '-q', '-b', 'feature');
+    write('src/limit.ts', 'export const limit = 10;\n');
+    commit('feat: add rate limiting\n\nCloses #12');
+  });
+  
+  it('finds a commit since the base matching message and author', async () => {
+    const result = await check({ base: 'main', commit: { message: '^feat: add rate', author: 'ada@' } });
+    
+    expect(result.success).toBe(true);
+    expect(result.evidence).toContainEqual(expect.stringMatching(/^Commit [0-9a-f]{7} by Ada <ada@example.com>: feat: add rate limiting$/));
+  });
+  
+  it('fails when no commit since the base matches', async () => {
+    const result = await check({ base: 'main', commit: { message: 'fix:' } });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Git checks failed: commit: none of 1 commit(s) since main matches message /fix:/');
+  });
+  
+  it('counts commits from the upstream branch when no base is given', async () => {
+    git('branch', '-q', '--set-upstream-to', 'main');
+    
+    expect((await check({ commit: { message: 'rate limiting' } })).success).toBe(true);
+  });
+  
+  it('asks for a base when the branch has no upstream', async () => {
+    const result = await check({ commit: { message: 'rate limiting' } });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('commit: no base given and the branch has no upstream; set "base" to the branch it started from');
+  });
+});
+
+describe('GitVerifier changes', () => {
+  beforeEach(() => {
+    write('src/app.ts', 'export const a = 2;\nexport const b = 3;\n');
+    write('src/new.ts', 'export const fresh = true;\n');
+    write('docs/guide.md', 'Guide\n');
+  });
+  
+  it('checks changed paths against globs, including untracked files', async () => {
+    const passing = await check({ changedPaths: { must: ['src/new.ts', 'src/**'], mustNot: ['package.json'], only: ['src/', 'docs/'] } });
+    expect(passing.success).toBe(true);
+    expect(passing.evidence).toContain('Changed: src/new.ts (+1 -0) untracked');
+    expect(passing.evidence).toContain('Changed: src/app.ts (+2 -1)');
+    
+    const failing = await check({ changedPaths: { must: ['test/**'], mustNot: ['docs/**'], only: ['src/'] } });
+    expect(failing.message).toBe('Git checks failed: changedPaths.must: nothing matching "test/**" changed; ' +
+      'changedPaths.mustNot: "docs/**" matched docs/guide.md; changedPaths.only: changed outside src/: docs/guide.md');
+  });
+  
+  it('checks added and removed line counts per file', async () => {
+    expect((await check({ lines: [{ path: 'src/app.ts', added: { eq: 2 }, removed: { lte: 1 } }] })).success).toBe(true);
+    
+    const result = await check({ lines: [{ path: 'src/*.ts', added: { lte: 1 } }, { path: 'lib/**', added: { gte: 1 } }] });
+    expect(result.message).toBe('Git checks failed: lines src/app.ts added: expected ≤ 1, got 2; lines lib/**: no changed file matches');
+  });
+  
+  it('searches added and removed lines of the diff, untracked files included', async () => {
+    const result = await check({ diff: { added: ['const b', 'fresh'], removed: 'a = 1', matches: '^export const \\w+ = 3' } });
+    
+    expect(result.success).toBe(true);
+    expect(result.evidence).toContainEqual(expect.stringMatching(/^src\/new\.ts @@ -0,0 \+1,1 @@ \(untracked\)\n\+export const fresh = true;$/));
+    expect((await check({ diff: { added: 'missing' } })).message).toBe('Git checks failed: diff.added: "missing" not found in added lines');
+  });
+  
+  it('reports paths relative to the repository root from a subdirectory', async () => {
+    const result = await check({ cwd: path.join(repo, 'src'), changedPaths: { must: ['src/new.ts', 'docs/guide.md'] }, diff: { added: 'Guide' } });
+    
+    expect(result.success).toBe(true);
+  });
+  
+  it('compares committed ranges when a head is given', async () => {
+    git('checkout', '-q', '-b', 'feature');
+    commit('Change things');
+    write('src/later.ts', 'uncommitted\n');
+    const result = await check({ base: 'main', head: 'feature', changedPaths: { must: ['src/new.ts'], mustNot: ['src/later.ts'] } });
+    
+    expect(result.success).toBe(true);
+  });
+});
+
+describe('GitVerifier working tree', () => {
+  it('checks whether the working tree is clean', async () => {
+    expect((await check({ clean: true })).success).toBe(true);
+    expect((await check({ clean: false })).message).toBe('Git checks failed: clean: expected uncommitted changes, but the working tree is clean');
+    
+    write('scratch.txt', 'x');
+    const dirty = await check({ clean: true });
+    expect(dirty.message).toBe('Git checks failed: clean: working tree has 1 uncommitted change(s)');
+    expect(dirty.evidence).toContain('Uncommitted: ?? scratch.txt');
+  });
+  
+  it('reports git errors as failures with the commands it ran', async () => {
+    const result = await check({ base: 'no-such-branch', changedPaths: { must: ['src/**'] } });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/^git merge-base no-such-branch HEAD failed: /);
+    expect(result.records).toContainEqual(expect.objectContaining({ kind: 'command', command: 'git' }));
+  });
+  
+  it('fails on patterns that do not compile before running git', async () => {
+    for (const [spec, field] of [
+      [{ commit: { message: '(' } }, 'commit.message'],
+      [{ commit: { author: '[' } }, 'commit.author'],
+      [{ diff: { matches: '*' } }, 'diff.matches']
+    ] as const) {
+      const result = await check(spec);
+      expect(result.success).toBe(false);
+      expect(result.message).toMatch(new RegExp(`^Invalid pattern for ${field}: Invalid regular expression`));
+      expect(result.records).toEqual([]);
+    }
+    
+    const run = await new Intent('Commit the change')
+      .step('Commit', { verify: () => true })
+      .ensures({ type: 'git', cwd: repo, commit: { message: '(' } })
+      .execute();
+    expect(run).toMatchObject({ status: 'failed', failedStep: 'postconditions' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createEnvelope,
+  createStatement,
+  IN_TOTO_PAYLOAD_TYPE,
+  IN_TOTO_STATEMENT_TYPE,
+  INTENT_PREDICATE_TYPE,
+  parseStatement
+} from '../src/intoto';
+import { generateSigningKeys, keyId, sha256 } from '../src/attestation';
+import { sanitizeDefinition } from '../src/evidence';
+import { Intent } from '../src/intent';
+import { DsseEnvelope } from '../src/types';
+
+let root: string;
+let keys: { privateKey: string; publicKey: string };
+
+async function run(env: Record<string, string> = {}) {
+  const intent = new Intent('Raise the rate limit', { workspace: { root } })
+    .scope({ allowed: ['config/**', 'notes.md'] })
+    .step('Edit', {
+      action: async () => {
+        fs.writeFileSync(path.join(root, 'config/limits.json'), '{"rps":100}');
+        fs.writeFileSync(path.join(root, 'notes.md'), 'raised\n');
+        fs.rmSync(path.join(root, 'config/old.json'));
+      },
+      verify: { type: 'command', command: 'node -e ""', cwd: root, env }
+    });
+  return { plan: intent.plan(), result: await intent.execute() };
+}
+
+function reencode(envelope: DsseEnvelope, edit: (statement: any) => void): DsseEnvelope {
+  const statement = JSON.parse(Buffer.from(envelope.payload, 'base64').toString('utf-8'));
+  edit(statement);
+  return { ...envelope, payload: Buffer.from(JSON.stringify(statement)).toString('base64') };
+}
+
+beforeAll(() => {
+  keys = generateSigningKeys();
+});
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-intoto-'));
+  fs.mkdirSync(path.join(root, 'config'));
+  fs.writeFileSync(path.join(root, 'config/limits.json'), '{"rps":10}');
+  fs.writeFileSync(path.join(root, 'config/old.json'), '{}');
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('createStatement', () => {
+  it('names the changed files as materials and products', async () => {
+    const { plan, result } = await run();
+    const statement = createStatement(plan, result);
+    
+    expect(result.success).toBe(true);
+    expect(statement._type).toBe(IN_TOTO_STATEMENT_TYPE);
+    expect(statement.predicateType).toBe(INTENT_PREDICATE_TYPE);
+    expect(statement.subject).toEqual([
+      { name: 'config/limits.json', digest: { sha256: sha256('{"rps":100}') } },
+      { name: 'notes.md', digest: { sha256: sha256('raised\n') } }
+    ]);
+    expect(statement.predicate.materials).toEqual([
+      { name: 'config/limits.json', digest: { sha256: sha256('{"rps":10}') } },
+      { name: 'config/old.json', digest: { sha256: sha256('{}') } }
+    ]);
+    expect(statement.predicate.contract.scope).toEqual({ allowed: ['config/**', 'notes.md'] });
+    expect(statement.predicate.workspace).toMatchObject({ root, before: result.changes!.beforeHash, after: result.changes!.afterHash });
+  });
+  
+  it('makes the definition the subject when no files changed', async () => {
+    const intent = new Intent('Check the build').step('Build', { verify: () => true });
+    const statement = createStatement(intent.plan(), await intent.execute());
+    
+    expect(statement.subject).toEqual([{ name: `intent:${intent.id}`, digest: { sha256: statement.predicate.intent.definitionHash } }]);
+    expect(statement.predicate.materials).toEqual([]);
+    expect(statement.predicate.products).toEqual([]);
+  });
+  
+  it('hides secret environment values in the plan and in a declared definition', async () => {
+    const { plan, result } = await run({ NPM_TOKEN: 'npm_abc', REGION: 'eu' });
+    const declared = { goal: 'Raise the rate limit', steps: [{ name: 'Edit', verify: { command: 'node -e ""', env: { NPM_TOKEN: 'npm_abc', REGION: 'eu' } } }] };
+    
+    expect(JSON.stringify(createStatement(plan, result))).not.toContain('npm_abc');
+    
+    const statement = createStatement(plan, result, declared);
+    expect(statement.predicate.intent.definition.steps[0].verify.env).toEqual({ NPM_TOKEN: '[REDACTED]', REGION: 'eu' });
+    expect(declared.steps[0].verify.env.NPM_TOKEN).toBe('npm_abc');
+  });
+});
+
+describe('sanitizeDefinition', () => {
+  it('redacts every env object at any depth and leaves everything else as it is', () => {
+    const when = new Date('2026-01-01T00:00:00Z');
+    const definition = {
+      env: { API_KEY: 'k', MODE: 'fast' },
+      steps: [{ verify: { env: { DB_PASSWORD: 'p' } }, matches: /ok/, at: when }],
+      notes: { env: 'not an object' }
+    };
+    
+    expect(sanitizeDefinition(definition)).toEqual({
+      env: { API_KEY: '[REDACTED]', MODE: 'fast' },
+      steps: [{ verify: { env: { DB_PASSWORD: '[REDACTED]' } }, matches: /ok/, at: when }],
+      notes: { env: 'not an object' }
+    });
+  });
+});
+
+describe('DSSE envelope round trip', () => {
+  it('signs a statement that parses back valid with the signing key', async () => {
+    const { plan, result } = await run();
+    const statement = createStatement(plan, result);
+    const envelope = createEnvelope(statement, keys.privateKey);
+    
+    expect(envelope.payloadType).toBe(IN_TOTO_PAYLOAD_TYPE);
+    expect(envelope.signatures).toEqual([{ keyid: keyId(keys.publicKey), sig: expect.any(String) }]);
+    
+    const parsed = parseStatement(JSON.stringify(envelope), keys.publicKey);
+    expect(parsed).toMatchObject({ signed: true, signatureValid: true, chainValid: true, valid: true, keyId: keyId(keys.publicKey), errors: [] });
+    expect(parsed.statement).toEqual(JSON.parse(JSON.stringify(statement)));
+  });
+  
+  it('accepts a bare statement as unsigned', async () => {
+    const { plan, result } = await run();
+    
+    expect(parseStatement(createStatement(plan, result))).toMatchObject({ signed: false, signatureValid: false, valid: true });
+  });
+  
+  it('rejects an envelope without a key, with another key, or with an edited payload', async () => {
+    const { plan, result } = await run();
+    const envelope = createEnvelope(createStatement(plan, result), keys.privateKey);
+    const other = generateSigningKeys();
+    
+    expect(parseStatement(envelope).errors).toEqual(['No public key to check the envelope signature with']);
+    expect(parseStatement(envelope, other.publicKey).errors).toEqual([`No signature from key ${keyId(other.publicKey)} matches the envelope`]);
+    
+    const edited = reencode(envelope, statement => { statement.predicate.result.success = false; });
+    expect(parseStatement(edited, keys.publicKey)).toMatchObject({ signatureValid: false, chainValid: true, valid: false });
+  });
+  
+  it('checks the log chain and definition hash of the statement itself', async () => {
+    const { plan, result } = await run();
+    const statement = JSON.parse(JSON.stringify(createStatement(plan, result)));
+    statement.predicate.verificationLog[0].success = false;
+    statement.predicate.intent.definition.goal = 'Something else';
+    
+    const parsed = parseStatement(statement);
+    expect(parsed.chainValid).toBe(false);
+    expect(parsed.errors).toContain('Intent definition does not match its hash');
+  });
+  
+  it('throws on documents that are not IntentProof statements', () => {
+    expect(() => parseStatement({ payloadType: 'text/plain', payload: '' })).toThrow('Not an in-toto envelope: payload type is text/plain');
+    expect(() => parseStatement({ _type: 'other' })).toThrow('Not an in-toto statement: _type is other');
+    expect(() => parseStatement({ _type: IN_TOTO_STATEMENT_TYPE, predicateType: 'https://slsa.dev/provenance/v1' }))
+      .toThrow('Not an IntentProof statement: predicate type is https://slsa.dev/provenance/v1');
+  });
+});
\ No newline at end of file
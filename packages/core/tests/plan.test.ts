@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Intent } from '../src/intent';
+import { REDACTED } from '../src/evidence';
+import { IntentPlan } from '../src/types';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-plan-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('Intent.plan', () => {
+  it('orders steps after their dependencies and groups them into waves', () => {
+    const plan = new Intent('Release', { parallel: true })
+      .step('Deploy', { dependencies: ['Build', 'Test'], verify: () => true })
+      .step('Build', { action: async () => undefined, verify: () => true, retries: 2 })
+      .step('Test', { dependencies: ['Build'], verify: () => true, timeout: 1000 })
+      .step('Lint', { verify: () => true })
+      .plan();
+    
+    expect(plan).toMatchObject({ goal: 'Release', parallel: true, warnings: [], errors: [] });
+    expect(plan.steps.map(step => [step.name, step.wave, step.dependencies])).toEqual([
+      ['Build', 0, []],
+      ['Test', 1, ['Build']],
+      ['Deploy', 2, ['Build', 'Test']],
+      ['Lint', 0, []]
+    ]);
+    expect(plan.waves).toEqual([['Build', 'Lint'], ['Test'], ['Deploy']]);
+    expect(plan.steps[0]).toMatchObject({ action: true, rollback: false, retries: 2, verify: { type: 'function' } });
+    expect(plan.steps[1].timeout).toBe(1000);
+  });
+  
+  it('warns about unknown dependencies, commands without expectations and empty intents', () => {
+    const plan = new Intent('Release')
+      .step('Build', { verify: 'npm run build' })
+      .step('Deploy', { dependencies: ['Package'], verify: 'npm run deploy', expect: { exitCode: 0 } })
+      .plan();
+    
+    expect(plan.warnings).toEqual([
+      'Step "Build" has no expectation; only the exit code will be checked',
+      'Step "Deploy" depends on unknown step "Package" and will be skipped'
+    ]);
+    expect(plan.errors).toEqual([]);
+    expect(new Intent('Nothing').plan().warnings).toEqual(['Intent has no steps']);
+  });
+  
+  it('reports a dependency cycle as an error, keeping the declared order', () => {
+    const plan = new Intent('Cyclic')
+      .step('A', { dependencies: ['B'], verify: () => true })
+      .step('B', { dependencies: ['A'], verify: () => true })
+      .plan();
+    
+    expect(plan.errors).toEqual(['Dependency cycle detected: A → B → A']);
+    expect(plan.steps.map(step => step.name)).toEqual(['A', 'B']);
+    expect(plan.waves).toEqual([]);
+  });
+  
+  it('describes the checks around the steps, secrets in their environment redacted', () => {
+    const plan = new Intent('Publish')
+      .requires({ type: 'command', command: 'npm whoami', env: { NPM_TOKEN: 'npm_abc', REGISTRY: 'npmjs' } }, { contains: 'ada' })
+      .invariant(() => true)
+      .step('Publish', { verify: () => true })
+      .ensures({ type: 'file', path: 'dist/index.js' })
+      .plan();
+    
+    expect(plan.preconditions).toEqual([{
+      verify: expect.objectContaining({ type: 'command', command: 'npm whoami', env: { NPM_TOKEN: REDACTED, REGISTRY: 'npmjs' } }),
+      expect: { contains: 'ada' },
+      critical: true
+    }]);
+    expect(plan.invariants).toEqual([expect.objectContaining({ verify: { type: 'function' } })]);
+    expect(plan.postconditions).toEqual([expect.objectContaining({ verify: expect.objectContaining({ type: 'file' }) })]);
+  });
+});
+
+describe('dry runs', () => {
+  it('return the plan without running any action or command', async () => {
+    const marker = path.join(dir, 'ran');
+    const touch = `node -e "require('fs').writeFileSync(process.argv[1], '')" ${marker}`;
+    let acted = false;
+    const intent = new Intent('Release')
+      .requires(touch)
+      .step('Build', { action: async () => { acted = true; }, verify: touch, expect: { exitCode: 0 } });
+    const plans: IntentPlan[] = [];
+    intent.on('plan', plan => plans.push(plan));
+    
+    const result = await intent.execute({ dryRun: true });
+    
+    expect(result).toMatchObject({ success: true, status: 'pending', verificationLog: [], duration: 0 });
+    expect(result.plan).toEqual(intent.plan());
+    expect(plans).toHaveLength(1);
+    expect(acted).toBe(false);
+    expect(fs.existsSync(marker)).toBe(false);
+    expect(result.steps.map(step => step.status)).toEqual(['pending']);
+  });
+  
+  it('follow the intent\'s own dryRun option, and fail when the plan has errors', async () => {
+    const cyclic = new Intent('Cyclic', { dryRun: true })
+      .step('A', { dependencies: ['B'], action: async () => { throw new Error('ran'); }, verify: () => true })
+      .step('B', { dependencies: ['A'], verify: () => true });
+    
+    const result = await cyclic.execute();
+    
+    expect(result).toMatchObject({ success: false, status: 'pending' });
+    expect(result.plan?.errors).toEqual(['Dependency cycle detected: A → B → A']);
+    expect((await cyclic.execute({ dryRun: false })).failedStep).toBe('dependencies');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { attachReporter, createReporter, JUnitReporter, MarkdownReporter } from '../src/reporters';
+import { Intent } from '../src/intent';
+import { IntentExecutionResult, Reporter } from '../src/types';
+
+// Build passes, Test throws, Deploy waits on Test, and the run stops before it reaches Notify
+function failingIntent(): Intent {
+  return new Intent('Ship it', { id: 'ship' })
+    .step('Build', { verify: () => true })
+    .step('Test', { verify: () => { throw new Error('runner crashed'); } })
+    .step('Deploy', { dependencies: ['Test'], verify: () => true })
+    .step('Notify', { verify: () => true });
+}
+
+async function report(intent: Intent, reporter: Reporter): Promise<IntentExecutionResult> {
+  const detach = attachReporter(intent, reporter);
+  try {
+    return await intent.execute();
+  } finally {
+    detach();
+  }
+}
+
+function resumedResult(): IntentExecutionResult {
+  return {
+    intentId: 'ship',
+    goal: 'Ship it',
+    success: true,
+    status: 'completed',
+    steps: [],
+    duration: 12,
+    verificationLog: [],
+    runId: 'run-2',
+    resumedFrom: { runId: 'run-1', logHead: 'abc', steps: ['Build'] }
+  };
+}
+
+describe('attachReporter', () => {
+  it('reports a step that threw once, as failed', async () => {
+    const reporter = createReporter('json');
+    await report(failingIntent(), reporter);
+    const [intent] = JSON.parse(reporter.render()).intents;
+    
+    expect(intent.steps.filter((step: any) => step.name === 'Test')).toEqual([
+      expect.objectContaining({ status: 'failed', reason: expect.stringContaining('runner crashed') })
+    ]);
+  });
+  
+  it('counts a step:error as a failure even without a step:failed after it', () => {
+    const intent = new Intent('Errors', { id: 'errors' });
+    const reporter = createReporter('json');
+    attachReporter(intent, reporter);
+    intent.emit('start', { runId: 'run-1' });
+    intent.emit('step:error', { step: 'Crash', error: 'boom' });
+    
+    expect(JSON.parse(reporter.render()).intents[0].steps).toEqual([{ name: 'Crash', status: 'failed', reason: 'boom' }]);
+  });
+  
+  it('reports steps the run never reached as skipped', async () => {
+    const reporter = createReporter('json');
+    await report(failingIntent(), reporter);
+    const [intent] = JSON.parse(reporter.render()).intents;
+    
+    expect(intent.steps.map((step: any) => [step.name, step.status])).toEqual([
+      ['Build', 'completed'],
+      ['Test', 'failed'],
+      ['Deploy', 'skipped'],
+      ['Notify', 'skipped']
+    ]);
+  });
+  
+  it('stops feeding the reporter once detached', async () => {
+    const intent = new Intent('Quiet').step('Only', { verify: () => true });
+    const reporter = createReporter('json');
+    attachReporter(intent, reporter)();
+    await intent.execute();
+    
+    expect(JSON.parse(reporter.render()).intents).toEqual([]);
+  });
+});
+
+describe('JUnitReporter', () => {
+  it('counts every step of the intent, with failures and skips', async () => {
+    const reporter = new JUnitReporter();
+    await report(failingIntent(), reporter);
+    const xml = reporter.render();
+    
+    expect(xml).toContain('<testsuites name="IntentProof" tests="4" failures="1" errors="0" skipped="2"');
+    expect(xml).toContain('<testsuite name="Ship it" tests="4" failures="1" errors="0" skipped="2"');
+    expect(xml).toMatch(/<testcase name="Test" classname="Ship it" time="[\d.]+">\n {6}<failure message="[^"]*runner crashed[^"]*" type="step">/);
+    expect(xml).toContain('<testcase name="Notify" classname="Ship it" time="0.000">\n      <skipped message="not run"/>');
+    expect(xml).toContain('<property name="intentId" value="ship"/>');
+  });
+  
+  it('escapes XML in names and reasons', () => {
+    const reporter = new JUnitReporter();
+    reporter.onStart({ id: 'x', goal: 'a < b & "c"' });
+    reporter.onStep('x', { name: 'step\u0001', status: 'failed', reason: '<boom>' });
+    
+    expect(reporter.render()).toContain('<testcase name="step" classname="a &lt; b &amp; &quot;c&quot;" time="0.000">\n      <failure message="&lt;boom&gt;" type="step">&lt;boom&gt;</failure>');
+  });
+});
+
+describe('MarkdownReporter', () => {
+  it('summarizes each intent with a table of its steps', async () => {
+    const reporter = new MarkdownReporter();
+    await report(failingIntent(), reporter);
+    const markdown = reporter.render();
+    
+    expect(markdown).toMatch(/^## ❌ IntentProof: 0\/1 intent verified\n/);
+    expect(markdown).toContain('### ❌ Ship it');
+    expect(markdown).toMatch(/\n1\/4 steps · \d+ms · run `[^`]+`\n/);
+    expect(markdown).toContain('> **Failed at Test:**');
+    expect(markdown).toMatch(/\| ✅ \| Build \| \d+ms \| {2}\|/);
+    expect(markdown).toContain('| ⏭️ | Notify |  | not run |');
+  });
+  
+  it('names the run a resumed run continued', () => {
+    const reporter = new MarkdownReporter();
+    reporter.onResult(resumedResult());
+    
+    expect(reporter.render()).toContain('run `run-2` · resumed from `run-1`');
+  });
+});
+
+describe('JsonReporter', () => {
+  it('keeps what a resumed run continued from', () => {
+    const reporter = createReporter('json');
+    reporter.onResult(resumedResult());
+    const output = JSON.parse(reporter.render());
+    
+    expect(output).toMatchObject({ tool: 'IntentProof', success: true });
+    expect(output.intents[0]).toMatchObject({ id: 'ship', runId: 'run-2', status: 'completed', resumedFrom: { runId: 'run-1', steps: ['Build'] } });
+  });
+});
+
+describe('SarifReporter', () => {
+  it('reports failed steps as errors and warnings as warnings', async () => {
+    const reporter = createReporter('sarif', { source: 'intent.json' });
+    await report(failingIntent(), reporter);
+    reporter.onWarning('ship', 'scope grew');
+    const [run] = JSON.parse(reporter.render()).runs;
+    
+    expect(run.results.map((result: any) => [result.ruleId, result.level])).toEqual([['step-failed', 'error'], ['warning', 'warning']]);
+    expect(run.results[0].message.text).toMatch(/^Test: .*runner crashed/);
+    expect(run.results[1].locations).toEqual([{ physicalLocation: { artifactLocation: { uri: 'intent.json' } } }]);
+  });
+});
+
+describe('createReporter', () => {
+  it('rejects reporters it does not know', () => {
+    expect(() => createReporter('html')).toThrow('Unknown reporter "html" (expected one of json, junit, markdown, sarif)');
+  });
+});
\ No newline at end of file
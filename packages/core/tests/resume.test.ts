@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Intent } from '../src/intent';
+import { IntentDefinitionError } from '../src/errors';
+import { FileIntentStore } from '../src/store';
+import { IntentCheckpoint } from '../src/types';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-resume-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Build, Migrate (fails until `state.migrated`), Deploy after Migrate; counts how often each action runs
+ */
+function release(state: { migrated: boolean; built?: boolean; buildExpect?: boolean }, ran: string[]): Intent {
+  return new Intent('Release 2.0')
+    .step('Build', {
+      action: async () => { ran.push('Build'); },
+      verify: () => state.built ?? true,
+      expect: state.buildExpect ?? true
+    })
+    .step('Migrate', { action: async () => { ran.push('Migrate'); }, verify: () => state.migrated })
+    .step('Deploy', { action: async () => { ran.push('Deploy'); }, verify: () => true, dependencies: ['Migrate'] });
+}
+
+async function failedRun(state: { migrated: boolean }, ran: string[]): Promise<IntentCheckpoint> {
+  let last: IntentCheckpoint | undefined;
+  const result = await release(state, ran).execute({ onCheckpoint: checkpoint => { last = checkpoint; } });
+  expect(result.failedStep).toBe('Migrate');
+  return last!;
+}
+
+describe('checkpoints', () => {
+  it('record the steps a run proved and where it failed', async () => {
+    const checkpoint = await failedRun({ migrated: false }, []);
+    
+    expect(checkpoint).toMatchObject({ goal: 'Release 2.0', status: 'failed', failedStep: 'Migrate' });
+    expect(checkpoint.steps.map(step => step.name)).toEqual(['Build']);
+    expect(checkpoint.steps[0]).toMatchObject({ definitionHash: expect.any(String), result: expect.objectContaining({ success: true }) });
+  });
+});
+
+describe('Intent.resume', () => {
+  it('carries over proven steps and runs the rest', async () => {
+    const ran: string[] = [];
+    const state = { migrated: false };
+    const checkpoint = await failedRun(state, ran);
+    ran.length = 0;
+    state.migrated = true;
+    
+    const intent = release(state, ran);
+    const resumed: any[] = [];
+    intent.on('step:resumed', event => resumed.push(event));
+    const result = await intent.resume(checkpoint);
+    
+    expect(result.success).toBe(true);
+    expect(ran).toEqual(['Migrate', 'Deploy']);
+    expect(result.resumedFrom).toEqual({ runId: checkpoint.runId, logHead: checkpoint.logHead, steps: ['Build'] });
+    expect(result.runId).not.toBe(checkpoint.runId);
+    expect(result.steps.map(step => step.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(resumed).toEqual([{ step: 'Build', from: checkpoint.runId, reverified: false }]);
+  });
+  
+  it('runs a proven step again when its definition changed', async () => {
+    const ran: string[] = [];
+    const checkpoint = await failedRun({ migrated: false }, ran);
+    ran.length = 0;
+    
+    const result = await release({ migrated: true, built: false, buildExpect: false }, ran).resume(checkpoint);
+    
+    expect(result.success).toBe(true);
+    expect(ran).toEqual(['Build', 'Migrate', 'Deploy']);
+    expect(result.resumedFrom?.steps).toEqual([]);
+  });
+  
+  it('re-verifies proven steps when asked, running those that no longer pass in full', async () => {
+    const ran: string[] = [];
+    const checkpoint = await failedRun({ migrated: false }, ran);
+    ran.length = 0;
+    
+    const passing = await release({ migrated: true }, ran).resume(checkpoint, { reverify: true });
+    expect(ran).toEqual(['Migrate', 'Deploy']);
+    expect(passing.verificationLog.map(entry => entry.source)).toContain('Build (re-verified)');
+    expect(passing.resumedFrom?.steps).toEqual(['Build']);
+    
+    ran.length = 0;
+    const failing = await release({ migrated: true, built: false }, ran).resume(checkpoint, { reverify: true });
+    expect(ran[0]).toBe('Build');
+    expect(failing).toMatchObject({ success: false, failedStep: 'Build' });
+    expect(failing.resumedFrom?.steps).toEqual([]);
+  });
+  
+  it('checks the invariants again before carrying anything over', async () => {
+    const ran: string[] = [];
+    const checkpoint = await failedRun({ migrated: false }, ran);
+    ran.length = 0;
+    
+    const result = await release({ migrated: true }, ran).invariant(() => false).resume(checkpoint);
+    
+    expect(result).toMatchObject({ success: false, failedStep: 'invariant on resume' });
+    expect(ran).toEqual([]);
+  });
+  
+  it('refuses a checkpoint of another intent', async () => {
+    const checkpoint = await failedRun({ migrated: false }, []);
+    const other = new Intent('Release 3.0').step('Build', { verify: () => true });
+    
+    await expect(other.resume(checkpoint)).rejects.toThrow(IntentDefinitionError);
+    await expect(other.resume(checkpoint)).rejects.toThrow('Checkpoint is for "Release 2.0", not "Release 3.0"');
+  });
+  
+  it('resumes from a checkpoint read back from a store, diffing from the first run\'s snapshot', async () => {
+    const root = path.join(dir, 'workspace');
+    fs.mkdirSync(root);
+    fs.writeFileSync(path.join(root, 'version.txt'), '1.0');
+    const store = new FileIntentStore(path.join(dir, '.intentproof'));
+    const state = { migrated: false };
+    const build = () => new Intent('Release 2.0', { workspace: { root } })
+      .step('Bump', { action: async () => fs.writeFileSync(path.join(root, 'version.txt'), '2.0'), verify: () => true })
+      .step('Migrate', { verify: () => state.migrated });
+    
+    const first = await build().execute({ onCheckpoint: checkpoint => store.saveCheckpoint(checkpoint) });
+    expect(first.success).toBe(false);
+    
+    state.migrated = true;
+    const saved: IntentCheckpoint[] = [];
+    const checkpoint = (await store.getCheckpoint(first.runId!))!;
+    const result = await build().resume(checkpoint, { onCheckpoint: next => { saved.push(next); } });
+    
+    expect(result.success).toBe(true);
+    expect(result.resumedFrom?.steps).toEqual(['Bump']);
+    expect(result.changes?.modified.map(change => change.path)).toEqual(['version.txt']);
+    expect(saved[saved.length - 1]).toMatchObject({ status: 'completed', resumedFrom: first.runId });
+  });
+});
\ No newline at end of file
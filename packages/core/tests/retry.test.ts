@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { Intent } from '../src/intent';
+import { TimeoutError } from '../src/errors';
+import { backoffDelay, sleep, withTimeout } from '../src/timing';
+
+describe('backoffDelay', () => {
+  it('spaces retries by the chosen strategy', () => {
+    expect([1, 2, 3].map(attempt => backoffDelay('fixed', 100, attempt))).toEqual([100, 100, 100]);
+    expect([1, 2, 3].map(attempt => backoffDelay('linear', 100, attempt))).toEqual([100, 200, 300]);
+    expect([1, 2, 3].map(attempt => backoffDelay('exponential', 100, attempt))).toEqual([100, 200, 400]);
+  });
+});
+
+describe('withTimeout', () => {
+  it('settles with the work when it finishes in time', async () => {
+    await expect(withTimeout(Promise.resolve('done'), 50)).resolves.toBe('done');
+    await expect(withTimeout(sleep(5).then(() => 'late but fine'), undefined)).resolves.toBe('late but fine');
+  });
+  
+  it('rejects with a TimeoutError naming the operation', async () => {
+    const error = await withTimeout(sleep(200), 10, 'Fetch').catch(caught => caught);
+    
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toBe('Fetch timed out after 10ms');
+  });
+});
+
+describe('step retries', () => {
+  // A check that fails until it has been called `failures` times
+  function flaky(failures: number) {
+    let calls = 0;
+    return { verify: () => ++calls > failures, calls: () => calls };
+  }
+  
+  it('retries a failed step up to its retries, with backoff between attempts', async () => {
+    const check = flaky(2);
+    const retries: Array<{ attempt: number; delay: number }> = [];
+    const intent = new Intent('Flaky').step('Poll', { verify: check.verify, retries: 3, retryDelay: 5, backoff: 'linear' });
+    intent.on('step:retry', ({ attempt, delay }) => retries.push({ attempt, delay }));
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(true);
+    expect(check.calls()).toBe(3);
+    expect(retries).toEqual([{ attempt: 1, delay: 5 }, { attempt: 2, delay: 10 }]);
+    expect(result.steps[0].retryCount).toBe(2);
+  });
+  
+  it('fails once the retries run out', async () => {
+    const check = flaky(5);
+    const result = await new Intent('Flaky').step('Poll', { verify: check.verify, retries: 2, retryDelay: 0 }).execute();
+    
+    expect(result.success).toBe(false);
+    expect(result.failedStep).toBe('Poll');
+    expect(check.calls()).toBe(3);
+  });
+  
+  it('falls back to the intent-level maxRetries and retryDelay', async () => {
+    const check = flaky(1);
+    const ownRetries = flaky(1);
+    const result = await new Intent('Flaky', { maxRetries: 1, retryDelay: 0 })
+      .step('Inherits', { verify: check.verify })
+      .step('Overrides', { verify: ownRetries.verify, retries: 0 })
+      .execute();
+    
+    expect(check.calls()).toBe(2);
+    expect(ownRetries.calls()).toBe(1);
+    expect(result.failedStep).toBe('Overrides');
+  });
+  
+  it('retries actions that throw', async () => {
+    let calls = 0;
+    const result = await new Intent('Throws')
+      .step('Connect', {
+        action: async () => {
+          if (++calls === 1) throw new Error('refused');
+        },
+        verify: () => true,
+        retries: 1,
+        retryDelay: 0
+      })
+      .execute();
+    
+    expect(result.success).toBe(true);
+    expect(calls).toBe(2);
+  });
+});
+
+describe('timeouts', () => {
+  it('fails a step that runs past its timeout', async () => {
+    const timeouts: string[] = [];
+    const intent = new Intent('Slow').step('Wait', { action: () => sleep(500), verify: () => true, timeout: 20 });
+    intent.on('step:timeout', ({ step }) => timeouts.push(step));
+    const result = await intent.execute();
+    
+    expect(result).toMatchObject({ success: false, failedStep: 'Wait', failureReason: 'Step action timed out after 20ms', timedOut: true });
+    expect(timeouts).toEqual(['Wait']);
+  });
+  
+  it('gives the verification only the time the action left', async () => {
+    const result = await new Intent('Slow')
+      .step('Both', { action: () => sleep(30), verify: () => sleep(100).then(() => true), timeout: 60 })
+      .execute();
+    
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBe(true);
+  });
+  
+  it('stops the whole intent at its deadline', async () => {
+    let reached = false;
+    const started = Date.now();
+    const result = await new Intent('Deadline', { timeout: 40 })
+      .step('First', { action: () => sleep(25), verify: () => true })
+      .step('Second', { action: () => sleep(500), verify: () => true })
+      .step('Third', { action: async () => { reached = true; }, verify: () => true })
+      .execute();
+    
+    expect(result.success).toBe(false);
+    expect(result.timedOut).toBe(true);
+    expect(reached).toBe(false);
+    expect(Date.now() - started).toBeLessThan(400);
+  });
+  
+  it('does not retry past the intent deadline', async () => {
+    let calls = 0;
+    const result = await new Intent('Deadline', { timeout: 30 })
+      .step('Poll', { verify: () => ++calls < 0, retries: 100, retryDelay: 10 })
+      .execute();
+    
+    expect(result.success).toBe(false);
+    expect(calls).toBeLessThan(10);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Intent } from '../src/intent';
+
+// Three steps that note their rollbacks; `failAt` names the step whose check fails
+function intentFailingAt(failAt: string, options = {}) {
+  const undone: string[] = [];
+  const intent = new Intent('Migrate', options);
+  for (const name of ['Create table', 'Backfill', 'Switch reads']) {
+    intent.step(name, {
+      verify: () => name !== failAt,
+      rollback: async () => {
+        undone.push(name);
+      }
+    });
+  }
+  return { intent, undone };
+}
+
+describe('rollback', () => {
+  it('undoes completed steps in reverse order when a step fails', async () => {
+    const { intent, undone } = intentFailingAt('Switch reads');
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(false);
+    expect(undone).toEqual(['Backfill', 'Create table']);
+    expect(result.rollbacks).toEqual([
+      { step: 'Backfill', success: true, duration: expect.any(Number) },
+      { step: 'Create table', success: true, duration: expect.any(Number) }
+    ]);
+    expect(result.steps.map(step => step.status)).toEqual(['reverted', 'reverted', 'failed']);
+  });
+  
+  it('leaves the steps that never completed alone', async () => {
+    const { intent, undone } = intentFailingAt('Create table');
+    const result = await intent.execute();
+    
+    expect(undone).toEqual([]);
+    expect(result.rollbacks).toBeUndefined();
+  });
+  
+  it('keeps unwinding after a rollback fails', async () => {
+    const undone: string[] = [];
+    const failures: Array<{ step: string; error: string }> = [];
+    const intent = new Intent('Deploy')
+      .step('Upload', { verify: () => true, rollback: async () => { undone.push('Upload'); } })
+      .step('Migrate', { verify: () => true, rollback: async () => { throw new Error('locked'); } })
+      .step('Untracked', { verify: () => true })
+      .step('Release', { verify: () => false });
+    intent.on('rollback:failed', event => failures.push(event));
+    const result = await intent.execute();
+    
+    expect(undone).toEqual(['Upload']);
+    expect(failures).toEqual([{ step: 'Migrate', error: 'locked' }]);
+    expect(result.rollbacks!.map(rollback => [rollback.step, rollback.success])).toEqual([['Migrate', false], ['Upload', true]]);
+    expect(result.steps.map(step => step.status)).toEqual(['reverted', 'completed', 'completed', 'failed']);
+  });
+  
+  it('does not roll back when rollbackOnFailure is off', async () => {
+    const { intent, undone } = intentFailingAt('Switch reads', { rollbackOnFailure: false });
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(false);
+    expect(undone).toEqual([]);
+  });
+  
+  it('does not roll back a run that succeeded', async () => {
+    const { intent, undone } = intentFailingAt('none');
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(true);
+    expect(undone).toEqual([]);
+  });
+  
+  it('announces the rollback phase and each step rolled back', async () => {
+    const { intent } = intentFailingAt('Backfill');
+    const events: string[] = [];
+    intent.on('phase', phase => events.push(`phase ${phase}`));
+    intent.on('step:rollback', ({ step }) => events.push(`rollback ${step}`));
+    await intent.execute();
+    
+    expect(events.slice(events.indexOf('phase rollback'))).toEqual(['phase rollback', 'rollback Create table']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { resolveStepGraph } from '../src/scheduler';
+import { DependencyCycleError, IntentDefinitionError } from '../src/errors';
+import { Intent } from '../src/intent';
+import { sleep } from '../src/timing';
+
+function steps(...specs: Array<[string, string[]?]>) {
+  return specs.map(([name, dependencies]) => ({ id: `id-${name}`, name, dependencies }));
+}
+
+describe('resolveStepGraph', () => {
+  it('orders steps after their dependencies, keeping declaration order otherwise', () => {
+    const graph = resolveStepGraph(steps(['Deploy', ['Build', 'Test']], ['Lint'], ['Test', ['Build']], ['Build']));
+    
+    expect(graph.order).toEqual(['id-Lint', 'id-Build', 'id-Test', 'id-Deploy']);
+    expect(graph.waves).toEqual([['id-Lint', 'id-Build'], ['id-Test'], ['id-Deploy']]);
+    expect(graph.dependencies.get('id-Deploy')).toEqual(['id-Build', 'id-Test']);
+  });
+  
+  it('resolves dependencies by id as well as by name, once each', () => {
+    const graph = resolveStepGraph(steps(['A'], ['B', ['id-A', 'A']]));
+    
+    expect(graph.dependencies.get('id-B')).toEqual(['id-A']);
+  });
+  
+  it('sets aside dependencies that match no step', () => {
+    const graph = resolveStepGraph(steps(['A', ['Missing']], ['B']));
+    
+    expect(graph.unresolved).toEqual(new Map([['id-A', ['Missing']]]));
+    expect(graph.order).toEqual(['id-A', 'id-B']);
+  });
+  
+  it('names the steps of a cycle in order', () => {
+    let error: any;
+    try {
+      resolveStepGraph(steps(['Start'], ['A', ['C']], ['B', ['A']], ['C', ['B']]));
+    } catch (caught) {
+      error = caught;
+    }
+    
+    expect(error).toBeInstanceOf(DependencyCycleError);
+    expect(error.cycle).toEqual(['A', 'C', 'B', 'A']);
+    expect(error.message).toBe('Dependency cycle detected: A → C → B → A');
+  });
+  
+  it('rejects a dependency on a name several steps share', () => {
+    expect(() => resolveStepGraph(steps(['A'], ['A'], ['B', ['A']])))
+      .toThrow(new IntentDefinitionError('Step "B" depends on "A", but 2 steps share that name'));
+  });
+});
+
+describe('Intent step scheduling', () => {
+  // An intent whose steps record when they start and finish
+  function timed(options: { parallel?: boolean; concurrency?: number }, specs: Array<[string, string[]?]>) {
+    const events: string[] = [];
+    let running = 0;
+    let peak = 0;
+    const intent = new Intent('Scheduled', options);
+    for (const [name, dependencies] of specs) {
+      intent.step(name, {
+        dependencies,
+        action: async () => {
+          events.push(`start ${name}`);
+          peak = Math.max(peak, ++running);
+          await sleep(20);
+          running--;
+          events.push(`end ${name}`);
+        },
+        verify: () => true
+      });
+    }
+    return { intent, events, peak: () => peak };
+  }
+  
+  it('runs steps one at a time in dependency order by default', async () => {
+    const { intent, events, peak } = timed({}, [['Deploy', ['Build']], ['Build'], ['Lint']]);
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(true);
+    expect(events).toEqual(['start Build', 'end Build', 'start Deploy', 'end Deploy', 'start Lint', 'end Lint']);
+    expect(peak()).toBe(1);
+  });
+  
+  it('overlaps independent steps when parallel, up to the concurrency limit', async () => {
+    const { intent, events, peak } = timed({ parallel: true, concurrency: 2 }, [['A'], ['B'], ['C'], ['D', ['A', 'B', 'C']]]);
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(true);
+    expect(peak()).toBe(2);
+    expect(events.slice(0, 2)).toEqual(['start A', 'start B']);
+    expect(events.indexOf('start D')).toBeGreaterThan(events.indexOf('end C'));
+  });
+  
+  it('skips the dependents of a failed step and runs the rest', async () => {
+    const skipped: Array<{ step: string; reason: string }> = [];
+    const intent = new Intent('Partial', { stopOnFailure: false })
+      .step('Build', { verify: () => false })
+      .step('Deploy', { dependencies: ['Build'], verify: () => true })
+      .step('Lint', { verify: () => true })
+      .step('Ghost', { dependencies: ['Nowhere'], verify: () => true });
+    intent.on('step:skipped', event => skipped.push(event));
+    const result = await intent.execute();
+    
+    expect(skipped).toEqual([
+      { step: 'Ghost', reason: 'unknown dependencies: Nowhere' },
+      { step: 'Deploy', reason: 'unmet dependencies' }
+    ]);
+    expect(result.steps.map(step => [step.name, step.status])).toEqual([
+      ['Build', 'failed'],
+      ['Deploy', 'skipped'],
+      ['Lint', 'completed'],
+      ['Ghost', 'skipped']
+    ]);
+  });
+  
+  it('fails a run whose steps form a cycle before running any of them', async () => {
+    let ran = false;
+    const intent = new Intent('Cyclic')
+      .step('A', { dependencies: ['B'], action: async () => { ran = true; }, verify: () => true })
+      .step('B', { dependencies: ['A'], verify: () => true });
+    
+    const result = await intent.execute();
+    
+    expect(result).toMatchObject({ success: false, status: 'failed', failedStep: 'dependencies', failureReason: 'Dependency cycle detected: A → B → A' });
+    expect(ran).toBe(false);
+  });
+  
+  it('reports a step that throws against that step, waiting for its siblings before rolling back', async () => {
+    const events: string[] = [];
+    const intent = new Intent('Parallel', { parallel: true, concurrency: 2 })
+      .step('Slow', {
+        action: async () => { await sleep(30); events.push('end Slow'); },
+        verify: () => true,
+        rollback: async () => { events.push('undo Slow'); }
+      })
+      .step('Broken', { verify: () => true });
+    intent.on('step:start', ({ step }) => {
+      if (step === 'Broken') throw new Error('listener failed');
+    });
+    
+    const result = await intent.execute();
+    
+    expect(result).toMatchObject({ success: false, status: 'failed', failedStep: 'Broken', failureReason: 'listener failed' });
+    expect(result.steps.map(step => [step.name, step.status])).toEqual([['Slow', 'reverted'], ['Broken', 'failed']]);
+    expect(events).toEqual(['end Slow', 'undo Slow']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { checkScope, diffSnapshots, snapshotWorkspace } from '../src/workspace';
+import { Intent } from '../src/intent';
+
+let root: string;
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), content);
+}
+
+function lines(count: number): string {
+  return Array.from({ length: count }, (_, index) => `line ${index}`).join('\n') + '\n';
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-scope-'));
+  write('src/limiter.ts', lines(10));
+  write('README.md', 'readme\n');
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('checkScope', () => {
+  it('passes changes inside the allowed globs and budgets', async () => {
+    const before = await snapshotWorkspace({ root, lines: true });
+    write('src/limiter.ts', lines(12));
+    write('src/bucket.ts', lines(3));
+    const changes = diffSnapshots(before, await snapshotWorkspace({ root, lines: true }));
+    
+    const result = checkScope(changes, { allowed: ['src/**'], maxFiles: 2, maxLines: 5 });
+    
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('Changes within scope (2 file(s))');
+    expect(result.actual).toEqual(expect.arrayContaining(['src/limiter.ts', 'src/bucket.ts']));
+    expect(result.evidence).toEqual([`2 file(s) changed under ${root}`, '5 line(s) changed across 2 text file(s)']);
+    expect(result.records).toEqual([expect.objectContaining({ kind: 'workspace', root, added: 1, modified: 1, deleted: 0 })]);
+  });
+  
+  it('names the files outside the allowed globs', async () => {
+    const before = await snapshotWorkspace({ root });
+    write('README.md', 'changed\n');
+    fs.rmSync(path.join(root, 'src/limiter.ts'));
+    const changes = diffSnapshots(before, await snapshotWorkspace({ root }));
+    
+    const result = checkScope(changes, { allowed: ['docs/**', 'src/bucket.ts'] });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/^Out of scope: 2 file\(s\) changed outside docs\/\*\*, src\/bucket\.ts \(/);
+    expect(result.evidence?.filter(line => line.startsWith('Out of scope: '))).toHaveLength(2);
+  });
+  
+  it('reports file and line budgets, listing the largest changes', async () => {
+    const before = await snapshotWorkspace({ root, lines: true });
+    write('src/limiter.ts', lines(20));
+    write('README.md', 'readme\nmore\n');
+    const changes = diffSnapshots(before, await snapshotWorkspace({ root, lines: true }));
+    
+    const result = checkScope(changes, { maxFiles: 1, maxLines: 4 });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Out of scope: 2 files changed, budget is 1; 11 lines changed, budget is 4 (largest: src/limiter.ts 10, README.md 1)');
+  });
+  
+  it('leaves files without line counts out of the line budget', async () => {
+    const before = await snapshotWorkspace({ root });
+    write('src/limiter.ts', lines(100));
+    const changes = diffSnapshots(before, await snapshotWorkspace({ root }));
+    
+    const result = checkScope(changes, { maxLines: 1 });
+    
+    expect(result.success).toBe(true);
+    expect(result.evidence).toContain('0 line(s) changed across 0 text file(s)');
+  });
+});
+
+describe('Intent scope', () => {
+  it('fails the intent when a step changes files out of scope', async () => {
+    const failed: any[] = [];
+    const intent = new Intent('Tune the limiter', { workspace: { root } })
+      .scope({ allowed: ['src/**'] })
+      .step('Edit', { action: async () => write('README.md', 'changed\n'), verify: () => true });
+    intent.on('failed', event => failed.push(event));
+    
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(false);
+    expect(result.failedStep).toBe('scope');
+    expect(result.failureReason).toContain('1 file(s) changed outside src/**');
+    expect(failed).toEqual([expect.objectContaining({ phase: 'scope' })]);
+  });
+  
+  it('reports a warning-level violation without failing, and counts lines for a line budget', async () => {
+    const warnings: any[] = [];
+    const intent = new Intent('Tune the limiter', { workspace: { root } })
+      .scope({ maxLines: 1, severity: 'warning' })
+      .step('Edit', { action: async () => write('src/limiter.ts', lines(13)), verify: () => true });
+    intent.on('warning', event => warnings.push(event));
+    
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual(['Out of scope: 3 lines changed, budget is 1 (largest: src/limiter.ts 3)']);
+    expect(warnings).toEqual([expect.objectContaining({ phase: 'scope', evidence: expect.arrayContaining(['3 line(s) changed across 1 text file(s)']) })]);
+    expect(result.changes?.modified.map(change => change.path)).toEqual(['src/limiter.ts']);
+  });
+  
+  it('shows the scope in the plan', () => {
+    const plan = new Intent('Tune the limiter')
+      .scope({ allowed: ['src/**'], maxFiles: 3 })
+      .step('Edit', { action: async () => undefined, verify: () => true })
+      .plan();
+    
+    expect(plan.scope).toEqual({ allowed: ['src/**'], maxFiles: 3 });
+  });
+});
\ No newline at end of file
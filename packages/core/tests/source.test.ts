@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SourceVerifier } from '../src/verifiers/source';
+import { Intent } from '../src/intent';
+
+const verifier = new SourceVerifier();
+let dir: string;
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+  fs.writeFileSync(path.join(dir, file), content);
+}
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-source-'));
+  write('src/limiter.ts', [
+    'export interface Limiter {',
+    '  take(key: string): boolean;',
+    '}',
+    '',
+    'export type Window = { size: number };',
+    '',
+    'export enum Mode { Fixed, Sliding }',
+    '',
+    'export class BaseLimiter implements Limiter {',
+    '  take(key: string): boolean {',
+    '    return key.length > 0;',
+    '  }',
+    '}',
+    '',
+    'export class TokenBucket extends BaseLimiter {',
+    '  refill(tokens: number, at?: Date): void {}',
+    '}',
+    '',
+    'export function createLimiter(rps: number, burst = 10): Limiter {',
+    '  return new TokenBucket();',
+    '}',
+    '',
+    'export const DEFAULT_RPS = 10;',
+    ''
+  ].join('\n'));
+  write('src/legacy.ts', [
+    'export const check = (key: string) => console.log(key);',
+    ''
+  ].join('\n'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SourceVerifier', () => {
+  it('checks exports and their kinds', async () => {
+    const result = await verifier.verify({
+      type: 'source',
+      cwd: dir,
+      exports: [
+        { file: 'src/limiter.ts', name: 'Limiter', kind: 'interface' },
+        { file: 'src/limiter.ts', name: 'Window', kind: 'type' },
+        { file: 'src/limiter.ts', name: 'Mode', kind: 'enum' },
+        { file: 'src/limiter.ts', name: 'TokenBucket', kind: 'class' },
+        { file: 'src/limiter.ts', name: 'createLimiter', kind: 'function' },
+        { file: 'src/limiter.ts', name: 'DEFAULT_RPS', kind: 'variable' },
+        { file: 'src/legacy.ts', name: 'removed', exists: false }
+      ]
+    });
+    
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('Source checks passed');
+    expect(result.evidence).toContain('Analysed 2 file(s) in ' + dir);
+    expect(result.evidence).toContain('Exported class: src/limiter.ts:15:1');
+    expect(result.records).toEqual(expect.arrayContaining([
+      expect.objectContaining({ kind: 'file', path: path.join(dir, 'src/limiter.ts') })
+    ]));
+  });
+  
+  it('says which export is missing, of the wrong kind or still there', async () => {
+    const result = await verifier.verify({
+      type: 'source',
+      cwd: dir,
+      exports: [
+        { file: 'src/limiter.ts', name: 'SlidingWindow' },
+        { file: 'src/limiter.ts', name: 'Limiter', kind: 'class' },
+        { file: 'src/legacy.ts', name: 'check', exists: false },
+        { file: 'src/missing.ts', name: 'x' }
+      ]
+    });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Source checks failed: ' + [
+      'export SlidingWindow from src/limiter.ts: not exported',
+      'export Limiter from src/limiter.ts: is a interface, not a class',
+      'export check from src/legacy.ts: still exported',
+      'export x from src/missing.ts: file not found'
+    ].join('; '));
+    expect(result.evidence).toContain('Still exported: src/legacy.ts:1:14');
+  });
+  
+  it('compares signatures of functions, arrow functions and methods', async () => {
+    const passed = await verifier.verify({
+      type: 'source',
+      cwd: dir,
+      signatures: [
+        { name: 'createLimiter', parameters: ['number', 'burst: number'], returns: 'Limiter' },
+        { name: 'TokenBucket.refill', parameters: ['number', 'at: Date'], returns: 'void' },
+        { name: 'Limiter.take', file: 'src/limiter.ts', parameters: ['key: string'], returns: 'boolean' },
+        { name: 'check', returns: 'void' }
+      ]
+    });
+    expect(passed.success).toBe(true);
+    expect(passed.evidence).toContain('src/limiter.ts:19:1 createLimiter(rps: number, burst: number) => Limiter');
+    
+    const failed = await verifier.verify({
+      type: 'source',
+      cwd: dir,
+      signatures: [
+        { name: 'createLimiter', parameters: ['number'] },
+        { name: 'TokenBucket.refill', returns: 'Promise<void>' },
+        { name: 'TokenBucket.drain' }
+      ]
+    });
+    expect(failed.success).toBe(false);
+    expect(failed.message).toBe('Source checks failed: ' + [
+      'signature of createLimiter at src/limiter.ts:19:1: expected parameters (number), got (rps: number, burst: number) => Limiter',
+      'signature of TokenBucket.refill at src/limiter.ts:16:3: expected return type Promise<void>, got void',
+      'signature of TokenBucket.drain: function not found'
+    ].join('; '));
+  });
+  
+  it('finds implements clauses on the class or a base class', async () => {
+    const passed = await verifier.verify({
+      type: 'source',
+      cwd: dir,
+      implements: [{ class: 'TokenBucket', interface: 'Limiter' }]
+    });
+    expect(passed.success).toBe(true);
+    expect(passed.evidence).toContain('src/limiter.ts:9:37 TokenBucket implements Limiter');
+    
+    write('src/other.ts', 'export class Plain {}\n');
+    const failed = await verifier.verify({
+      type: 'source',
+      cwd: dir,
+      implements: [
+        { class: 'Plain', interface: 'Limiter' },
+        { class: 'Missing', interface: 'Limiter' }
+      ]
+    });
+    expect(failed.message).toBe('Source checks failed: ' + [
+      'Plain implements Limiter: not declared at src/other.ts:1:1',
+      'Missing implements Limiter: class not found'
+    ].join('; '));
+  });
+  
+  it('reports forbidden calls with their locations', async () => {
+    const result = await verifier.verify({
+      type: 'source',
+      cwd: dir,
+      noCalls: ['console.log', 'eval()', 'TokenBucket']
+    });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Source checks failed: noCalls: console.log is called 1 time(s); noCalls: TokenBucket is called 1 time(s)');
+    expect(result.evidence).toContain('Call: src/legacy.ts:1:39 console.log(key)');
+    expect(result.evidence).toContain('Call: src/limiter.ts:20:10 new TokenBucket()');
+  });
+  
+  it('type-checks only the selected files', async () => {
+    write('src/broken.ts', 'export const n: number = "one";\n');
+    
+    const clean = await verifier.verify({ type: 'source', cwd: dir, files: ['src/limiter.ts'], typechecks: true });
+    expect(clean.success).toBe(true);
+    expect(clean.evidence).toContain('Typecheck: 0 errors');
+    
+    const broken = await verifier.verify({ type: 'source', cwd: dir, typechecks: true });
+    expect(broken.success).toBe(false);
+    expect(broken.message).toBe('Source checks failed: typechecks: 1 error(s)');
+    expect(broken.evidence).toContain("src/broken.ts:1:14 TS2322: Type 'string' is not assignable to type 'number'.");
+  });
+  
+  it('reads the file list and compiler options from tsconfig', async () => {
+    write('src/loose.ts', 'export function echo(value) { return value; }\n');
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true }, include: ['src/limiter.ts'] }));
+    
+    const limited = await verifier.verify({ type: 'source', cwd: dir, typechecks: true });
+    expect(limited.success).toBe(true);
+    expect(limited.evidence?.[0]).toBe('Analysed 1 file(s) in ' + dir);
+    expect(limited.records?.[0]).toMatchObject({ path: path.join(dir, 'tsconfig.json') });
+    
+    write('tsconfig.json', JSON.stringify({ compilerOptions: { strict: true }, include: ['src'] }));
+    const strict = await verifier.verify({ type: 'source', cwd: dir, tsconfig: 'tsconfig.json', files: ['src/loose.ts'], typechecks: true });
+    expect(strict.success).toBe(false);
+    expect(strict.evidence).toContain("src/loose.ts:1:22 TS7006: Parameter 'value' implicitly has an 'any' type.");
+  });
+  
+  it('fails when the tsconfig cannot be read', async () => {
+    const result = await verifier.verify({ type: 'source', cwd: dir, tsconfig: 'missing.json' });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/^Could not load sources: .*missing\.json/);
+  });
+  
+  it('returns a cancelled result when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    
+    const result = await verifier.verify({ type: 'source', cwd: dir }, undefined, { signal: controller.signal });
+    
+    expect(result.success).toBe(false);
+    expect(result.cancelled).toBe(true);
+  });
+  
+  it('fails a check that overran its time once the compiler finishes', async () => {
+    const result = await verifier.verify({ type: 'source', cwd: dir, typechecks: true }, undefined, { timeout: 0 });
+    
+    expect(result).toMatchObject({ success: false, timedOut: true, message: 'Source checks timed out after 0ms' });
+    
+    const run = await new Intent('Typecheck').step('Typecheck', { verify: { type: 'source', cwd: dir, typechecks: true }, timeout: 1 }).execute();
+    expect(run).toMatchObject({ success: false, failedStep: 'Typecheck' });
+    expect(run.steps[0].result).toMatchObject({ timedOut: true });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileIntentStore, findById, MemoryIntentStore, recordIntent, recordRun } from '../src/store';
+import { Intent } from '../src/intent';
+import { IntentCheckpoint, IntentStore, StoredRun } from '../src/types';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-store-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+function storedRun(id: string, intentId: string, goal: string, startedAt: string, status: StoredRun['status'] = 'completed'): StoredRun {
+  return {
+    id,
+    intentId,
+    goal,
+    status,
+    success: status === 'completed',
+    startedAt,
+    finishedAt: startedAt,
+    result: { intentId, goal, success: status === 'completed', status, steps: [], verificationLog: [], duration: 0 } as any
+  };
+}
+
+const stores: Array<[string, () => IntentStore]> = [
+  ['FileIntentStore', () => new FileIntentStore(path.join(dir, '.intentproof'))],
+  ['MemoryIntentStore', () => new MemoryIntentStore()]
+];
+
+describe.each(stores)('%s', (_, createStore) => {
+  it('records an intent and its runs, keeping the definition across runs', async () => {
+    const store = createStore();
+    const intent = new Intent('Raise the rate limit', { id: 'limits' }).step('Check', { verify: () => true });
+    const definition = { goal: 'Raise the rate limit', steps: [{ name: 'Check', verify: 'true' }] };
+    
+    const recorded = await recordIntent(store, intent, definition);
+    expect(recorded).toMatchObject({ id: 'limits', goal: 'Raise the rate limit', definition, status: 'pending', runs: [] });
+    expect(recorded.plan.steps.map(step => step.name)).toEqual(['Check']);
+    
+    const first = await recordRun(store, intent, await intent.execute());
+    const second = await recordRun(store, intent, await intent.execute());
+    
+    expect(first).toMatchObject({ intentId: 'limits', status: 'completed', success: true });
+    expect(new Date(first.startedAt).getTime()).toBeLessThanOrEqual(new Date(first.finishedAt).getTime());
+    expect(await store.getRun(first.id)).toEqual(first);
+    expect(await store.getIntent('limits')).toMatchObject({ definition, status: 'completed', runs: [first.id, second.id], createdAt: recorded.createdAt });
+  });
+  
+  it('keeps secrets in step environments and headers out of what it stores', async () => {
+    const store = createStore();
+    const env = { API_TOKEN: 'tok_secret', REGION: 'eu' };
+    const definition = {
+      goal: 'Call the API',
+      steps: [
+        { name: 'Check', verify: { type: 'command', command: 'node -e ""', env } },
+        { name: 'Ping', verify: { type: 'http', url: 'http://localhost:1/health', headers: { Authorization: 'Bearer tok_secret' } } }
+      ]
+    };
+    const intent = new Intent('Call the API', { id: 'api' }).step('Check', { verify: { type: 'command', command: 'node -e ""', env } });
+    
+    const run = await recordRun(store, intent, await intent.execute(), definition);
+    
+    const stored = JSON.stringify([await store.getRun(run.id), await store.getIntent('api')]);
+    expect(stored).not.toContain('tok_secret');
+    expect(stored).toContain('"REGION":"eu"');
+    expect((await store.getRun(run.id))!.result.steps[0]).not.toHaveProperty('_definition');
+  });
+  
+  it('returns copies, not the records it keeps', async () => {
+    const store = createStore();
+    const run = storedRun('run-1', 'limits', 'Raise the rate limit', '2026-01-01T00:00:00.000Z');
+    await store.saveRun(run);
+    
+    const read = (await store.getRun('run-1'))!;
+    read.goal = 'edited';
+    expect((await store.getRun('run-1'))!.goal).toBe('Raise the rate limit');
+    expect(await store.getRun('missing')).toBeUndefined();
+    expect(await store.getIntent('missing')).toBeUndefined();
+  });
+  
+  it('finds runs newest first by intent, goal, status and date', async () => {
+    const store = createStore();
+    await store.saveRun(storedRun('run-1', 'limits', 'Raise the rate limit', '2026-01-01T00:00:00.000Z'));
+    await store.saveRun(storedRun('run-2', 'limits', 'Raise the rate limit', '2026-01-03T00:00:00.000Z', 'failed'));
+    await store.saveRun(storedRun('run-3', 'deploy', 'Deploy the API', '2026-01-02T00:00:00.000Z'));
+    
+    const ids = (runs: StoredRun[]) => runs.map(run => run.id);
+    expect(ids(await store.findRuns())).toEqual(['run-2', 'run-3', 'run-1']);
+    expect(ids(await store.findRuns({ id: 'limits' }))).toEqual(['run-2', 'run-1']);
+    expect(ids(await store.findRuns({ goal: 'RATE' }))).toEqual(['run-2', 'run-1']);
+    expect(ids(await store.findRuns({ status: 'failed' }))).toEqual(['run-2']);
+    expect(ids(await store.findRuns({ since: '2026-01-02', until: new Date('2026-01-02T12:00:00Z') }))).toEqual(['run-3']);
+    expect(ids(await store.findRuns({ limit: 1 }))).toEqual(['run-2']);
+  });
+  
+  it('keeps checkpoints by run id', async () => {
+    const store = createStore();
+    const checkpoint: IntentCheckpoint = {
+      runId: 'run-1',
+      intentId: 'limits',
+      goal: 'Raise the rate limit',
+      status: 'running',
+      steps: [],
+      logHead: '0'.repeat(64),
+      startedAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z'
+    };
+    
+    await store.saveCheckpoint(checkpoint);
+    await store.saveCheckpoint({ ...checkpoint, status: 'completed' });
+    
+    expect(await store.getCheckpoint('run-1')).toEqual({ ...checkpoint, status: 'completed' });
+    expect(await store.getCheckpoint('run-2')).toBeUndefined();
+  });
+});
+
+describe('FileIntentStore', () => {
+  it('writes one JSON file per record and leaves no temporary files', async () => {
+    const store = new FileIntentStore(path.join(dir, '.intentproof'));
+    await store.saveRun(storedRun('run-1', 'limits', 'Raise the rate limit', '2026-01-01T00:00:00.000Z'));
+    
+    expect(fs.readdirSync(path.join(dir, '.intentproof/runs'))).toEqual(['run-1.json']);
+    expect(JSON.parse(fs.readFileSync(path.join(dir, '.intentproof/runs/run-1.json'), 'utf-8')).intentId).toBe('limits');
+  });
+  
+  it('rejects ids that would leave its directory', async () => {
+    const store = new FileIntentStore(path.join(dir, '.intentproof'));
+    
+    await expect(store.getRun('../secrets')).rejects.toThrow('Invalid run id: ../secrets');
+    await expect(store.saveIntent({ id: '.hidden' } as any)).rejects.toThrow('Invalid intent id: .hidden');
+  });
+  
+  it('finds nothing before anything was stored', async () => {
+    const store = new FileIntentStore(path.join(dir, 'empty'));
+    
+    expect(await store.findRuns()).toEqual([]);
+    expect(await store.findIntents()).toEqual([]);
+  });
+});
+
+describe('findById', () => {
+  it('finds runs and intents by id or unambiguous prefix', async () => {
+    const store = new MemoryIntentStore();
+    const intent = new Intent('Raise the rate limit', { id: 'limits' }).step('Check', { verify: () => true });
+    await recordIntent(store, intent);
+    await store.saveRun(storedRun('a1b2', 'limits', 'Raise the rate limit', '2026-01-01T00:00:00.000Z'));
+    await store.saveRun(storedRun('a1c3', 'limits', 'Raise the rate limit', '2026-01-02T00:00:00.000Z'));
+    
+    const byRun = await findById(store, 'a1b2');
+    expect(byRun.run?.id).toBe('a1b2');
+    expect(byRun.intent?.id).toBe('limits');
+    expect((await findById(store, 'a1c')).run?.id).toBe('a1c3');
+    expect(await findById(store, 'lim')).toEqual({ intent: expect.objectContaining({ id: 'limits' }) });
+    expect(await findById(store, 'zzz')).toEqual({});
+    await expect(findById(store, 'a1')).rejects.toThrow('Ambiguous id a1: matches a1c3, a1b2');
+  });
+  
+  it('treats an id the file store rejects as a prefix', async () => {
+    const store = new FileIntentStore(path.join(dir, '.intentproof'));
+    
+    expect(await findById(store, '../x')).toEqual({});
+  });
+});
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Intent } from '../src/intent';
+import { sleep } from '../src/timing';
+
+describe('sub-intents', () => {
+  it('runs a child intent as one step and keeps its result', async () => {
+    const events: string[] = [];
+    const intent = new Intent('Release')
+      .step('Build', { verify: () => true })
+      .subIntent('Publish', child => child
+        .step('Upload', { verify: () => true })
+        .step('Tag', { verify: () => true }), { dependencies: ['Build'] });
+    intent.on('step:complete', ({ step }) => events.push(step));
+    const result = await intent.execute();
+    
+    expect(result.success).toBe(true);
+    expect(events).toEqual(['Build', 'Publish › Upload', 'Publish › Tag', 'Publish']);
+    
+    const publish = result.steps.find(step => step.name === 'Publish')!;
+    expect(publish.result?.message).toBe('Sub-intent verified: 2/2 steps');
+    expect(publish.subIntent?.steps.map(step => step.name)).toEqual(['Upload', 'Tag']);
+  });
+  
+  it('nests to any depth', async () => {
+    const events: string[] = [];
+    const intent = new Intent('Root').subIntent('Middle', middle => middle
+      .subIntent('Leaf', leaf => leaf.step('Check', { verify: () => true })));
+    intent.on('step:complete', ({ step }) => events.push(step));
+    
+    expect((await intent.execute()).success).toBe(true);
+    expect(events).toContain('Middle › Leaf › Check');
+  });
+  
+  it('fails the step when the child fails, naming where', async () => {
+    const result = await new Intent('Release')
+      .subIntent('Publish', child => child
+        .step('Upload', { verify: () => true })
+        .step('Tag', { verify: () => false }))
+      .execute();
+    
+    expect(result).toMatchObject({ success: false, failedStep: 'Publish' });
+    expect(result.failureReason).toMatch(/^Sub-intent "Publish" failed at Tag: /);
+  });
+  
+  it('unwinds a completed child when a later step of the parent fails', async () => {
+    const undone: string[] = [];
+    const result = await new Intent('Release')
+      .subIntent('Publish', child => child
+        .step('Upload', { verify: () => true, rollback: async () => { undone.push('Upload'); } })
+        .step('Tag', { verify: () => true, rollback: async () => { undone.push('Tag'); } }))
+      .step('Announce', { verify: () => false })
+      .execute();
+    
+    expect(undone).toEqual(['Tag', 'Upload']);
+    expect(result.rollbacks!.map(rollback => rollback.step)).toEqual(['Publish › Tag', 'Publish › Upload']);
+    expect(result.steps[0].status).toBe('reverted');
+  });
+  
+  it('cancels a child that runs past the deadline rather than leaving it running', async () => {
+    let reached = false;
+    const intent = new Intent('Release', { timeout: 30 })
+      .subIntent('Publish', child => child
+        .step('Upload', { action: () => sleep(100), verify: () => true })
+        .step('Tag', { action: async () => { reached = true; }, verify: () => true }));
+    const result = await intent.execute();
+    await sleep(150);
+    
+    expect(result).toMatchObject({ success: false, timedOut: true });
+    expect(result.steps[0].subIntent?.status).toBe('cancelled');
+    expect(reached).toBe(false);
+  });
+  
+  it('passes cancellation of the parent on to the child', async () => {
+    const controller = new AbortController();
+    let reached = false;
+    const intent = new Intent('Release')
+      .subIntent('Publish', child => child
+        .step('Upload', { action: () => sleep(100), verify: () => true })
+        .step('Tag', { action: async () => { reached = true; }, verify: () => true }));
+    setTimeout(() => controller.abort(), 20);
+    const result = await intent.execute({ signal: controller.signal });
+    await sleep(150);
+    
+    expect(result.status).toBe('cancelled');
+    expect(reached).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseTestReport, TestReportVerifier } from '../src/verifiers/tests';
+import { VerificationTests } from '../src/types';
+
+const JUNIT = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites>
+  <!-- <testcase name="commented out"/> -->
+  <testsuite name="limits" file="test/limits.test.ts">
+    <testsuite name="rate &amp; burst">
+      <testcase name="allows 10 rps" time="0.01"/>
+      <testcase name="rejects the 11th">
+        <failure message="expected 429&#10;got 200" type="AssertionError"><![CDATA[<stack>]]></failure>
+      </testcase>
+    </testsuite>
+    <testcase name='resets' classname="limits"><skipped/></testcase>
+  </testsuite>
+  <testsuite name="empty"/>
+</testsuites>`;
+
+const TAP = `TAP version 13
+# Subtest: limits
+    ok 1 - allows 10 rps
+    not ok 2 - rejects the 11th
+      ---
+      ok 3 - inside diagnostics
+      ...
+1..2
+not ok 1 - limits
+ok 2 - resets # SKIP not ready
+ok 3 plain
+1..3`;
+
+function jsonReport(assertions: any[], file: Record<string, any> = {}) {
+  return JSON.stringify({ testResults: [{ name: '/repo/test/limits.test.ts', assertionResults: assertions, ...file }] });
+}
+
+describe('parseTestReport', () => {
+  it('reads JUnit XML with nested suites', () => {
+    const report = parseTestReport(JUNIT);
+    
+    expect(report.format).toBe('junit');
+    expect(report.tests).toEqual([
+      { name: 'allows 10 rps', suite: 'limits › rate & burst', file: 'test/limits.test.ts', status: 'passed' },
+      { name: 'rejects the 11th', suite: 'limits › rate & burst', file: 'test/limits.test.ts', status: 'failed', message: 'expected 429' },
+      { name: 'resets', suite: 'limits', file: 'test/limits.test.ts', status: 'skipped' }
+    ]);
+  });
+  
+  it('reads TAP with subtests and directives', () => {
+    const report = parseTestReport(TAP);
+    
+    expect(report.format).toBe('tap');
+    expect(report.tests).toEqual([
+      { name: 'allows 10 rps', suite: 'limits', status: 'passed' },
+      { name: 'rejects the 11th', suite: 'limits', status: 'failed' },
+      { name: 'resets', suite: '', status: 'skipped' },
+      { name: 'plain', suite: '', status: 'passed' }
+    ]);
+  });
+  
+  it('reads vitest and jest JSON reports', () => {
+    const report = parseTestReport(jsonReport([
+      { title: 'allows 10 rps', ancestorTitles: ['limits', 'rate'], status: 'passed' },
+      { title: 'rejects the 11th', ancestorTitles: ['limits'], status: 'failed', failureMessages: ['Error: expected 429\n  at x'] },
+      { title: 'resets', ancestorTitles: [], status: 'pending' },
+      { title: 'focused', ancestorTitles: [], status: 'passed', mode: 'only' }
+    ]));
+    
+    expect(report.format).toBe('json');
+    expect(report.tests.map(test => [test.suite, test.name, test.status, test.message, test.focused])).toEqual([
+      ['limits › rate', 'allows 10 rps', 'passed', undefined, undefined],
+      ['limits', 'rejects the 11th', 'failed', 'Error: expected 429', undefined],
+      ['', 'resets', 'skipped', undefined, undefined],
+      ['', 'focused', 'passed', undefined, true]
+    ]);
+  });
+  
+  it('counts a test file that failed to load as a failure', () => {
+    const report = parseTestReport(jsonReport([], { status: 'failed', message: 'SyntaxError: oops\nmore' }));
+    
+    expect(report.tests).toEqual([{ name: '(file failed to run)', suite: '/repo/test/limits.test.ts', file: '/repo/test/limits.test.ts', status: 'failed', message: 'SyntaxError: oops' }]);
+  });
+  
+  it('rejects content that is no report it knows', () => {
+    expect(() => parseTestReport('{"numTests": 1}')).toThrow('not a vitest/jest JSON report (no testResults)');
+    expect(() => parseTestReport('<html></html>')).toThrow('not a JUnit XML report');
+    expect(() => parseTestReport('all good')).toThrow('not a TAP report');
+  });
+});
+
+describe('TestReportVerifier', () => {
+  const verifier = new TestReportVerifier();
+  let dir: string;
+  
+  const check = (spec: Omit<VerificationTests, 'type' | 'report'> & { report?: string }) =>
+    verifier.verify({ type: 'tests', report: 'report.xml', cwd: dir, ...spec });
+  
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-tests-'));
+    fs.writeFileSync(path.join(dir, 'report.xml'), JUNIT);
+  });
+  
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  
+  it('fails on failing tests, naming them', async () => {
+    const result = await check({});
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Test report check failed: failed: limits › rate & burst › rejects the 11th');
+    expect(result.actual).toEqual({ passed: 1, failed: 1, skipped: 1 });
+    expect(result.evidence).toContain('Failed: limits › rate & burst › rejects the 11th (expected 429)');
+  });
+  
+  it('tolerates failures the baseline already had', async () => {
+    fs.writeFileSync(path.join(dir, 'baseline.xml'), '<testsuite name="limits"><testsuite name="rate &amp; burst"><testcase name="rejects the 11th"><failure/></testcase></testsuite></testsuite>');
+    const result = await check({ baseline: 'baseline.xml' });
+    
+    expect(result.success).toBe(true);
+    expect(result.evidence).toContain('Baseline: baseline.xml: 1 failing before');
+  });
+  
+  it('proves named tests and suites passed', async () => {
+    const passing = await check({ baseline: 'report.xml', tests: ['allows 10 rps', 'limits › rate & burst › allows 10 rps', '/10 rps$/'], suites: ['test/limits.test.ts'] });
+    expect(passing.message).toBe('Test report check failed: suites: "test/limits.test.ts" has 2 test(s) not passing: limits › rate & burst › rejects the 11th, limits › resets');
+    
+    const failing = await check({ baseline: 'report.xml', tests: ['missing test', 'resets'], suites: ['nope'] });
+    expect(failing.message).toBe('Test report check failed: tests: "missing test" not found; tests: "resets" did not pass (skipped); suites: "nope" not found');
+  });
+  
+  it('fails on a /pattern/ name that does not compile, before running the command', async () => {
+    const touch = `node -e "require('fs').writeFileSync('ran', '')"`;
+    const tests = await check({ tests: ['/(/'], command: touch });
+    const suites = await check({ suites: ['limits', '/[/'] });
+    
+    expect(tests.success).toBe(false);
+    expect(tests.message).toMatch(/^Invalid pattern for tests: Invalid regular expression/);
+    expect(fs.existsSync(path.join(dir, 'ran'))).toBe(false);
+    expect(suites.message).toMatch(/^Invalid pattern for suites: Invalid regular expression/);
+  });
+  
+  it('requires a minimum number of tests to have run', async () => {
+    fs.writeFileSync(path.join(dir, 'report.tap'), 'ok 1 - only one\n1..1\n');
+    
+    expect((await check({ report: 'report.tap' })).success).toBe(true);
+    expect((await check({ report: 'report.tap', minTests: 5 })).message).toBe('Test report check failed: minTests: expected at least 5 test(s) to run, got 1');
+  });
+  
+  it('rejects skipped and focused tests when asked', async () => {
+    fs.mkdirSync(path.join(dir, 'test'));
+    fs.writeFileSync(path.join(dir, 'test', 'limits.test.ts'), "describe('limits', () => {\n  it.only('allows 10 rps', () => {});\n});\n");
+    const result = await check({ baseline: 'report.xml', noSkipped: true, noOnly: true });
+    
+    expect(result.message).toBe('Test report check failed: noSkipped: 1 test(s) skipped: limits › resets; noOnly: focused tests found (test/limits.test.ts:2)');
+  });
+  
+  it('runs the command that writes the report first', async () => {
+    const write = `node -e "require('fs').writeFileSync('fresh.tap', 'ok 1 - new\\\\n1..1\\\\n')"`;
+    const result = await check({ report: 'fresh.tap', command: write });
+    
+    expect(result.success).toBe(true);
+    expect(result.evidence![0]).toMatch(/^Ran: .* \(exit code 0, \d+ms\)$/);
+    expect(result.records!.map(record => record.kind)).toEqual(['command', 'file']);
+  });
+  
+  it('refuses a report the command did not update', async () => {
+    const stale = path.join(dir, 'report.xml');
+    fs.utimesSync(stale, new Date(Date.now() - 60000), new Date(Date.now() - 60000));
+    const result = await check({ command: 'node -e ""' });
+    
+    expect(result.message).toBe(`Test report was not updated by the command: ${stale}`);
+  });
+  
+  it('fails when the report cannot be read', async () => {
+    const result = await check({ report: 'missing.xml' });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/^Could not read test report .*missing\.xml: ENOENT/);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileVerifier, StateVerifier } from '../src/verifiers/base';
+import { Intent } from '../src/intent';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-verifiers-'));
+  fs.writeFileSync(path.join(dir, 'config.json'), '{ "rps": 10, "burst": 20 }\n');
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('FileVerifier', () => {
+  const verifier = new FileVerifier();
+  
+  it('checks existence, content, size and modification time', async () => {
+    const result = await verifier.verify({
+      type: 'file',
+      path: 'config.json',
+      cwd: dir,
+      exists: true,
+      contains: ['"rps"', '"burst"'],
+      matches: '"RPS":\\s*10',
+      flags: 'i',
+      size: { min: 10, max: 100 },
+      modified: { after: '2000-01-01T00:00:00Z', before: new Date(Date.now() + 60000) }
+    });
+    
+    expect(result.success).toBe(true);
+    expect(result.evidence).toContain('Contains: ""rps""');
+    expect(result.records).toEqual([expect.objectContaining({ kind: 'file', path: path.join(dir, 'config.json'), exists: true, hash: expect.any(String) })]);
+  });
+  
+  it('says which check failed', async () => {
+    const file = path.join(dir, 'config.json');
+    
+    expect((await verifier.verify(file, { contains: ['rps', 'window'] })).message).toBe('File does not contain: "window"');
+    expect((await verifier.verify(file, { matches: /^\[/ })).message).toBe('File does not match pattern: /^\\[/');
+    expect((await verifier.verify(file, { size: { max: 5 } })).message).toMatch(/^File too large: \d+ > 5$/);
+    expect((await verifier.verify(file, { modified: { after: new Date(Date.now() + 60000) } })).message).toBe('File not modified recently');
+  });
+  
+  it('checks that a file is absent', async () => {
+    expect((await verifier.verify({ type: 'file', path: 'gone.txt', cwd: dir, exists: false })).success).toBe(true);
+    expect((await verifier.verify({ type: 'file', path: 'config.json', cwd: dir, exists: false })).message).toBe(`File should not exist: ${path.join(dir, 'config.json')}`);
+    expect((await verifier.verify({ type: 'file', path: 'gone.txt', cwd: dir })).message).toBe(`File not found: ${path.join(dir, 'gone.txt')}`);
+  });
+  
+  it('fails on a pattern that does not compile', async () => {
+    const result = await verifier.verify({ type: 'file', path: 'config.json', cwd: dir, matches: '(' });
+    
+    expect(result.success).toBe(false);
+    expect(result.message).toMatch(/^Invalid pattern for matches: Invalid regular expression/);
+  });
+  
+  it('returns a cancelled result when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    
+    const result = await verifier.verify({ type: 'file', path: 'config.json', cwd: dir }, undefined, { signal: controller.signal });
+    
+    expect(result).toMatchObject({ success: false, cancelled: true });
+  });
+});
+
+describe('StateVerifier', () => {
+  it('compares stored snapshots', async () => {
+    const verifier = new StateVerifier();
+    verifier.snapshot('before', { rps: 10 });
+    verifier.snapshot('after', { rps: 20 });
+    
+    expect((await verifier.verify('before', { rps: 10 })).success).toBe(true);
+    expect((await verifier.verify('before', { rps: 11 })).message).toBe('State does not match');
+    expect((await verifier.verify('missing')).message).toBe('No snapshot found for key: missing');
+    expect(verifier.diff('before', 'after').success).toBe(false);
+  });
+  
+  it('captures state from a file or command, parsing JSON', async () => {
+    const verifier = new StateVerifier();
+    
+    expect((await verifier.verify({ type: 'state', key: 'config', file: 'config.json', cwd: dir, equals: { rps: 10, burst: 20 } })).success).toBe(true);
+    expect((await verifier.verify({ type: 'state', key: 'echo', command: 'node -e "console.log(\'plain text\')"', equals: 'plain text' })).success).toBe(true);
+  });
+  
+  it('checks a capture against another with sameAs and differsFrom', async () => {
+    const verifier = new StateVerifier();
+    const capture = (key: string, extra: object = {}) => verifier.verify({ type: 'state', key, file: 'config.json', cwd: dir, ...extra });
+    await capture('before');
+    
+    expect((await capture('again', { sameAs: 'before' })).success).toBe(true);
+    expect((await capture('again', { differsFrom: 'before' })).message).toBe('State "again" is unchanged from "before"');
+    
+    fs.writeFileSync(path.join(dir, 'config.json'), '{ "rps": 50 }');
+    expect((await capture('after', { differsFrom: 'before' })).success).toBe(true);
+    expect((await capture('after', { sameAs: 'before' })).message).toBe('State "after" differs from "before"');
+    expect((await capture('after', { sameAs: 'never' })).message).toBe('No snapshot found for key: never');
+  });
+  
+  it('fails when the state cannot be captured', async () => {
+    const verifier = new StateVerifier();
+    
+    expect((await verifier.verify({ type: 'state', key: 'x', command: 'node -e "process.exit(2)"' })).message).toMatch(/^Could not capture state "x": .* exited with code 2/);
+    expect((await verifier.verify({ type: 'state', key: 'x', file: 'missing.json', cwd: dir })).message).toMatch(/^Could not capture state "x": ENOENT/);
+  });
+});
+
+describe('file and state steps', () => {
+  it('verifies files and tracks state across the steps of an intent', async () => {
+    const config = path.join(dir, 'config.json');
+    const result = await new Intent('Raise the limit')
+      .step('Capture', { verify: { type: 'state', key: 'before', file: config } })
+      .step('Edit', {
+        action: async () => fs.writeFileSync(config, '{ "rps": 100, "burst": 20 }'),
+        verify: { type: 'file', path: config, contains: '"rps": 100' }
+      })
+      .step('Changed', { verify: { type: 'state', key: 'after', file: config, differsFrom: 'before' } })
+      .execute();
+    
+    expect(result.steps.map(step => [step.name, step.status])).toEqual([['Capture', 'completed'], ['Edit', 'completed'], ['Changed', 'completed']]);
+  });
+  
+  it('fails the check, not the run, when a file check has an invalid pattern', async () => {
+    const invalid = { type: 'file' as const, path: path.join(dir, 'config.json'), matches: '(' };
+    const pass = () => true;
+    const run = (intent: Intent) => intent.execute();
+    
+    const cases = await Promise.all([
+      run(new Intent('Precondition').requires(invalid).step('Step', { verify: pass })),
+      run(new Intent('Postcondition').step('Step', { verify: pass }).ensures(invalid)),
+      run(new Intent('Invariant').invariant(invalid).step('Step', { verify: pass })),
+      run(new Intent('Step').step('Step', { verify: invalid }))
+    ]);
+    
+    expect(cases.map(result => [result.status, result.failedStep])).toEqual([
+      ['failed', 'preconditions'],
+      ['failed', 'postconditions'],
+      ['failed', 'invariant before Step'],
+      ['failed', 'Step']
+    ]);
+    for (const result of cases) {
+      expect(result.failureReason).toMatch(/^Invalid pattern for matches: /);
+    }
+  });
+});
\ No newline at end of file
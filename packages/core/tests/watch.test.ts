@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IntentWatcher, loadWatchConfig } from '../src/watch';
+import { WatchedIntent } from '../src/types';
+
+let root: string;
+let watcher: IntentWatcher | undefined;
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), content);
+}
+
+function intentFile(goal: string, script: string): string {
+  return JSON.stringify({ goal, steps: [{ name: 'Check', verify: { type: 'command', command: 'node', args: ['-e', script] } }] });
+}
+
+// The next status of `file` that satisfies `matches`
+function statusOf(file: string, matches: (status: WatchedIntent) => boolean): Promise<WatchedIntent> {
+  return new Promise(resolve => {
+    const listener = (status: WatchedIntent) => {
+      if (status.file === file && matches(status)) {
+        watcher!.off('status', listener);
+        resolve(status);
+      }
+    };
+    watcher!.on('status', listener);
+  });
+}
+
+function settled(file: string): Promise<WatchedIntent> {
+  return statusOf(file, status => !['pending', 'running'].includes(status.status));
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-watch-'));
+  write('src/limiter.ts', 'export const rps = 10;\n');
+  write('docs/guide.md', '# Guide\n');
+  write('limits.json', intentFile('Check the limits', 'process.exit(0)'));
+  write('docs.json', intentFile('Check the docs', 'process.exit(1)'));
+});
+
+afterEach(async () => {
+  await watcher?.stop();
+  watcher = undefined;
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('loadWatchConfig', () => {
+  it('reads the mapping of globs to intent files', () => {
+    write('intentproof.config.json', JSON.stringify({ watch: { 'src/**': 'limits.json', 'docs/**': ['docs.json'] }, debounce: 50, ignore: ['**/*.tmp'] }));
+    
+    expect(loadWatchConfig(path.join(root, 'intentproof.config.json'))).toEqual({
+      watch: { 'src/**': 'limits.json', 'docs/**': ['docs.json'] },
+      debounce: 50,
+      ignore: ['**/*.tmp']
+    });
+  });
+  
+  it('says what is wrong with a config', () => {
+    const config = path.join(root, 'intentproof.config.json');
+    const load = (value: any) => {
+      fs.writeFileSync(config, JSON.stringify(value));
+      return () => loadWatchConfig(config);
+    };
+    
+    expect(() => loadWatchConfig(path.join(root, 'missing.json'))).toThrow(`Watch config not found: ${path.join(root, 'missing.json')}`);
+    expect(load({ watch: {} })).toThrow('"watch" must map globs to intent files');
+    expect(load({ watch: { 'src/**': 1 } })).toThrow('watch["src/**"] must be an intent file or a list of them');
+    expect(load({ watch: { 'src/**': 'a.json' }, debounce: -1 })).toThrow('"debounce" must be a number of milliseconds');
+    expect(load({ watch: { 'src/**': 'a.json' }, ignore: 'dist' })).toThrow('"ignore" must be a list of globs');
+  });
+});
+
+describe('IntentWatcher', () => {
+  it('verifies every intent once when it starts', async () => {
+    watcher = new IntentWatcher({ watch: { 'src/**': 'limits.json', 'docs/**': 'docs.json' }, debounce: 10 }, root);
+    const limits = settled('limits.json');
+    const docs = settled('docs.json');
+    await watcher.start();
+    
+    expect(await limits).toMatchObject({ status: 'passed', goals: ['Check the limits'], runs: 1, runIds: [expect.any(String)] });
+    expect(await docs).toMatchObject({ status: 'failed', failedStep: 'Check', runs: 1 });
+    expect(watcher.statuses.map(status => status.file)).toEqual(['limits.json', 'docs.json']);
+  });
+  
+  it('runs again only the intents whose globs a settled change matches', async () => {
+    watcher = new IntentWatcher({ watch: { 'src/**': 'limits.json', 'docs/**': 'docs.json' }, debounce: 10 }, root);
+    const first = Promise.all([settled('limits.json'), settled('docs.json')]);
+    await watcher.start();
+    await first;
+    
+    const changes: any[] = [];
+    watcher.on('change', change => changes.push(change));
+    const rerun = settled('limits.json');
+    watcher.notify(['src/limiter.ts']);
+    watcher.notify(['README.md']);
+    
+    expect(await rerun).toMatchObject({ status: 'passed', runs: 2, trigger: ['src/limiter.ts'] });
+    expect(changes).toEqual([{ paths: ['README.md', 'src/limiter.ts'], files: ['limits.json'] }]);
+    expect(watcher.statuses.find(status => status.file === 'docs.json')!.runs).toBe(1);
+  });
+  
+  it('runs an intent again when its own file changes, and reports a file that does not load', async () => {
+    watcher = new IntentWatcher({ watch: { 'src/**': 'limits.json' }, debounce: 10 }, root);
+    const first = settled('limits.json');
+    await watcher.start();
+    await first;
+    
+    write('limits.json', '{ "goal": ');
+    const broken = settled('limits.json');
+    watcher.notify(['limits.json']);
+    
+    expect(await broken).toMatchObject({ status: 'error', failureReason: expect.stringContaining('Invalid JSON'), runs: 2 });
+  });
+  
+  it('reports an intent that throws as an error and keeps watching', async () => {
+    write('broken.js', 'module.exports = { goal: "Broken", on() {}, plan() {}, execute: async () => { throw new Error("Verifier crashed"); } };');
+    watcher = new IntentWatcher({ watch: { 'src/**': ['broken.js', 'limits.json'] }, debounce: 10 }, root);
+    const broken = settled('broken.js');
+    const limits = settled('limits.json');
+    await watcher.start();
+    
+    expect(await broken).toMatchObject({ status: 'error', failureReason: 'Verifier crashed', step: undefined, runs: 1 });
+    expect(await limits).toMatchObject({ status: 'passed', runs: 1 });
+    
+    const again = settled('broken.js');
+    watcher.notify(['src/limiter.ts']);
+    expect(await again).toMatchObject({ status: 'error', runs: 2 });
+  });
+  
+  it('cancels a run that newer changes supersede and queues it again', async () => {
+    write('slow.json', intentFile('Slow check', 'setTimeout(() => {}, 5000)'));
+    watcher = new IntentWatcher({ watch: { 'src/**': 'slow.json' }, debounce: 10 }, root);
+    const running = statusOf('slow.json', status => status.status === 'running');
+    await watcher.start();
+    await running;
+    
+    const cancelled = settled('slow.json');
+    const again = statusOf('slow.json', status => status.status === 'running' && status.runs === 1);
+    watcher.notify(['src/limiter.ts']);
+    
+    expect(await cancelled).toMatchObject({ status: 'cancelled', runs: 1 });
+    expect(await again).toMatchObject({ trigger: ['src/limiter.ts'] });
+  });
+  
+  it('notices files changed on disk under a watched directory', async () => {
+    watcher = new IntentWatcher({ watch: { 'src/**': 'limits.json' }, debounce: 10 }, root);
+    const first = settled('limits.json');
+    await watcher.start();
+    await first;
+    
+    const rerun = settled('limits.json');
+    write('src/limiter.ts', 'export const rps = 100;\n');
+    
+    expect(await rerun).toMatchObject({ status: 'passed', runs: 2, trigger: ['src/limiter.ts'] });
+  });
+});
\ No newline at end of file
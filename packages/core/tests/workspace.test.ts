@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { checkChanges, diffSnapshots, isIgnored, readIgnoreRules, snapshotWorkspace } from '../src/workspace';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+let root: string;
+
+function write(file: string, content: string): void {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), content);
+}
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), 'intentproof-workspace-'));
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe('readIgnoreRules', () => {
+  it('keeps root-anchored patterns at the root', async () => {
+    write('.gitignore', '/dist\n');
+    const rules = await readIgnoreRules(root, '');
+    
+    expect(isIgnored(rules, 'dist', true)).toBe(true);
+    expect(isIgnored(rules, 'packages/x/dist', true)).toBe(false);
+  });
+  
+  it('matches unanchored names at any depth and patterns with a slash from their directory', async () => {
+    write('.gitignore', 'build\nsrc/*.js\n');
+    const rules = await readIgnoreRules(root, '');
+    
+    expect(isIgnored(rules, 'a/b/build', true)).toBe(true);
+    expect(isIgnored(rules, 'src/a.js', false)).toBe(true);
+    expect(isIgnored(rules, 'lib/src/a.js', false)).toBe(false);
+  });
+  
+  it('applies negations and directory-only rules', async () => {
+    write('.gitignore', '*.log\n!keep.log\ntmp/\n');
+    const rules = await readIgnoreRules(root, '');
+    
+    expect(isIgnored(rules, 'debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'keep.log', false)).toBe(false);
+    expect(isIgnored(rules, 'tmp', true)).toBe(true);
+    expect(isIgnored(rules, 'tmp', false)).toBe(false);
+  });
+  
+  it('anchors nested .gitignore rules to their own directory', async () => {
+    write('pkg/.gitignore', '/out\n');
+    const rules = await readIgnoreRules(root, 'pkg');
+    
+    expect(isIgnored(rules, 'pkg/out', true)).toBe(true);
+    expect(isIgnored(rules, 'pkg/src/out', true)).toBe(false);
+  });
+});
+
+describe('snapshotWorkspace', () => {
+  it('skips ignored files and the IntentProof store', async () => {
+    write('.gitignore', '/dist\n');
+    write('src/a.ts', 'a');
+    write('dist/a.js', 'a');
+    write('packages/x/dist/b.js', 'b');
+    write('.intentproof/runs.json', '[]');
+    
+    const snapshot = await snapshotWorkspace({ root });
+    
+    expect(Object.keys(snapshot.files).sort()).toEqual(['.gitignore', 'packages/x/dist/b.js', 'src/a.ts']);
+  });
+  
+  it('takes a bare or directory pattern in include and exclude to cover everything beneath it', async () => {
+    write('src/a.ts', 'a');
+    write('src/lib/b.ts', 'b');
+    write('dist/a.js', 'a');
+    write('packages/x/dist/b.js', 'b');
+    write('README.md', 'readme');
+    
+    const files = async (options: { include?: string[]; exclude?: string[] }) => Object.keys((await snapshotWorkspace({ root, ...options })).files).sort();
+    
+    expect(await files({ exclude: ['dist'] })).toEqual(['README.md', 'src/a.ts', 'src/lib/b.ts']);
+    expect(await files({ exclude: ['dist/'] })).toEqual(['README.md', 'packages/x/dist/b.js', 'src/a.ts', 'src/lib/b.ts']);
+    expect(await files({ include: ['src'] })).toEqual(['src/a.ts', 'src/lib/b.ts']);
+    expect(await files({ include: ['packages/x'] })).toEqual(['packages/x/dist/b.js']);
+  });
+  
+  it('diffs two snapshots into added, modified and deleted files with line counts', async () => {
+    write('keep.txt', 'same');
+    write('edit.txt', 'one\ntwo\n');
+    write('gone.txt', 'bye');
+    const before = await snapshotWorkspace({ root, lines: true });
+    
+    write('edit.txt', 'one\nthree\nfour\n');
+    write('new.txt', 'hi');
+    fs.rmSync(path.join(root, 'gone.txt'));
+    const changes = diffSnapshots(before, await snapshotWorkspace({ root, lines: true }));
+    
+    expect(changes.added.map(change => change.path)).toEqual(['new.txt']);
+    expect(changes.modified).toMatchObject([{ path: 'edit.txt', linesAdded: 2, linesRemoved: 1 }]);
+    expect(changes.deleted.map(change => change.path)).toEqual(['gone.txt']);
+    expect(changes.unchanged).toBe(1);
+    expect(changes.beforeHash).not.toBe(changes.afterHash);
+  });
+});
+
+describe('checkChanges', () => {
+  it('checks each kind of change against globs and counts', async () => {
+    write('src/a.ts', 'a');
+    const before = await snapshotWorkspace({ root });
+    write('src/a.ts', 'b');
+    write('src/b.ts', 'b');
+    const changes = diffSnapshots(before, await snapshotWorkspace({ root }));
+    
+    expect(checkChanges(changes, { modified: ['src/a.ts'], added: [{ path: 'src/*.ts', count: { eq: 1 } }], only: ['src/'] }).success).toBe(true);
+    
+    const result = checkChanges(changes, { deleted: ['src/**'], unchanged: ['src/b.ts'] });
+    expect(result.success).toBe(false);
+    expect(result.message).toContain('deleted src/**');
+    expect(result.message).toContain('unchanged src/b.ts');
+  });
+});
\ No newline at end of file
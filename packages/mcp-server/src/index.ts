@@ -14,13 +14,218 @@ import {
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { Intent } from '@intentproof/core';
+import {
+  Intent,
+  DEFAULT_STORE_DIR,
+  FileIntentStore,
+  IntentStatus,
+  createIntent,
+  parseIntentDefinition,
+  recordIntent,
+  recordRun
+} from '@intentproof/core';
 import chalk from 'chalk';
 
-// Store active intents
+// Intents and their runs persist in the store; live intents are kept here so they can be cancelled
+const store = new FileIntentStore(process.env.INTENTPROOF_STORE || DEFAULT_STORE_DIR);
 const activeIntents = new Map<string, Intent>();
 let currentIntent: Intent | null = null;
 
+/**
+ * Build an intent from intent_declare arguments, which are also what the store keeps as its definition.
+ * They are checked against the intent file schema, so a bad field is reported by its path.
+ */
+function buildIntent(definition: any, id?: string): Intent {
+  return createIntent(parseIntentDefinition(definition), id ? { id } : {});
+}
+
+/**
+ * The intent with this id, or the current one: live if this process has it, otherwise rebuilt from the store
+ */
+async function findIntent(intentId?: string): Promise<Intent | undefined> {
+  const id = intentId || currentIntent?.id || (await store.findIntents({ limit: 1 }))[0]?.id;
+  if (!id) {
+    return undefined;
+  }
+  
+  let intent = activeIntents.get(id);
+  if (!intent) {
+    const stored = await store.getIntent(id);
+    if (!stored?.definition) {
+      return undefined;
+    }
+    intent = buildIntent(stored.definition, stored.id);
+    activeIntents.set(intent.id, intent);
+  }
+  currentIntent = intent;
+  return intent;
+}
+
+// A shell command, or a structured check of a file, a captured snapshot, an HTTP endpoint, git, a test
+// report, a coverage report or TypeScript source
+const verificationSchema = {
+  anyOf: [
+    { type: 'string', description: 'Shell command' },
+    {
+      type: 'object',
+      description: 'File check; every field present must hold',
+      properties: {
+        type: { const: 'file' },
+        path: { type: 'string' },
+        exists: { type: 'boolean' },
+        contains: { type: ['string', 'array'], items: { type: 'string' } },
+        matches: { type: 'string', description: 'Regular expression' },
+        flags: { type: 'string' },
+        size: { type: 'object', properties: { min: { type: 'number' }, max: { type: 'number' } } },
+        modified: { type: 'object', properties: { after: { type: 'string' }, before: { type: 'string' } } }
+      },
+      required: ['type', 'path']
+    },
+    {
+      type: 'object',
+      description: 'State snapshot, captured from a command or file and compared to a value or another snapshot',
+      properties: {
+        type: { const: 'state' },
+        key: { type: 'string' },
+        command: { type: 'string' },
+        file: { type: 'string' },
+        equals: {},
+        sameAs: { type: 'string' },
+        differsFrom: { type: 'string' }
+      },
+      required: ['type', 'key']
+    },
+    {
+      type: 'object',
+      description: 'HTTP endpoint check; without status, any 2xx passes',
+      properties: {
+        type: { const: 'http' },
+        url: { type: 'string' },
+        method: { type: 'string' },
+        headers: { type: 'object', additionalProperties: { type: 'string' } },
+        body: { type: ['string', 'object'] },
+        status: { type: ['number', 'array', 'object'] },
+        responseHeaders: { type: 'object' },
+        responseBody: { type: 'object', description: 'Text matcher, e.g. { "json": { "path": "$.ok", "equals": true } }' },
+        maxResponseTime: { type: 'number' },
+        ready: { type: 'object', properties: { timeout: { type: 'number' }, interval: { type: 'number' } } },
+        redact: { type: 'array', items: { type: 'string' } }
+      },
+      required: ['type', 'url']
+    },
+    {
+      type: 'object',
+      description: 'Git check: commits since base, changes from base to head (or the working tree)',
+      properties: {
+        type: { const: 'git' },
+        cwd: { type: 'string' },
+        base: { type: 'string' },
+        head: { type: 'string' },
+        commit: { type: 'object', properties: { message: { type: 'string' }, author: { type: 'string' } } },
+        changedPaths: {
+          type: 'object',
+          properties: {
+            must: { type: 'array', items: { type: 'string' } },
+            mustNot: { type: 'array', items: { type: 'string' } },
+            only: { type: 'array', items: { type: 'string' } }
+          }
+        },
+        lines: { type: 'array', items: { type: 'object', properties: { path: { type: 'string' }, added: { type: 'object' }, removed: { type: 'object' } } } },
+        clean: { type: 'boolean' },
+        diff: { type: 'object', properties: { added: { type: ['string', 'array'] }, removed: { type: ['string', 'array'] }, matches: { type: 'string' } } }
+      },
+      required: ['type']
+    },
+    {
+      type: 'object',
+      description: 'Test report check (JUnit XML, TAP, vitest/jest JSON); at least one test must run and none may fail',
+      properties: {
+        type: { const: 'tests' },
+        report: { type: 'string' },
+        format: { enum: ['junit', 'tap', 'json'] },
+        command: { type: 'string', description: 'Run first to write the report' },
+        cwd: { type: 'string' },
+        minTests: { type: 'number' },
+        tests: { type: 'array', items: { type: 'string' } },
+        suites: { type: 'array', items: { type: 'string' } },
+        noSkipped: { type: 'boolean' },
+        noOnly: { type: 'boolean' },
+        baseline: { type: 'string', description: 'Earlier report; only new failures fail the check' }
+      },
+      required: ['type', 'report']
+    },
+    {
+      type: 'object',
+      description: 'Coverage check over coverage-summary.json, coverage-final.json or lcov.info',
+      properties: {
+        type: { const: 'coverage' },
+        report: { type: 'string' },
+        cwd: { type: 'string' },
+        thresholds: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              file: { type: 'string', description: 'Glob; omit for the whole report' },
+              function: { type: 'string' },
+              lines: { type: 'number' },
+              branches: { type: 'number' },
+              functions: { type: 'number' },
+              statements: { type: 'number' }
+            }
+          }
+        },
+        baseline: { type: 'string', description: 'Earlier report; coverage must not drop' },
+        files: { type: 'array', items: { type: 'string' } },
+        changedSince: { type: 'string', description: 'Git ref; only compare files changed since it' }
+      },
+      required: ['type', 'report']
+    },
+    {
+      type: 'object',
+      description: 'TypeScript source check using the compiler API',
+      properties: {
+        type: { const: 'source' },
+        cwd: { type: 'string' },
+        files: { type: 'array', items: { type: 'string' } },
+        tsconfig: { type: 'string' },
+        exports: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { file: { type: 'string' }, name: { type: 'string' }, exists: { type: 'boolean' }, kind: { type: 'string' } },
+            required: ['file', 'name']
+          }
+        },
+        signatures: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              file: { type: 'string' },
+              name: { type: 'string', description: 'Function, or Class.method' },
+              parameters: { type: 'array', items: { type: 'string' } },
+              returns: { type: 'string' }
+            },
+            required: ['name']
+          }
+        },
+        implements: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { file: { type: 'string' }, class: { type: 'string' }, interface: { type: 'string' } },
+            required: ['class', 'interface']
+          }
+        },
+        noCalls: { type: 'array', items: { type: 'string' } },
+        typechecks: { type: 'boolean' }
+      },
+      required: ['type']
+    }
+  ]
+};
+
 // Define our MCP tools
 const tools: Tool[] = [
   {
@@ -39,8 +244,8 @@ const tools: Tool[] = [
           items: {
             type: 'object',
             properties: {
-              check: { type: 'string' },
-              expect: { type: 'string' }
+              check: verificationSchema,
+              expect: { type: ['string', 'object'] }
             }
           }
         },
@@ -51,22 +256,43 @@ const tools: Tool[] = [
             type: 'object',
             properties: {
               name: { type: 'string' },
-              verify: { type: 'string' },
-              expect: { type: 'string' }
+              verify: verificationSchema,
+              expect: { type: ['string', 'object'] }
             },
             required: ['name', 'verify']
           }
         },
+        invariants: {
+          type: 'array',
+          description: 'Conditions that must stay true before and after every step',
+          items: {
+            type: 'object',
+            properties: {
+              check: verificationSchema,
+              expect: { type: ['string', 'object'] }
+            }
+          }
+        },
         postconditions: {
           type: 'array',
           description: 'Conditions that must be true after completion',
           items: {
             type: 'object',
             properties: {
-              check: { type: 'string' },
-              expect: { type: 'string' }
+              check: verificationSchema,
+              expect: { type: ['string', 'object'] }
             }
           }
+        },
+        scope: {
+          type: 'object',
+          description: 'Where you may change files. Edits outside it, or over budget, fail the intent (or warn with severity "warning")',
+          properties: {
+            allowed: { type: 'array', items: { type: 'string' }, description: 'Globs, e.g. "packages/core/" or "src/**/*.ts"' },
+            maxFiles: { type: 'number' },
+            maxLines: { type: 'number', description: 'Lines added plus removed' },
+            severity: { type: 'string', enum: ['error', 'warning'] }
+          }
         }
       },
       required: ['goal', 'steps']
@@ -96,12 +322,12 @@ const tools: Tool[] = [
           description: 'Step name'
         },
         verify: {
-          type: 'string',
-          description: 'Verification command'
+          ...verificationSchema,
+          description: 'Verification command, or a structured check (file, state, http, git, tests, coverage, source)'
         },
         expect: {
-          type: 'string',
-          description: 'Expected output'
+          type: ['string', 'object'],
+          description: 'Expected output, or a structured expectation such as { "exitCode": 0, "stdout": { "contains": "ok" } }'
         }
       },
       required: ['name', 'verify']
@@ -118,13 +344,41 @@ const tools: Tool[] = [
           description: 'Command to verify'
         },
         expect: {
-          type: 'string',
-          description: 'Expected output'
+          type: ['string', 'object'],
+          description: 'Expected output, or a structured expectation such as { "exitCode": 0, "stdout": { "contains": "ok" } }'
         }
       },
       required: ['command']
     }
   },
+  {
+    name: 'intent_cancel',
+    description: 'Cancel a running intent verification. Commands it started are killed and remaining steps are skipped.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        intentId: {
+          type: 'string',
+          description: 'Optional intent ID. Uses current intent if not provided.'
+        }
+      }
+    }
+  },
+  {
+    name: 'intent_history',
+    description: 'List past verification runs, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        intentId: { type: 'string' },
+        goal: { type: 'string', description: 'Case-insensitive substring of the goal' },
+        status: { type: 'string', enum: ['completed', 'failed', 'cancelled'] },
+        since: { type: 'string', description: 'ISO date' },
+        until: { type: 'string', description: 'ISO date' },
+        limit: { type: 'number', description: 'Defaults to 20' }
+      }
+    }
+  },
   {
     name: 'intent_status',
     description: 'Get the current status of an intent',
@@ -165,34 +419,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     switch (name) {
       case 'intent_declare': {
-        const intent = new Intent(args.goal as string);
-        
-        // Add preconditions
-        if (args.preconditions) {
-          for (const pre of args.preconditions as any[]) {
-            intent.requires(pre.check, pre.expect);
-          }
-        }
-        
-        // Add steps
-        if (args.steps) {
-          for (const step of args.steps as any[]) {
-            intent.step(step.name, {
-              verify: step.verify,
-              expect: step.expect
-            });
-          }
-        }
-        
-        // Add postconditions
-        if (args.postconditions) {
-          for (const post of args.postconditions as any[]) {
-            intent.ensures(post.check, post.expect);
-          }
-        }
+        const intent = buildIntent(args);
         
         activeIntents.set(intent.id, intent);
         currentIntent = intent;
+        await recordIntent(store, intent, args);
         
         return {
           content: [
@@ -205,25 +436,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
       
       case 'intent_verify': {
-        const intentId = args.intentId as string || currentIntent?.id;
-        if (!intentId) {
-          return {
-            content: [
-              {
-                type: 'text',
-                text: '❌ No intent declared. Use intent_declare first.'
-              }
-            ]
-          };
-        }
-        
-        const intent = activeIntents.get(intentId);
+        const intent = await findIntent(args.intentId as string);
         if (!intent) {
           return {
             content: [
               {
                 type: 'text',
-                text: `❌ Intent not found: ${intentId}`
+                text: args.intentId ? `❌ Intent not found: ${args.intentId}` : '❌ No intent declared. Use intent_declare first.'
               }
             ]
           };
@@ -231,19 +450,42 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         
         // Execute the intent
         const result = await intent.execute();
+        const run = await recordRun(store, intent, result);
         
         // Build response
         let response = `🎯 Intent: ${intent.goal}\n`;
+        response += `Run: ${run.id}\n`;
         response += '═'.repeat(40) + '\n\n';
         
         if (result.success) {
           response += chalk.green('✅ VERIFIED - All checks passed!\n\n');
           response += `Duration: ${result.duration}ms\n`;
           response += `Steps completed: ${result.steps.filter(s => s.status === 'completed').length}/${result.steps.length}\n`;
+          for (const warning of result.warnings || []) {
+            response += `⚠️  ${warning}\n`;
+          }
         } else {
-          response += chalk.red(`❌ FAILED - Verification failed\n\n`);
+          if (result.status === 'cancelled') {
+            response += chalk.yellow('🚫 CANCELLED - Verification did not finish\n\n');
+          } else if (result.timedOut) {
+            response += chalk.red('⏰ FAILED - Verification timed out\n\n');
+          } else {
+            response += chalk.red(`❌ FAILED - Verification failed\n\n`);
+          }
           response += `Failed at: ${result.failedStep}\n`;
           response += `Reason: ${result.failureReason}\n\n`;
+          if (result.failedStep === 'scope') {
+            const evidence = result.verificationLog[result.verificationLog.length - 1]?.evidence || [];
+            response += evidence.map(line => `  ${line}\n`).join('') + '\n';
+          }
+          if (result.rollbacks) {
+            for (const rollback of result.rollbacks) {
+              response += rollback.success
+                ? `↩️  Rolled back: ${rollback.step}\n`
+                : `⚠️  Rollback failed: ${rollback.step} (${rollback.error})\n`;
+            }
+            response += '\n';
+          }
           response += '⚠️  DO NOT claim this task is complete!\n';
         }
         
@@ -260,7 +502,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
       
       case 'intent_step': {
-        if (!currentIntent) {
+        const intent = await findIntent();
+        if (!intent) {
           return {
             content: [
               {
@@ -271,10 +514,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
         
-        currentIntent.step(args.name as string, {
-          verify: args.verify as string,
-          expect: args.expect as string
-        });
+        const stored = (await store.getIntent(intent.id))?.definition || { goal: intent.goal, steps: [] };
+        const step = { name: args.name, verify: args.verify, expect: args.expect };
+        const definition = parseIntentDefinition({ ...stored, steps: [...(stored.steps || []), step] });
+        
+        const declared = definition.steps![definition.steps!.length - 1];
+        intent.step(declared.name, declared);
+        await recordIntent(store, intent, definition);
         
         return {
           content: [
@@ -287,13 +533,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
       
       case 'intent_quick_check': {
-        const intent = new Intent('Quick check')
-          .step('Verify', {
-            verify: args.command as string,
-            expect: args.expect as string
-          });
+        const definition = { goal: 'Quick check', steps: [{ name: 'Verify', verify: args.command, expect: args.expect }] };
+        const intent = buildIntent(definition);
         
         const result = await intent.execute();
+        await recordRun(store, intent, result, definition);
         
         if (result.success) {
           return {
@@ -316,36 +560,91 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
       }
       
-      case 'intent_status': {
+      case 'intent_cancel': {
         const intentId = args.intentId as string || currentIntent?.id;
-        if (!intentId) {
+        const intent = intentId ? activeIntents.get(intentId) : undefined;
+        if (!intent) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: intentId ? `❌ Intent not running here: ${intentId}` : '❌ No intent declared. Use intent_declare first.'
+              }
+            ]
+          };
+        }
+        
+        if (intent.status !== 'running') {
           return {
             content: [
               {
                 type: 'text',
-                text: 'No intent active'
+                text: `Intent is not running (status: ${intent.status})`
               }
             ]
           };
         }
         
-        const intent = activeIntents.get(intentId);
+        intent.cancel('Cancelled via intent_cancel');
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `🚫 Cancelling intent: ${intent.goal}\nThe pending intent_verify call will report the cancellation.`
+            }
+          ]
+        };
+      }
+      
+      case 'intent_history': {
+        const runs = await store.findRuns({
+          id: args.intentId as string | undefined,
+          goal: args.goal as string | undefined,
+          status: args.status as IntentStatus | undefined,
+          since: args.since as string | undefined,
+          until: args.until as string | undefined,
+          limit: (args.limit as number | undefined) ?? 20
+        });
+        
+        const lines = runs.map(run =>
+          `${run.success ? '✅' : run.status === 'cancelled' ? '🚫' : '❌'} ${run.startedAt}  run ${run.id}  intent ${run.intentId}  ${run.goal}` +
+          (run.result.failedStep ? `\n   Failed at: ${run.result.failedStep}: ${run.result.failureReason}` : ''));
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: lines.length > 0 ? lines.join('\n') : 'No runs recorded'
+            }
+          ]
+        };
+      }
+      
+      case 'intent_status': {
+        const intent = await findIntent(args.intentId as string);
         if (!intent) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Intent not found: ${intentId}`
+                text: args.intentId ? `Intent not found: ${args.intentId}` : 'No intent active'
               }
             ]
           };
         }
         
+        const stored = await store.getIntent(intent.id);
+        const lastRun = stored?.runs.length ? await store.getRun(stored.runs[stored.runs.length - 1]) : undefined;
+        const history = lastRun
+          ? `\n\nRuns: ${stored!.runs.length}, last ${lastRun.id} ${lastRun.status} at ${lastRun.finishedAt}`
+          : '';
+        
         return {
           content: [
             {
               type: 'text',
-              text: intent.visualize()
+              text: intent.visualize() + history
             }
           ]
         };